@@ -0,0 +1,79 @@
+/**
+ * Field-by-field agreement across structured answers
+ *
+ * Each answer object is flattened into dotted field paths (nested objects are
+ * walked; arrays and primitives are compared whole). For every field the
+ * distinct values are grouped with the models that gave them, so a
+ * classification split shows up as competing choices and numeric estimates
+ * additionally report their spread.
+ */
+
+import { List, Option } from "functype"
+
+import { stableStringify } from "./providers/cache.js"
+import type { CouncilAnswer, FieldAgreement, FieldChoice } from "./types.js"
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value)
+
+/**
+ * Flatten an answer into [path, value] pairs; empty objects are kept as values
+ */
+const flatten = (value: unknown, path: string): List<readonly [string, unknown]> =>
+  isPlainObject(value) && Object.keys(value).length > 0
+    ? List(Object.entries(value)).flatMap(([key, v]) => flatten(v, path ? `${path}.${key}` : key))
+    : List.of([path, value] as const)
+
+/**
+ * Summarize a field's numeric values, if every value is a number
+ */
+const numericSummary = (values: List<unknown>): Option<NonNullable<FieldAgreement["numeric"]>> => {
+  const numbers = values.toArray().filter((v): v is number => typeof v === "number")
+  return Option(numbers)
+    .filter((ns) => ns.length > 0 && ns.length === values.size)
+    .map((ns) => {
+      const min = Math.min(...ns)
+      const max = Math.max(...ns)
+      return { min, max, mean: ns.reduce((sum, n) => sum + n, 0) / ns.length, spread: max - min }
+    })
+}
+
+/**
+ * Compare answers field by field. Fields are listed in the order they first appear.
+ */
+export const compareAnswers = (answers: List<CouncilAnswer>): List<FieldAgreement> => {
+  const flattened = answers.map(({ model, value }) => ({ model, fields: new Map(flatten(value, "").toArray()) }))
+  const paths = flattened.flatMap(({ fields }) => List([...fields.keys()])).distinct()
+
+  return paths.map((field): FieldAgreement => {
+    const given = flattened.flatMap(({ model, fields }) =>
+      fields.has(field)
+        ? List.of({ model, value: fields.get(field) })
+        : List.empty<{ model: string; value: unknown }>(),
+    )
+    const missing = flattened.filter(({ fields }) => !fields.has(field)).map(({ model }) => model)
+
+    const groups = given.foldLeft(new Map<string, FieldChoice>())((acc, { model, value }) => {
+      const key = stableStringify(value)
+      const existing = acc.get(key)
+      return new Map(acc).set(key, {
+        value: existing ? existing.value : value,
+        models: existing ? existing.models.add(model) : List.of(model),
+      })
+    })
+    const choices = List([...groups.values()].sort((a, b) => b.models.size - a.models.size))
+    const top = choices.head?.models.size ?? 0
+
+    return {
+      field,
+      unanimous: choices.size === 1 && missing.isEmpty,
+      agreement: answers.size > 0 ? top / answers.size : 0,
+      choices,
+      missing,
+      ...numericSummary(given.map(({ value }) => value)).fold(
+        () => ({}),
+        (numeric) => ({ numeric }),
+      ),
+    }
+  })
+}
@@ -0,0 +1,180 @@
+/**
+ * Image and PDF attachments
+ *
+ * Attachments arrive inline as base64 (or a data: URL) or as paths to local
+ * files. Paths are only honoured inside the configured attachment directory,
+ * checked after resolving symlinks, so callers can't read arbitrary files from
+ * the server host.
+ *
+ * Before fanning out, each model is checked against the OpenRouter catalog's
+ * input modalities. Models known to be text-only are skipped with an error;
+ * models the catalog doesn't describe (self-hosted or unlisted) are queried
+ * anyway and flagged as unverified.
+ */
+
+import { readFile, realpath, stat } from "node:fs/promises"
+import { basename, extname, isAbsolute, relative, resolve } from "node:path"
+
+import { type Either, Left, List, Option, Right, tryCatchAsync } from "functype"
+
+import { ATTACHMENT_MEDIA_TYPES, ENV_KEYS, getAttachmentDir, getMaxAttachmentBytes } from "./constants.js"
+import { findCatalogModel, getCatalogIds } from "./providers/index.js"
+import type { Attachment, ModelError } from "./types.js"
+
+/**
+ * An attachment as supplied by a tool caller
+ */
+export type AttachmentInput =
+  | { readonly data: string; readonly mediaType?: string; readonly filename?: string }
+  | { readonly path: string }
+
+/**
+ * Loaded attachments and the models that can receive them
+ */
+export type AttachmentPlan = {
+  readonly attachments: List<Attachment>
+  readonly models: List<string> // Models to query
+  readonly skipped: List<ModelError> // Models known not to accept the attachments
+  readonly unverified: List<string> // Queried models whose input modalities are unknown
+}
+
+const SUPPORTED_MEDIA_TYPES: ReadonlySet<string> = new Set(Object.values(ATTACHMENT_MEDIA_TYPES))
+
+const DATA_URL = /^data:([^;,]+);base64,(.*)$/s
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/
+
+const mediaTypeFromName = (name: string): string | undefined =>
+  (ATTACHMENT_MEDIA_TYPES as Record<string, string>)[extname(name).toLowerCase()]
+
+/**
+ * Catalog input modality needed for a media type
+ */
+const requiredModality = (mediaType: string): string => (mediaType.startsWith("image/") ? "image" : "file")
+
+const checkAttachment = (label: string, attachment: Attachment, size: number): Either<string, Attachment> =>
+  !SUPPORTED_MEDIA_TYPES.has(attachment.mediaType)
+    ? Left(
+        `${label}: unsupported media type ${attachment.mediaType} (supported: ${[...SUPPORTED_MEDIA_TYPES].join(", ")})`,
+      )
+    : size > getMaxAttachmentBytes()
+      ? Left(`${label}: ${size} bytes exceeds the ${getMaxAttachmentBytes()} byte attachment limit`)
+      : Right(attachment)
+
+const loadInline = (
+  input: { readonly data: string; readonly mediaType?: string; readonly filename?: string },
+  index: number,
+): Either<string, Attachment> => {
+  const label = input.filename ?? `attachment ${index + 1}`
+  const dataUrl = DATA_URL.exec(input.data)
+  const data = (dataUrl?.[2] ?? input.data).replace(/\s+/g, "")
+  const mediaType =
+    input.mediaType ?? dataUrl?.[1] ?? (input.filename !== undefined ? mediaTypeFromName(input.filename) : undefined)
+
+  if (mediaType === undefined) return Left<string, Attachment>(`${label}: mediaType is required for inline data`)
+  if (!BASE64.test(data)) return Left<string, Attachment>(`${label}: data is not valid base64`)
+
+  return checkAttachment(
+    label,
+    { mediaType, data, ...(input.filename !== undefined && { filename: input.filename }) },
+    Buffer.byteLength(data, "base64"),
+  )
+}
+
+const loadFile = async (path: string): Promise<Either<string, Attachment>> => {
+  const dir = getAttachmentDir()
+  if (dir.isEmpty) {
+    return Left(`${path}: file attachments are disabled; set ${ENV_KEYS.ATTACHMENT_DIR} to allow a directory`)
+  }
+
+  const result = await tryCatchAsync(
+    async (): Promise<Either<string, Attachment>> => {
+      const root = await realpath(dir.orThrow())
+      const full = await realpath(resolve(root, path))
+      const rel = relative(root, full)
+      if (rel.startsWith("..") || isAbsolute(rel)) return Left(`${path}: outside the attachment directory`)
+
+      const mediaType = mediaTypeFromName(full) ?? "application/octet-stream"
+      const { size } = await stat(full)
+      // Validate before reading so oversized or unsupported files are never loaded
+      return checkAttachment(path, { mediaType, data: "", filename: basename(full) }, size).fold(
+        (error) => Promise.resolve(Left<string, Attachment>(error)),
+        async (attachment) =>
+          Right<string, Attachment>({ ...attachment, data: (await readFile(full)).toString("base64") }),
+      )
+    },
+    (error) => `${path}: ${error instanceof Error ? error.message : String(error)}`,
+  )
+
+  return result.fold(
+    (error) => Left(error),
+    (loaded) => loaded,
+  )
+}
+
+/**
+ * Load and validate attachments, failing on the first invalid one
+ */
+export const loadAttachments = async (
+  inputs: ReadonlyArray<AttachmentInput>,
+): Promise<Either<string, List<Attachment>>> => {
+  const loaded = await Promise.all(
+    inputs.map((input, index) => ("path" in input ? loadFile(input.path) : Promise.resolve(loadInline(input, index)))),
+  )
+  return loaded.reduce<Either<string, List<Attachment>>>(
+    (acc, result) => acc.flatMap((list) => result.map((attachment) => list.add(attachment))),
+    Right(List.empty<Attachment>()),
+  )
+}
+
+/**
+ * Split models into those the catalog says accept the attachments, those it says don't,
+ * and those it doesn't describe
+ */
+const checkModelSupport = async (
+  models: List<string>,
+  attachments: List<Attachment>,
+): Promise<Pick<AttachmentPlan, "models" | "skipped" | "unverified">> => {
+  const required = attachments.map((a) => requiredModality(a.mediaType)).distinct()
+  const checks = await Promise.all(
+    models.toArray().map(async (model) => {
+      const modalities = (await findCatalogModel(getCatalogIds(model))).flatMap((m) => Option(m.inputModalities))
+      const missing = modalities.map((ms) => required.filter((r) => !ms.includes(r)))
+      return { model, known: modalities.isSome(), missing: missing.orElse(List.empty()) }
+    }),
+  )
+
+  return {
+    models: List(checks.filter((c) => c.missing.isEmpty).map((c) => c.model)),
+    skipped: List(
+      checks
+        .filter((c) => !c.missing.isEmpty)
+        .map(
+          (c): ModelError => ({
+            model: c.model,
+            error: `Model does not accept ${c.missing.toArray().join(" or ")} input`,
+          }),
+        ),
+    ),
+    unverified: List(checks.filter((c) => !c.known).map((c) => c.model)),
+  }
+}
+
+/**
+ * Load a tool call's attachments and decide which models receive them
+ */
+export const prepareAttachments = async (
+  inputs: ReadonlyArray<AttachmentInput> | undefined,
+  models: List<string>,
+): Promise<Either<string, AttachmentPlan>> => {
+  if (inputs === undefined || inputs.length === 0) {
+    return Right({ attachments: List.empty(), models, skipped: List.empty(), unverified: List.empty() })
+  }
+
+  const loaded = await loadAttachments(inputs)
+  return loaded.fold(
+    (error) => Promise.resolve(Left<string, AttachmentPlan>(error)),
+    async (attachments) =>
+      Right<string, AttachmentPlan>({ attachments, ...(await checkModelSupport(models, attachments)) }),
+  )
+}
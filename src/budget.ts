@@ -0,0 +1,286 @@
+/**
+ * Spending budgets with pre-flight enforcement
+ *
+ * Before a tool fans out, it describes the model calls it is about to make.
+ * The worst-case cost of those calls is estimated from prompt length, the
+ * output cap and OpenRouter pricing, and checked against the per-call and
+ * per-session limits. A call that passes reserves its estimate against the
+ * session, so calls running side by side can't all pass against the same
+ * total, and settles the reservation against actual spend when it completes.
+ * Billed models the catalog doesn't price are refused while a limit is set,
+ * unless a fallback price is configured for them.
+ */
+
+import { Either, Left, List, Option, Right } from "functype"
+
+import { getEstimateMaxTokens, getMaxCostPerCall, getMaxSessionCost, getUnpricedModelPrice } from "./constants.js"
+import { getCatalogIds, getModelParams, isUnbilledModel, parseFallbackChain } from "./providers/index.js"
+import { calculateCost, estimateAttachmentTokens, estimateTokens, findModelPricing } from "./providers/pricing.js"
+import type { Attachment, OpenRouterModel } from "./types.js"
+
+type Pricing = OpenRouterModel["pricing"]
+
+/**
+ * A model call a tool intends to make
+ */
+export type PlannedQuery = {
+  readonly model: string
+  readonly promptTokens: number
+  readonly maxOutputTokens: number
+}
+
+/**
+ * Worst-case cost of a set of planned calls
+ */
+export type CostEstimate = {
+  readonly costUsd: number
+  readonly unpricedModels: List<string> // Models with no known pricing (estimated at the fallback price, else $0)
+}
+
+/**
+ * Structured refusal returned when a call would exceed a budget
+ */
+export type BudgetViolation = {
+  readonly error: string
+  readonly code: "BUDGET_EXCEEDED" | "BUDGET_UNPRICED"
+  readonly scope: "call" | "session"
+  readonly estimatedCostUsd: number
+  readonly limitUsd: number
+  readonly sessionSpentUsd: number
+  readonly sessionReservedUsd: number // Estimates held by calls still running
+  readonly unpricedModels: List<string>
+}
+
+/**
+ * Estimate held against a session while the call it was made for runs
+ */
+export type BudgetReservation = {
+  readonly sessionId: string
+  readonly costUsd: number
+}
+
+/**
+ * Self-hosted endpoints and mock models cost nothing per token
+ */
+const UNBILLED_PRICING: Pricing = { prompt: "0", completion: "0" }
+
+/**
+ * Session key used when the transport provides no session ID (e.g. stdio)
+ */
+const DEFAULT_SESSION = "default"
+
+/**
+ * Accumulated spend per MCP session
+ */
+const sessionSpend = new Map<string, number>()
+
+/**
+ * Reservations not yet settled, by identity
+ */
+const reservations = new Set<BudgetReservation>()
+
+/**
+ * Output cap assumed for a call: the explicit maxTokens, the model's panel setting, or the estimate default
+ */
+export const getOutputCap = (model: string, maxTokens?: number): number =>
+  Option(maxTokens)
+    .or(Option(getModelParams(model).maxTokens))
+    .orElse(getEstimateMaxTokens())
+
+/**
+ * Plan the same prompt, with any attachments, being sent to each model
+ */
+export const planQueries = (
+  models: List<string>,
+  prompt: string,
+  systemPrompt?: string,
+  maxTokens?: number,
+  attachments: List<Attachment> = List.empty(),
+): List<PlannedQuery> =>
+  models.map((model) => ({
+    model,
+    promptTokens:
+      estimateTokens(prompt) + estimateTokens(systemPrompt ?? "") + estimateAttachmentTokens(attachments.toArray()),
+    maxOutputTokens: getOutputCap(model, maxTokens),
+  }))
+
+/**
+ * Catalog pricing for each model a call may end up on: every entry of a fallback chain
+ */
+const chainPricing = (modelString: string): Promise<Array<{ model: string; pricing: Option<Pricing> }>> => {
+  const chain = parseFallbackChain(modelString)
+  return Promise.all(
+    (chain.isEmpty ? [modelString] : chain.toArray()).map(async (model) => ({
+      model,
+      pricing: isUnbilledModel(model) ? Option(UNBILLED_PRICING) : await findModelPricing(getCatalogIds(model)),
+    })),
+  )
+}
+
+/**
+ * Estimate the worst-case cost of a set of planned calls. A fallback chain is
+ * estimated at its most expensive entry, since any of them may answer.
+ */
+export const estimateCost = async (queries: List<PlannedQuery>): Promise<CostEstimate> => {
+  const fallback = getUnpricedModelPrice().map((perMTok): Pricing => {
+    const perToken = String(perMTok / 1_000_000)
+    return { prompt: perToken, completion: perToken }
+  })
+  const priced = await Promise.all(
+    queries.toArray().map(async (q) => ({
+      entries: await chainPricing(q.model),
+      usage: {
+        promptTokens: q.promptTokens,
+        completionTokens: q.maxOutputTokens,
+        reasoningTokens: 0,
+        totalTokens: q.promptTokens + q.maxOutputTokens,
+      },
+    })),
+  )
+
+  return {
+    costUsd: priced.reduce(
+      (sum, p) =>
+        sum +
+        Math.max(
+          ...p.entries.map((e) =>
+            e.pricing
+              .or(fallback)
+              .map((pr) => calculateCost(p.usage, pr))
+              .orElse(0),
+          ),
+        ),
+      0,
+    ),
+    unpricedModels: List(
+      priced.flatMap((p) => p.entries.filter((e) => e.pricing.isEmpty).map((e) => e.model)),
+    ).distinct(),
+  }
+}
+
+/**
+ * Amount spent so far in a session
+ */
+export const getSessionSpend = (sessionId?: string): number => sessionSpend.get(sessionId ?? DEFAULT_SESSION) ?? 0
+
+/**
+ * Record actual spend for a completed call
+ */
+export const recordSpend = (costUsd: number, sessionId?: string): void => {
+  const key = sessionId ?? DEFAULT_SESSION
+  sessionSpend.set(key, (sessionSpend.get(key) ?? 0) + costUsd)
+}
+
+/**
+ * Estimates reserved by a session's calls still running
+ */
+export const getSessionReserved = (sessionId?: string): number => {
+  const key = sessionId ?? DEFAULT_SESSION
+  return [...reservations].filter((r) => r.sessionId === key).reduce((sum, r) => sum + r.costUsd, 0)
+}
+
+/**
+ * Hold an estimate against a session until the call settles it
+ */
+const reserveSpend = (costUsd: number, sessionId?: string): BudgetReservation => {
+  const reservation = { sessionId: sessionId ?? DEFAULT_SESSION, costUsd }
+  reservations.add(reservation)
+  return reservation
+}
+
+/**
+ * Release a reservation and record what the call actually spent. Settling twice records nothing more.
+ */
+export const settleSpend = (reservation: BudgetReservation, costUsd: number): void => {
+  if (reservations.delete(reservation)) recordSpend(costUsd, reservation.sessionId)
+}
+
+/**
+ * Reset recorded spend and reservations (useful for testing)
+ */
+export const clearSessionSpend = (): void => {
+  sessionSpend.clear()
+  reservations.clear()
+}
+
+/**
+ * Check an estimate against the configured per-call and per-session limits, counting
+ * the session's recorded spend and the reservations of its calls still running
+ */
+export const checkBudget = (estimate: CostEstimate, sessionId?: string): Option<BudgetViolation> => {
+  const spent = getSessionSpend(sessionId)
+  const reserved = getSessionReserved(sessionId)
+  const perCallLimit = getMaxCostPerCall()
+  const sessionLimit = getMaxSessionCost()
+
+  const violation = (
+    scope: BudgetViolation["scope"],
+    limitUsd: number,
+    error: string,
+    code: BudgetViolation["code"] = "BUDGET_EXCEEDED",
+  ): BudgetViolation => ({
+    error,
+    code,
+    scope,
+    estimatedCostUsd: estimate.costUsd,
+    limitUsd,
+    sessionSpentUsd: spent,
+    sessionReservedUsd: reserved,
+    unpricedModels: estimate.unpricedModels,
+  })
+
+  // A model nobody can price could cost anything, so under a limit it needs a fallback price
+  if (!estimate.unpricedModels.isEmpty && getUnpricedModelPrice().isEmpty) {
+    const unpricedViolation = (scope: BudgetViolation["scope"], limit: number): BudgetViolation =>
+      violation(
+        scope,
+        limit,
+        `No pricing is known for ${estimate.unpricedModels.toArray().join(", ")}, so the cost can't be checked against the ${scope === "call" ? "per-call" : "session"} budget of $${limit.toFixed(4)}. Set PANEL_UNPRICED_PRICE_PER_MTOK_USD to price such models.`,
+        "BUDGET_UNPRICED",
+      )
+    const unpriced = perCallLimit
+      .map((limit) => unpricedViolation("call", limit))
+      .or(sessionLimit.map((limit) => unpricedViolation("session", limit)))
+    if (Option.isSome(unpriced)) return unpriced
+  }
+
+  const perCall = perCallLimit
+    .filter((limit) => estimate.costUsd > limit)
+    .map((limit) =>
+      violation(
+        "call",
+        limit,
+        `Estimated worst-case cost $${estimate.costUsd.toFixed(4)} exceeds the per-call budget of $${limit.toFixed(4)}`,
+      ),
+    )
+  if (Option.isSome(perCall)) return perCall
+
+  const committed = spent + reserved
+  return sessionLimit
+    .filter((limit) => committed + estimate.costUsd > limit)
+    .map((limit) =>
+      violation(
+        "session",
+        limit,
+        `Estimated worst-case cost $${estimate.costUsd.toFixed(4)} would bring session spend to $${(committed + estimate.costUsd).toFixed(4)}, over the session budget of $${limit.toFixed(4)}`,
+      ),
+    )
+}
+
+/**
+ * Estimate planned calls and check them against the budget in one step. When they pass, the
+ * estimate is reserved until the call settles it with settleSpend. Skips the pricing lookup
+ * entirely when no budget is configured.
+ */
+export const enforceBudget = async (
+  queries: List<PlannedQuery>,
+  sessionId?: string,
+): Promise<Either<BudgetViolation, BudgetReservation>> => {
+  if (getMaxCostPerCall().isEmpty && getMaxSessionCost().isEmpty) return Right(reserveSpend(0, sessionId))
+
+  const estimate = await estimateCost(queries)
+  return checkBudget(estimate, sessionId).fold(
+    () => Right(reserveSpend(estimate.costUsd, sessionId)),
+    (violation) => Left(violation),
+  )
+}
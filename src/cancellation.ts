@@ -0,0 +1,55 @@
+/**
+ * Client cancellation for tool calls
+ *
+ * When an MCP client cancels a request, the SDK aborts the signal it hands to
+ * the request handler. FastMCP 3 doesn't pass that signal on to tool
+ * contexts, so each session's tools/call handler is wrapped to run inside an
+ * AsyncLocalStorage scope holding it. Model calls made anywhere within a tool
+ * then pick up the signal of the call they belong to and stop (and stop
+ * billing) as soon as the client gives up.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks"
+
+import { Option } from "functype"
+
+type RequestExtra = { readonly signal: AbortSignal }
+
+type RequestHandler = (request: unknown, extra: RequestExtra) => Promise<unknown>
+
+/**
+ * The part of the MCP SDK's Protocol class that holds request handlers
+ */
+type HandlerRegistry = { readonly _requestHandlers?: Map<string, RequestHandler> }
+
+const requestSignals = new AsyncLocalStorage<AbortSignal>()
+
+/**
+ * Abort signal of the tool call currently executing, if it runs in a wrapped session
+ */
+export const getRequestSignal = (): Option<AbortSignal> => Option(requestSignals.getStore())
+
+/**
+ * Run a function with a request signal in scope (used by the session wrapper and in tests)
+ */
+export const withRequestSignal = <T>(signal: AbortSignal, fn: () => T): T => requestSignals.run(signal, fn)
+
+/**
+ * Wrap a connected session's tools/call handler so tool calls see the request's abort signal.
+ * Returns false when the handler can't be found, e.g. after an SDK upgrade; calls then
+ * still end at their per-model timeouts.
+ */
+export const propagateCancellation = (server: object): boolean => {
+  const handlers = (server as HandlerRegistry)._requestHandlers
+  const callTool = handlers?.get("tools/call")
+  if (handlers === undefined || callTool === undefined) return false
+
+  handlers.set("tools/call", (request, extra) => withRequestSignal(extra.signal, () => callTool(request, extra)))
+  return true
+}
+
+/**
+ * Combine signals into one that aborts when any of them does
+ */
+export const anySignal = (...signals: ReadonlyArray<AbortSignal | undefined>): AbortSignal =>
+  AbortSignal.any(signals.filter((s): s is AbortSignal => s !== undefined))
@@ -0,0 +1,315 @@
+/**
+ * Declarative configuration file
+ *
+ * A panel.config.json or panel.config.yaml, loaded with --config, describes
+ * providers, named panels, per-tool default models, timeouts and limits in one
+ * place. Environment variables always take precedence over the file, so a
+ * checked-in config can still be adjusted per deployment.
+ *
+ * Example (YAML):
+ *
+ *   providers:
+ *     openrouter:
+ *       rpm: 60
+ *     local:
+ *       endpoints:
+ *         ollama: { baseURL: "http://localhost:11434/v1" }
+ *   aliases:
+ *     smart: anthropic/claude-sonnet-4-20250514
+ *   panels:
+ *     fast: [openai/gpt-4o-mini, google/gemini-2.5-flash]
+ *     deep:
+ *       - anthropic/claude-sonnet-4-20250514
+ *       - { model: openai/o3, reasoningEffort: high, maxTokens: 8000 }
+ *   defaultPanel: fast
+ *   challengers: deep
+ *   tools:
+ *     critique: { criticModel: anthropic/claude-sonnet-4-20250514 }
+ *   timeouts: { requestMs: 90000, models: { openai/o3: 300000 } }
+ *   concurrency: { maxConcurrent: 3 }
+ */
+
+import { readFileSync } from "node:fs"
+import { extname } from "node:path"
+
+import type { Either } from "functype"
+import { Left, List, Option, Right, Try } from "functype"
+import { parse as parseYaml } from "yaml"
+import { z } from "zod"
+
+import type { GenerationParams, ProviderType } from "./types.js"
+
+/**
+ * Panel name that selects free OpenRouter models (mirrors PANEL_DEFAULT_MODELS=free)
+ */
+const FREE_PANEL = "free"
+
+const positiveInt = z.number().int().positive()
+
+/**
+ * Generation settings, shared by panel entries
+ */
+const GenerationParamsShape = {
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: positiveInt.optional(),
+  topP: z.number().min(0).max(1).optional(),
+  seed: z.number().int().optional(),
+  stopSequences: z.array(z.string().min(1)).optional(),
+  reasoningEffort: z.enum(["low", "medium", "high"]).optional(),
+}
+
+/**
+ * A panel entry: a model, or a model with its own generation settings
+ */
+const PanelMemberSchema = z.union([
+  z.string().min(1),
+  z.strictObject({ model: z.string().min(1), ...GenerationParamsShape }),
+])
+
+type PanelMember = z.infer<typeof PanelMemberSchema>
+
+const memberModel = (member: PanelMember): string => (typeof member === "string" ? member : member.model)
+
+/**
+ * Either the name of a panel or an explicit list of models
+ */
+const PanelRefSchema = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)])
+
+/**
+ * Per-provider limits, shared by every provider entry
+ */
+const providerLimits = {
+  maxConcurrent: positiveInt.optional(),
+  rpm: positiveInt.optional(),
+  tpm: positiveInt.optional(),
+}
+
+const ProviderSettingsSchema = z.strictObject({
+  apiKey: z.string().min(1).optional(),
+  probeModel: z.string().min(1).optional(),
+  ...providerLimits,
+})
+
+const LocalEndpointSchema = z.strictObject({
+  baseURL: z.url(),
+  apiKey: z.string().min(1).optional(),
+})
+
+const LocalSettingsSchema = z.strictObject({
+  baseURL: z.url().optional(),
+  apiKey: z.string().min(1).optional(),
+  endpoints: z.record(z.string().regex(/^[\w.-]+$/), LocalEndpointSchema).optional(),
+  probeModel: z.string().min(1).optional(),
+  ...providerLimits,
+})
+
+const MockSettingsSchema = z.strictObject({
+  fixtures: z.string().min(1).optional(),
+  ...providerLimits,
+})
+
+/**
+ * Schema for panel.config.json / panel.config.yaml
+ */
+export const PanelConfigSchema = z
+  .strictObject({
+    providers: z
+      .strictObject({
+        openrouter: ProviderSettingsSchema.optional(),
+        openai: ProviderSettingsSchema.optional(),
+        anthropic: ProviderSettingsSchema.optional(),
+        google: ProviderSettingsSchema.optional(),
+        mistral: ProviderSettingsSchema.optional(),
+        local: LocalSettingsSchema.optional(),
+        mock: MockSettingsSchema.optional(),
+      })
+      .optional(),
+    aliases: z.record(z.string().regex(/^[^@\s]\S*$/), z.string().min(1)).optional(),
+    panels: z.record(z.string().min(1), z.array(PanelMemberSchema).min(1)).optional(),
+    defaultPanel: PanelRefSchema.optional(),
+    challengers: PanelRefSchema.optional(),
+    tools: z
+      .strictObject({
+        council_query: z.strictObject({ models: PanelRefSchema.optional() }).optional(),
+        debate: z
+          .strictObject({
+            affirmativeModel: z.string().min(1).optional(),
+            negativeModel: z.string().min(1).optional(),
+            summarizerModel: z.string().min(1).optional(),
+          })
+          .optional(),
+        critique: z.strictObject({ criticModel: z.string().min(1).optional() }).optional(),
+        council_synthesize: z.strictObject({ chairmanModel: z.string().min(1).optional() }).optional(),
+        roundtable: z.strictObject({ moderatorModel: z.string().min(1).optional() }).optional(),
+      })
+      .optional(),
+    timeouts: z
+      .strictObject({
+        requestMs: positiveInt.optional(),
+        probeMs: positiveInt.optional(),
+        sessionIdleMs: positiveInt.optional(),
+        models: z.record(z.string().min(1), positiveInt).optional(),
+      })
+      .optional(),
+    concurrency: z.strictObject({ maxConcurrent: positiveInt.optional() }).optional(),
+    budget: z
+      .strictObject({
+        maxCostPerCallUsd: z.number().nonnegative().optional(),
+        maxSessionCostUsd: z.number().nonnegative().optional(),
+        estimateMaxTokens: positiveInt.optional(),
+        unpricedPricePerMTokUsd: z.number().nonnegative().optional(),
+      })
+      .optional(),
+    cache: z
+      .strictObject({
+        enabled: z.boolean().optional(),
+        dir: z.string().min(1).optional(),
+        ttlMs: positiveInt.optional(),
+        maxBytes: positiveInt.optional(),
+      })
+      .optional(),
+    circuitBreaker: z
+      .strictObject({
+        failureThreshold: positiveInt.optional(),
+        cooldownMs: positiveInt.optional(),
+      })
+      .optional(),
+    attachments: z
+      .strictObject({
+        dir: z.string().min(1).optional(),
+        maxBytes: positiveInt.optional(),
+      })
+      .optional(),
+    recording: z
+      .strictObject({
+        mode: z.enum(["off", "record", "replay"]).optional(),
+        dir: z.string().min(1).optional(),
+      })
+      .optional(),
+  })
+  .superRefine((config, ctx) => {
+    const panelNames = new Set([...Object.keys(config.panels ?? {}), FREE_PANEL])
+    const refs: Array<[string[], z.infer<typeof PanelRefSchema> | undefined]> = [
+      [["defaultPanel"], config.defaultPanel],
+      [["challengers"], config.challengers],
+      [["tools", "council_query", "models"], config.tools?.council_query?.models],
+    ]
+    refs.forEach(([path, ref]) => {
+      if (typeof ref === "string" && !panelNames.has(ref)) {
+        ctx.addIssue({ code: "custom", path, message: `Unknown panel "${ref}"` })
+      }
+    })
+    Object.entries(config.panels ?? {}).forEach(([name, members]) => {
+      if (members.some((m) => memberModel(m).startsWith("@"))) {
+        ctx.addIssue({ code: "custom", path: ["panels", name], message: "Panels cannot reference other panels" })
+      }
+    })
+    const settings = Object.values(config.panels ?? {})
+      .flat()
+      .filter((m) => typeof m !== "string")
+    settings.forEach((member) => {
+      const conflicting = settings.find(
+        (other) => other.model === member.model && JSON.stringify(other) !== JSON.stringify(member),
+      )
+      if (conflicting) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["panels"],
+          message: `Model "${member.model}" has different generation settings in different panels`,
+        })
+      }
+    })
+  })
+
+/**
+ * Validated configuration file contents
+ */
+export type PanelConfig = z.infer<typeof PanelConfigSchema>
+
+/**
+ * Reference to a panel: a panel name or an explicit model list
+ */
+export type PanelRef = z.infer<typeof PanelRefSchema>
+
+/**
+ * Active configuration (empty until a file is loaded)
+ */
+const state: { config: PanelConfig } = { config: {} }
+
+/**
+ * Validate raw configuration data
+ */
+export const parseConfig = (raw: unknown): Either<string, PanelConfig> => {
+  const result = PanelConfigSchema.safeParse(raw ?? {})
+  return result.success ? Right(result.data) : Left(z.prettifyError(result.error))
+}
+
+/**
+ * Read and validate a configuration file. Files ending in .json are parsed as JSON,
+ * everything else as YAML.
+ */
+export const loadConfigFile = (path: string): Either<string, PanelConfig> =>
+  Try(() => {
+    const text = readFileSync(path, "utf8")
+    return extname(path).toLowerCase() === ".json" ? (JSON.parse(text) as unknown) : (parseYaml(text) as unknown)
+  }).fold(
+    (error) => Left<string, PanelConfig>(`Failed to read config file ${path}: ${error.message}`),
+    (raw) =>
+      parseConfig(raw).fold(
+        (issues) => Left<string, PanelConfig>(`Invalid config file ${path}:\n${issues}`),
+        (config) => Right<string, PanelConfig>(config),
+      ),
+  )
+
+/**
+ * Make a configuration active for all subsequent lookups
+ */
+export const setConfig = (config: PanelConfig): void => {
+  // eslint-disable-next-line functional/immutable-data
+  state.config = config
+}
+
+/**
+ * Drop the active configuration (useful for testing)
+ */
+export const resetConfig = (): void => setConfig({})
+
+/**
+ * Get the active configuration
+ */
+export const getConfig = (): PanelConfig => state.config
+
+/**
+ * Get the file settings for a provider
+ */
+export const getProviderSettings = (
+  provider: ProviderType,
+): Option<
+  z.infer<typeof ProviderSettingsSchema> | z.infer<typeof LocalSettingsSchema> | z.infer<typeof MockSettingsSchema>
+> => Option(state.config.providers?.[provider])
+
+/**
+ * Check whether a panel reference selects the dynamic free model list
+ */
+export const isFreePanelRef = (ref: PanelRef): boolean =>
+  typeof ref === "string" && ref === FREE_PANEL && !state.config.panels?.[FREE_PANEL]
+
+/**
+ * Resolve a panel reference to its models. Returns None for unknown panel names
+ * and for the "free" panel, which callers resolve dynamically.
+ */
+export const resolvePanelRef = (ref: PanelRef): Option<List<string>> =>
+  typeof ref === "string"
+    ? Option(state.config.panels?.[ref]).map((members) => List(members.map(memberModel)))
+    : Option(List(ref))
+
+/**
+ * Generation settings attached to panel entries, keyed by model as written in the panel
+ */
+export const getPanelModelSettings = (): ReadonlyMap<string, GenerationParams> =>
+  new Map(
+    Object.values(state.config.panels ?? {})
+      .flat()
+      .filter((m) => typeof m !== "string")
+      .map(({ model, ...params }) => [model, params] as const),
+  )
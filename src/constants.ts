@@ -2,18 +2,25 @@
  * Panel MCP Server Configuration Constants
  *
  * All configuration is self-documenting with sensible defaults.
- * Override via environment variables as noted.
+ * Override via a config file (--config) or environment variables as noted;
+ * environment variables take precedence over the config file.
  */
 
+import { homedir } from "node:os"
+import { join } from "node:path"
+
 import { List, Option } from "functype"
 
+import { getConfig, getProviderSettings, isFreePanelRef, type PanelRef, resolvePanelRef } from "./config.js"
 import { FALLBACK_FREE_MODELS, getFreeModels } from "./providers/openrouter-models.js"
+import type { ProviderType } from "./types.js"
 
 /**
  * Default panel of models for council queries.
  * Balanced selection of capability, cost, and provider diversity.
  *
  * Override: PANEL_DEFAULT_MODELS (comma-separated list)
+ * Config file: defaultPanel (panel name or model list), tools.*, challengers
  * Use "free" as a special value to dynamically fetch free OpenRouter models.
  */
 export const DEFAULT_PANEL_MODELS = List.of(
@@ -26,7 +33,13 @@ export const DEFAULT_PANEL_MODELS = List.of(
  * Maximum concurrent requests per provider.
  * Prevents rate limiting while allowing parallel execution.
  *
- * Override: PANEL_MAX_CONCURRENT
+ * Override: PANEL_MAX_CONCURRENT (all providers)
+ * or PANEL_MAX_CONCURRENT_<PROVIDER> (e.g. PANEL_MAX_CONCURRENT_OPENROUTER)
+ * Config file: concurrency.maxConcurrent or providers.<provider>.maxConcurrent
+ *
+ * Requests-per-minute and tokens-per-minute limits are unset by default.
+ * Enable with PANEL_RPM_<PROVIDER> and PANEL_TPM_<PROVIDER>
+ * (config file: providers.<provider>.rpm / .tpm).
  */
 export const DEFAULT_MAX_CONCURRENT = 5
 
@@ -35,9 +48,166 @@ export const DEFAULT_MAX_CONCURRENT = 5
  * Long enough for complex queries, short enough to fail fast.
  *
  * Override: PANEL_REQUEST_TIMEOUT_MS
+ * Config file: timeouts.requestMs, with per-model overrides in timeouts.models
  */
 export const DEFAULT_REQUEST_TIMEOUT_MS = 60_000
 
+/**
+ * Timeout for health_check connectivity probes in milliseconds.
+ * Probes send a one-token request, so they should answer quickly.
+ *
+ * Override: PANEL_PROBE_TIMEOUT_MS
+ * Config file: timeouts.probeMs
+ */
+export const DEFAULT_PROBE_TIMEOUT_MS = 10_000
+
+/**
+ * How long deep health_check results are reused before probing again.
+ *
+ * Override: PANEL_HEALTH_CACHE_TTL_MS
+ */
+export const DEFAULT_HEALTH_CACHE_TTL_MS = 30_000
+
+/**
+ * How long a multi-turn session may sit idle before it is discarded.
+ *
+ * Override: PANEL_SESSION_TTL_MS
+ * Config file: timeouts.sessionIdleMs
+ */
+export const DEFAULT_SESSION_TTL_MS = 60 * 60 * 1000
+
+/**
+ * Cheap models used for deep health_check probes when none is chosen.
+ * Local endpoints are probed by listing their models instead.
+ *
+ * Config file: providers.<provider>.probeModel
+ */
+export const DEFAULT_PROBE_MODELS = {
+  openrouter: "openrouter/openai/gpt-4o-mini",
+  openai: "openai/gpt-4o-mini",
+  anthropic: "anthropic/claude-3-5-haiku-latest",
+  google: "google/gemini-2.5-flash",
+  mistral: "mistral/mistral-small-latest",
+  mock: "mock/echo",
+} as const
+
+/**
+ * Consecutive transient failures (429, 5xx, timeouts) before a provider's
+ * circuit breaker opens and stops receiving requests.
+ *
+ * Override: PANEL_BREAKER_FAILURE_THRESHOLD
+ * Config file: circuitBreaker.failureThreshold
+ */
+export const DEFAULT_BREAKER_FAILURE_THRESHOLD = 5
+
+/**
+ * How long an open circuit waits before letting a probe request through.
+ *
+ * Override: PANEL_BREAKER_COOLDOWN_MS
+ * Config file: circuitBreaker.cooldownMs
+ */
+export const DEFAULT_BREAKER_COOLDOWN_MS = 30_000
+
+/**
+ * Separator for model fallback chains, e.g.
+ * "anthropic/claude-sonnet-4 -> openrouter/anthropic/claude-sonnet-4 -> openrouter/openrouter/free"
+ */
+export const FALLBACK_SEPARATOR = "->"
+
+/**
+ * Prefix marking a panel reference in model arguments, e.g. "@deep"
+ */
+export const PANEL_PREFIX = "@"
+
+/**
+ * Worst-case completion length assumed when estimating cost before a call.
+ * Used for budget pre-flight checks when a tool has no explicit output cap.
+ *
+ * Override: PANEL_ESTIMATE_MAX_TOKENS
+ * Config file: budget.estimateMaxTokens
+ */
+export const DEFAULT_ESTIMATE_MAX_TOKENS = 4096
+
+/**
+ * Thinking budgets used for reasoningEffort on providers that take a token
+ * budget rather than an effort level (Anthropic, Google).
+ */
+export const REASONING_BUDGET_TOKENS = {
+  low: 1024,
+  medium: 4096,
+  high: 16_384,
+} as const
+
+/**
+ * Approximate characters per token for prompt length estimates.
+ */
+export const CHARS_PER_TOKEN_ESTIMATE = 4
+
+/**
+ * Tokens assumed for an image attachment. Providers downscale large images,
+ * so this covers an image of any size at the largest resolution they keep.
+ */
+export const IMAGE_TOKEN_ESTIMATE = 1600
+
+/**
+ * Approximate PDF bytes per token. Providers read each page as text and as an
+ * image, so a PDF costs tokens in proportion to its size.
+ */
+export const PDF_BYTES_PER_TOKEN = 8
+
+/**
+ * Response cache time-to-live in milliseconds.
+ *
+ * Override: PANEL_CACHE_TTL_MS
+ * Config file: cache.ttlMs
+ */
+export const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Maximum total size of the on-disk response cache in bytes.
+ * Least recently used entries are evicted first once the limit is exceeded.
+ *
+ * Override: PANEL_CACHE_MAX_BYTES
+ * Config file: cache.maxBytes
+ */
+export const DEFAULT_CACHE_MAX_BYTES = 50 * 1024 * 1024
+
+/**
+ * Default directory for the on-disk response cache.
+ *
+ * Override: PANEL_CACHE_DIR
+ * Config file: cache.dir
+ */
+export const DEFAULT_CACHE_DIR = join(homedir(), ".cache", "panel-mcp-server")
+
+/**
+ * Default directory for recorded provider traffic, relative to the working directory.
+ *
+ * Override: PANEL_RECORDING_DIR
+ * Config file: recording.dir
+ */
+export const DEFAULT_RECORDING_DIR = "panel-recordings"
+
+/**
+ * Maximum size of a single attachment in bytes.
+ *
+ * Override: PANEL_MAX_ATTACHMENT_BYTES
+ * Config file: attachments.maxBytes
+ */
+export const DEFAULT_MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024
+
+/**
+ * Attachment media types forwarded to models, by file extension
+ */
+export const ATTACHMENT_MEDIA_TYPES = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+} as const
+
 /**
  * Maximum debate rounds allowed.
  * Prevents runaway costs while allowing substantive debates.
@@ -49,6 +219,27 @@ export const MAX_DEBATE_ROUNDS = 5
  */
 export const DEFAULT_DEBATE_ROUNDS = 2
 
+/**
+ * Roundtable limits and defaults. Every participant speaks each round, so cost grows with both.
+ */
+export const DEFAULT_ROUNDTABLE_ROUNDS = 2
+export const MAX_ROUNDTABLE_ROUNDS = 4
+export const MAX_ROUNDTABLE_PARTICIPANTS = 6
+
+/**
+ * Longest running summary of a compressed debate transcript, in tokens.
+ * The summary is held to a quarter of the smallest context window left for the transcript when that is less.
+ */
+export const MAX_TRANSCRIPT_SUMMARY_TOKENS = 1000
+
+/**
+ * Extra attempts for a debate turn that fails with a transient error, and the most a caller may ask for.
+ * These come on top of the provider SDK's own retries, after a pause that grows with each attempt.
+ */
+export const DEFAULT_TURN_RETRIES = 1
+export const MAX_TURN_RETRIES = 3
+export const TURN_RETRY_DELAY_MS = 2000
+
 /**
  * Server metadata
  */
@@ -64,6 +255,8 @@ export const PROVIDER_PREFIXES = {
   anthropic: "anthropic/",
   google: "google/",
   mistral: "mistral/",
+  local: "local/",
+  mock: "mock/",
 } as const
 
 /**
@@ -75,11 +268,40 @@ export const ENV_KEYS = {
   ANTHROPIC_API_KEY: "ANTHROPIC_API_KEY",
   GOOGLE_API_KEY: "GOOGLE_GENERATIVE_AI_API_KEY",
   MISTRAL_API_KEY: "MISTRAL_API_KEY",
+  LOCAL_BASE_URL: "PANEL_LOCAL_BASE_URL",
+  LOCAL_API_KEY: "PANEL_LOCAL_API_KEY",
+  LOCAL_ENDPOINTS: "PANEL_LOCAL_ENDPOINTS",
   DEFAULT_MODELS: "PANEL_DEFAULT_MODELS",
+  ALIASES: "PANEL_ALIASES",
   MAX_CONCURRENT: "PANEL_MAX_CONCURRENT",
+  RPM: "PANEL_RPM",
+  TPM: "PANEL_TPM",
+  BREAKER_THRESHOLD: "PANEL_BREAKER_FAILURE_THRESHOLD",
+  BREAKER_COOLDOWN: "PANEL_BREAKER_COOLDOWN_MS",
   REQUEST_TIMEOUT: "PANEL_REQUEST_TIMEOUT_MS",
+  PROBE_TIMEOUT: "PANEL_PROBE_TIMEOUT_MS",
+  HEALTH_CACHE_TTL: "PANEL_HEALTH_CACHE_TTL_MS",
+  SESSION_TTL: "PANEL_SESSION_TTL_MS",
+  MAX_COST_PER_CALL: "PANEL_MAX_COST_PER_CALL_USD",
+  MAX_SESSION_COST: "PANEL_MAX_SESSION_COST_USD",
+  ESTIMATE_MAX_TOKENS: "PANEL_ESTIMATE_MAX_TOKENS",
+  UNPRICED_PRICE: "PANEL_UNPRICED_PRICE_PER_MTOK_USD",
+  CACHE_ENABLED: "PANEL_CACHE_ENABLED",
+  CACHE_DIR: "PANEL_CACHE_DIR",
+  CACHE_TTL: "PANEL_CACHE_TTL_MS",
+  CACHE_MAX_BYTES: "PANEL_CACHE_MAX_BYTES",
+  ATTACHMENT_DIR: "PANEL_ATTACHMENT_DIR",
+  MAX_ATTACHMENT_BYTES: "PANEL_MAX_ATTACHMENT_BYTES",
+  MOCK_FIXTURES: "PANEL_MOCK_FIXTURES",
+  RECORDING_MODE: "PANEL_RECORDING_MODE",
+  RECORDING_DIR: "PANEL_RECORDING_DIR",
 } as const
 
+/**
+ * Name of the unnamed endpoint configured with PANEL_LOCAL_BASE_URL
+ */
+export const DEFAULT_LOCAL_ENDPOINT = "default"
+
 /**
  * Sentinel value indicating dynamic free models should be fetched
  */
@@ -94,38 +316,58 @@ export const isUsingFreeModels = (): boolean =>
     .orElse(false)
 
 /**
- * Get configured default models from environment or use defaults.
+ * Parse PANEL_DEFAULT_MODELS, if set
+ */
+const envDefaultModels = (): Option<string> => Option(process.env[ENV_KEYS.DEFAULT_MODELS])
+
+const parseModelList = (value: string): List<string> =>
+  List(
+    value
+      .split(",")
+      .map((m) => m.trim())
+      .filter((m) => m.length > 0),
+  )
+
+/**
+ * Resolve a config file panel reference (sync: "free" resolves to the fallback free models)
+ */
+const panelModels = (ref: PanelRef): List<string> =>
+  isFreePanelRef(ref) ? FALLBACK_FREE_MODELS : resolvePanelRef(ref).orElse(DEFAULT_PANEL_MODELS)
+
+/**
+ * Resolve a config file panel reference (async: "free" fetches free models from OpenRouter)
+ */
+const panelModelsAsync = async (ref: PanelRef): Promise<List<string>> =>
+  isFreePanelRef(ref) ? getFreeModels() : panelModels(ref)
+
+/**
+ * Get configured default models from environment, the config file's defaultPanel, or defaults.
  * Special value "free" dynamically fetches free models from OpenRouter.
  *
  * Note: This is the synchronous version that returns fallback free models
  * when "free" is configured. Use getDefaultModelsAsync for dynamic fetching.
  */
 export const getDefaultModels = (): List<string> =>
-  Option(process.env[ENV_KEYS.DEFAULT_MODELS])
+  envDefaultModels()
     .map((envModels) => {
       const trimmed = envModels.trim().toLowerCase()
       // Special "free" keyword returns fallback free models synchronously
       if (trimmed === FREE_MODELS_SENTINEL) {
         return FALLBACK_FREE_MODELS
       }
-      return List(
-        envModels
-          .split(",")
-          .map((m) => m.trim())
-          .filter((m) => m.length > 0),
-      )
+      return parseModelList(envModels)
     })
-    .orElse(DEFAULT_PANEL_MODELS)
+    .orElse(Option(getConfig().defaultPanel).map(panelModels).orElse(DEFAULT_PANEL_MODELS))
 
 /**
- * Get configured default models from environment or use defaults (async version).
+ * Get configured default models from environment, the config file's defaultPanel, or defaults (async version).
  * Special value "free" dynamically fetches free models from OpenRouter API.
  */
 export const getDefaultModelsAsync = async (): Promise<List<string>> => {
   const envModels = process.env[ENV_KEYS.DEFAULT_MODELS]
 
   if (!envModels) {
-    return DEFAULT_PANEL_MODELS
+    return Option(getConfig().defaultPanel).map(panelModelsAsync).orElse(Promise.resolve(DEFAULT_PANEL_MODELS))
   }
 
   const trimmed = envModels.trim().toLowerCase()
@@ -135,14 +377,76 @@ export const getDefaultModelsAsync = async (): Promise<List<string>> => {
     return getFreeModels()
   }
 
-  return List(
-    envModels
-      .split(",")
-      .map((m) => m.trim())
-      .filter((m) => m.length > 0),
-  )
+  return parseModelList(envModels)
+}
+
+/**
+ * Resolve a per-tool default from the config file. PANEL_DEFAULT_MODELS, when set,
+ * overrides every file-level model default.
+ */
+const toolDefault = <T>(fromFile: Option<T>): Option<T> =>
+  process.env[ENV_KEYS.DEFAULT_MODELS] ? Option.none() : fromFile
+
+/**
+ * Default models for council queries: the config file's tools.council_query.models,
+ * otherwise the default panel
+ */
+export const getDefaultCouncilModelsAsync = (): Promise<List<string>> =>
+  toolDefault(Option(getConfig().tools?.council_query?.models)).fold(() => getDefaultModelsAsync(), panelModelsAsync)
+
+/**
+ * Default debaters: the config file's tools.debate models, otherwise the first two default models
+ */
+export const getDefaultDebateModelsAsync = async (): Promise<{ affirmativeModel: string; negativeModel: string }> => {
+  const defaults = await getDefaultModelsAsync()
+  const debate = toolDefault(Option(getConfig().tools?.debate))
+  return {
+    affirmativeModel: debate
+      .flatMap((d) => Option(d.affirmativeModel))
+      .orElse(defaults.get(0).orElse("openrouter/openrouter/free")),
+    negativeModel: debate
+      .flatMap((d) => Option(d.negativeModel))
+      .orElse(defaults.get(1).orElse("openrouter/openrouter/free")),
+  }
 }
 
+/**
+ * Default debate transcript summarizer: the config file's tools.debate.summarizerModel, otherwise the first default model
+ */
+export const getDefaultSummarizerModelAsync = (): Promise<string> =>
+  toolDefault(Option(getConfig().tools?.debate?.summarizerModel)).fold(
+    async () => (await getDefaultModelsAsync()).get(0).orElse("openrouter/openrouter/free"),
+    (model) => Promise.resolve(model),
+  )
+
+/**
+ * Default critic: the config file's tools.critique.criticModel, otherwise the first default model
+ */
+export const getDefaultCriticModelAsync = (): Promise<string> =>
+  toolDefault(Option(getConfig().tools?.critique?.criticModel)).fold(
+    async () => (await getDefaultModelsAsync()).get(0).orElse("openrouter/openrouter/free"),
+    (model) => Promise.resolve(model),
+  )
+
+/**
+ * Default chairman for council_synthesize: the config file's tools.council_synthesize.chairmanModel,
+ * otherwise the first default model
+ */
+export const getDefaultChairmanModelAsync = (): Promise<string> =>
+  toolDefault(Option(getConfig().tools?.council_synthesize?.chairmanModel)).fold(
+    async () => (await getDefaultModelsAsync()).get(0).orElse("openrouter/openrouter/free"),
+    (model) => Promise.resolve(model),
+  )
+
+/**
+ * Default roundtable moderator: the config file's tools.roundtable.moderatorModel, otherwise the first default model
+ */
+export const getDefaultModeratorModelAsync = (): Promise<string> =>
+  toolDefault(Option(getConfig().tools?.roundtable?.moderatorModel)).fold(
+    async () => (await getDefaultModelsAsync()).get(0).orElse("openrouter/openrouter/free"),
+    (model) => Promise.resolve(model),
+  )
+
 /**
  * Get max concurrent requests from environment or use default
  */
@@ -150,8 +454,58 @@ export const getMaxConcurrent = (): number =>
   Option(process.env[ENV_KEYS.MAX_CONCURRENT])
     .map((v) => parseInt(v, 10))
     .filter((n) => !isNaN(n) && n > 0)
+    .or(Option(getConfig().concurrency?.maxConcurrent))
     .orElse(DEFAULT_MAX_CONCURRENT)
 
+/**
+ * Environment variable name for a per-provider setting (e.g. PANEL_RPM_OPENAI)
+ */
+const providerEnvKey = (base: string, provider: ProviderType): string => `${base}_${provider.toUpperCase()}`
+
+/**
+ * Parse a positive integer environment variable
+ */
+const positiveIntEnv = (key: string): Option<number> =>
+  Option(process.env[key])
+    .map((v) => parseInt(v, 10))
+    .filter((n) => !isNaN(n) && n > 0)
+
+/**
+ * Get max concurrent requests for a provider, falling back to the global setting
+ */
+export const getProviderMaxConcurrent = (provider: ProviderType): number =>
+  positiveIntEnv(providerEnvKey(ENV_KEYS.MAX_CONCURRENT, provider))
+    .or(getProviderSettings(provider).flatMap((s) => Option(s.maxConcurrent)))
+    .orElse(getMaxConcurrent())
+
+/**
+ * Get the requests-per-minute limit for a provider, if configured
+ */
+export const getProviderRpm = (provider: ProviderType): Option<number> =>
+  positiveIntEnv(providerEnvKey(ENV_KEYS.RPM, provider)).or(getProviderSettings(provider).flatMap((s) => Option(s.rpm)))
+
+/**
+ * Get the tokens-per-minute limit for a provider, if configured
+ */
+export const getProviderTpm = (provider: ProviderType): Option<number> =>
+  positiveIntEnv(providerEnvKey(ENV_KEYS.TPM, provider)).or(getProviderSettings(provider).flatMap((s) => Option(s.tpm)))
+
+/**
+ * Get the circuit breaker failure threshold from environment or use default
+ */
+export const getBreakerFailureThreshold = (): number =>
+  positiveIntEnv(ENV_KEYS.BREAKER_THRESHOLD)
+    .or(Option(getConfig().circuitBreaker?.failureThreshold))
+    .orElse(DEFAULT_BREAKER_FAILURE_THRESHOLD)
+
+/**
+ * Get the circuit breaker cooldown from environment or use default
+ */
+export const getBreakerCooldown = (): number =>
+  positiveIntEnv(ENV_KEYS.BREAKER_COOLDOWN)
+    .or(Option(getConfig().circuitBreaker?.cooldownMs))
+    .orElse(DEFAULT_BREAKER_COOLDOWN_MS)
+
 /**
  * Get request timeout from environment or use default
  */
@@ -159,19 +513,183 @@ export const getRequestTimeout = (): number =>
   Option(process.env[ENV_KEYS.REQUEST_TIMEOUT])
     .map((v) => parseInt(v, 10))
     .filter((n) => !isNaN(n) && n > 0)
+    .or(Option(getConfig().timeouts?.requestMs))
     .orElse(DEFAULT_REQUEST_TIMEOUT_MS)
 
+/**
+ * Get the request timeout for a model: its own override from the config file, else the default
+ */
+export const getModelTimeout = (model: string): number =>
+  Option(getConfig().timeouts?.models?.[model]).orElse(getRequestTimeout())
+
+/**
+ * Get the health_check probe timeout from environment or use default
+ */
+export const getProbeTimeout = (): number =>
+  positiveIntEnv(ENV_KEYS.PROBE_TIMEOUT).or(Option(getConfig().timeouts?.probeMs)).orElse(DEFAULT_PROBE_TIMEOUT_MS)
+
+/**
+ * Get how long deep health_check results are cached from environment or use default
+ */
+export const getHealthCacheTtl = (): number =>
+  positiveIntEnv(ENV_KEYS.HEALTH_CACHE_TTL).orElse(DEFAULT_HEALTH_CACHE_TTL_MS)
+
+/**
+ * Get how long an idle session is kept from environment or use default
+ */
+export const getSessionTtl = (): number =>
+  positiveIntEnv(ENV_KEYS.SESSION_TTL).or(Option(getConfig().timeouts?.sessionIdleMs)).orElse(DEFAULT_SESSION_TTL_MS)
+
+/**
+ * Get the per-call spending limit in USD, if one is configured
+ */
+export const getMaxCostPerCall = (): Option<number> =>
+  Option(process.env[ENV_KEYS.MAX_COST_PER_CALL])
+    .map((v) => parseFloat(v))
+    .filter((n) => !isNaN(n) && n >= 0)
+    .or(Option(getConfig().budget?.maxCostPerCallUsd))
+
+/**
+ * Get the per-session spending limit in USD, if one is configured
+ */
+export const getMaxSessionCost = (): Option<number> =>
+  Option(process.env[ENV_KEYS.MAX_SESSION_COST])
+    .map((v) => parseFloat(v))
+    .filter((n) => !isNaN(n) && n >= 0)
+    .or(Option(getConfig().budget?.maxSessionCostUsd))
+
+/**
+ * Get the USD price per million tokens assumed for billed models the catalog doesn't price, if one is configured
+ */
+export const getUnpricedModelPrice = (): Option<number> =>
+  Option(process.env[ENV_KEYS.UNPRICED_PRICE])
+    .map((v) => parseFloat(v))
+    .filter((n) => !isNaN(n) && n >= 0)
+    .or(Option(getConfig().budget?.unpricedPricePerMTokUsd))
+
+/**
+ * Get the worst-case completion length used for cost estimates
+ */
+export const getEstimateMaxTokens = (): number =>
+  Option(process.env[ENV_KEYS.ESTIMATE_MAX_TOKENS])
+    .map((v) => parseInt(v, 10))
+    .filter((n) => !isNaN(n) && n > 0)
+    .or(Option(getConfig().budget?.estimateMaxTokens))
+    .orElse(DEFAULT_ESTIMATE_MAX_TOKENS)
+
+/**
+ * Check if the on-disk response cache is enabled (opt-in)
+ */
+export const isCacheEnabled = (): boolean =>
+  Option(process.env[ENV_KEYS.CACHE_ENABLED])
+    .map((v) => ["1", "true", "yes"].includes(v.trim().toLowerCase()))
+    .or(Option(getConfig().cache?.enabled))
+    .orElse(false)
+
+/**
+ * Get the response cache directory from environment or use default
+ */
+export const getCacheDir = (): string =>
+  Option(process.env[ENV_KEYS.CACHE_DIR])
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0)
+    .or(Option(getConfig().cache?.dir))
+    .orElse(DEFAULT_CACHE_DIR)
+
+/**
+ * Get the response cache TTL from environment or use default
+ */
+export const getCacheTtl = (): number =>
+  Option(process.env[ENV_KEYS.CACHE_TTL])
+    .map((v) => parseInt(v, 10))
+    .filter((n) => !isNaN(n) && n > 0)
+    .or(Option(getConfig().cache?.ttlMs))
+    .orElse(DEFAULT_CACHE_TTL_MS)
+
+/**
+ * Get the response cache size limit from environment or use default
+ */
+export const getCacheMaxBytes = (): number =>
+  Option(process.env[ENV_KEYS.CACHE_MAX_BYTES])
+    .map((v) => parseInt(v, 10))
+    .filter((n) => !isNaN(n) && n > 0)
+    .or(Option(getConfig().cache?.maxBytes))
+    .orElse(DEFAULT_CACHE_MAX_BYTES)
+
+/**
+ * Whether model traffic is recorded to fixtures, replayed from them, or neither
+ */
+export type RecordingMode = "off" | "record" | "replay"
+
+const RECORDING_MODES: ReadonlyArray<RecordingMode> = ["off", "record", "replay"]
+
+/**
+ * Get the recording mode from environment or config file (default off)
+ */
+export const getRecordingMode = (): RecordingMode =>
+  Option(process.env[ENV_KEYS.RECORDING_MODE])
+    .map((v) => v.trim().toLowerCase() as RecordingMode)
+    .filter((v) => RECORDING_MODES.includes(v))
+    .or(Option(getConfig().recording?.mode))
+    .orElse("off")
+
+/**
+ * Get the recording directory from environment or use default
+ */
+export const getRecordingDir = (): string =>
+  Option(process.env[ENV_KEYS.RECORDING_DIR])
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0)
+    .or(Option(getConfig().recording?.dir))
+    .orElse(DEFAULT_RECORDING_DIR)
+
+/**
+ * Get the mock provider's fixture file, if one is configured
+ */
+export const getMockFixturesPath = (): Option<string> =>
+  Option(process.env[ENV_KEYS.MOCK_FIXTURES])
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0)
+    .or(Option(getConfig().providers?.mock?.fixtures))
+
+/**
+ * Get the directory attachments may be read from, if file attachments are enabled.
+ * There is no default: without one only inline (base64) attachments are accepted.
+ */
+export const getAttachmentDir = (): Option<string> =>
+  Option(process.env[ENV_KEYS.ATTACHMENT_DIR])
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0)
+    .or(Option(getConfig().attachments?.dir))
+
+/**
+ * Get the maximum attachment size from environment or use default
+ */
+export const getMaxAttachmentBytes = (): number =>
+  positiveIntEnv(ENV_KEYS.MAX_ATTACHMENT_BYTES)
+    .or(Option(getConfig().attachments?.maxBytes))
+    .orElse(DEFAULT_MAX_ATTACHMENT_BYTES)
+
 /**
  * Default challenger models for the challenge tool (sync version).
- * Uses the same models as council queries (respects PANEL_DEFAULT_MODELS).
+ * Uses the config file's challengers panel if set, otherwise the default models
+ * (respects PANEL_DEFAULT_MODELS).
  */
-export const getDefaultChallengerModels = (): List<string> => getDefaultModels()
+export const getDefaultChallengerModels = (): List<string> =>
+  toolDefault(Option(getConfig().challengers)).map(panelModels).orElse(getDefaultModels())
 
 /**
  * Default challenger models for the challenge tool (async version).
- * Uses the same models as council queries (respects PANEL_DEFAULT_MODELS).
+ * Uses the config file's challengers panel if set, otherwise the default models
+ * (respects PANEL_DEFAULT_MODELS).
+ */
+export const getDefaultChallengerModelsAsync = (): Promise<List<string>> =>
+  toolDefault(Option(getConfig().challengers)).fold(() => getDefaultModelsAsync(), panelModelsAsync)
+
+/**
+ * All available debate formats
  */
-export const getDefaultChallengerModelsAsync = (): Promise<List<string>> => getDefaultModelsAsync()
+export const ALL_DEBATE_FORMATS = ["classic", "oxford", "lincoln-douglas", "steelman"] as const
 
 /**
  * All available challenge types for stress-testing
@@ -0,0 +1,209 @@
+/**
+ * Debate formats
+ *
+ * A format is a sequence of phases, one per round. Both sides speak once in
+ * every round, in the order the phase sets, with instructions for what the
+ * phase is for: an opening builds a case, a cross-examination has one side
+ * question the other, a rebuttal answers the opponent, a closing sums up
+ * without new arguments. Giving each round a purpose keeps the debate moving
+ * instead of restating the same points. The classic format keeps the
+ * original open-ended rounds, as many as the caller asks for.
+ */
+
+import { List, Match } from "functype"
+
+import type { DebateFormat, DebatePhase, DebateSide } from "./types.js"
+
+/**
+ * One round of a format: its phase, who speaks first, and what each side is asked to do
+ */
+export type PhaseSpec = {
+  readonly phase: DebatePhase
+  readonly firstSpeaker: DebateSide
+  readonly instructions: Readonly<Record<DebateSide, string>>
+}
+
+/**
+ * What a debater sees when it is their turn
+ */
+export type SpeechContext = {
+  readonly topic: string
+  readonly format: DebateFormat
+  readonly spec: PhaseSpec
+  readonly side: DebateSide
+  readonly round: number
+  readonly totalRounds: number
+  readonly transcript: string // Every earlier turn, including the opponent's in this round
+  readonly thoughtContext: string // The caller's proposed thought, shown in round 1
+}
+
+const FORMAT_NAMES: Record<DebateFormat, string> = {
+  classic: "formal",
+  oxford: "formal Oxford-style",
+  "lincoln-douglas": "formal Lincoln-Douglas",
+  steelman: "formal steelman",
+}
+
+const PHASE_TITLES: Record<DebatePhase, string> = {
+  argument: "Argument",
+  opening: "Opening speech",
+  constructive: "Constructive case",
+  "cross-examination": "Cross-examination",
+  rebuttal: "Rebuttal",
+  steelman: "Steelman rebuttal",
+  closing: "Closing statement",
+}
+
+const sideName = (side: DebateSide): string => (side === "affirmative" ? "Affirmative" : "Negative")
+
+const bothSides = (instruction: string): Readonly<Record<DebateSide, string>> => ({
+  affirmative: instruction,
+  negative: instruction,
+})
+
+const OPENING: PhaseSpec = {
+  phase: "opening",
+  firstSpeaker: "affirmative",
+  instructions: {
+    affirmative:
+      "Give your opening speech. Set out your case for the proposition with your two or three strongest arguments, each supported by reasoning or evidence. Your opponent has not spoken yet.",
+    negative:
+      "Give your opening speech. Set out your case against the proposition with your two or three strongest arguments, each supported by reasoning or evidence. Build your own case first; full rebuttals come next round.",
+  },
+}
+
+const REBUTTAL: PhaseSpec = {
+  phase: "rebuttal",
+  firstSpeaker: "affirmative",
+  instructions: bothSides(
+    "Give your rebuttal. Do not repeat your opening. Take your opponent's strongest arguments one at a time and show where each fails, then explain why your own case still stands.",
+  ),
+}
+
+const CLOSING: PhaseSpec = {
+  phase: "closing",
+  firstSpeaker: "affirmative",
+  instructions: bothSides(
+    "Give your closing statement. Introduce no new arguments. Name the two or three clashes that decided this debate and explain why your side won each of them.",
+  ),
+}
+
+const CONSTRUCTIVE: PhaseSpec = {
+  phase: "constructive",
+  firstSpeaker: "affirmative",
+  instructions: {
+    affirmative:
+      "Present your constructive case. State the value the proposition should be judged by and the criterion for measuring it, then argue that affirming the proposition best upholds that value.",
+    negative:
+      "Present your constructive case. State the value the proposition should be judged by and the criterion for measuring it, then argue that rejecting the proposition best upholds it. You may contest the affirmative's value or criterion.",
+  },
+}
+
+const CROSS_EXAMINE =
+  "This is cross-examination: you ask, and your opponent must answer. Ask three to five pointed, numbered questions that expose weaknesses, unstated assumptions or contradictions in your opponent's case. Ask only questions; do not make a speech."
+
+const ANSWER =
+  "This is cross-examination: your opponent has just questioned you. Answer every question directly, in order. Do not evade or answer a different question. Concede a point if you must, and briefly explain why the concession does not sink your case."
+
+const crossExamination = (examiner: DebateSide): PhaseSpec => ({
+  phase: "cross-examination",
+  firstSpeaker: examiner,
+  instructions:
+    examiner === "affirmative"
+      ? { affirmative: CROSS_EXAMINE, negative: ANSWER }
+      : { affirmative: ANSWER, negative: CROSS_EXAMINE },
+})
+
+const FINAL_REBUTTAL: PhaseSpec = {
+  phase: "rebuttal",
+  firstSpeaker: "affirmative",
+  instructions: bothSides(
+    "Give your final rebuttal. Use what your opponent admitted under cross-examination, answer their attacks on your case, and explain why your value and criterion should decide the debate. Introduce no new arguments.",
+  ),
+}
+
+const STEELMAN: PhaseSpec = {
+  phase: "steelman",
+  firstSpeaker: "affirmative",
+  instructions: bothSides(
+    "Before anything else, restate your opponent's case in its strongest form, as its best advocate would put it, and stronger than they put it if you can. Label this part 'Steelman'. Only then respond, engaging that strongest version rather than a weaker one.",
+  ),
+}
+
+const CLASSIC: PhaseSpec = {
+  phase: "argument",
+  firstSpeaker: "affirmative",
+  instructions: bothSides(""),
+}
+
+/**
+ * The rounds of a debate in the given format. Only the classic format takes a number of rounds.
+ */
+export const debatePhases = (format: DebateFormat, rounds: number): List<PhaseSpec> =>
+  Match(format)
+    .case("classic", () => List(Array.from({ length: rounds }, () => CLASSIC)))
+    .case("oxford", () => List.of(OPENING, REBUTTAL, CLOSING))
+    .case("lincoln-douglas", () =>
+      List.of(CONSTRUCTIVE, crossExamination("negative"), crossExamination("affirmative"), FINAL_REBUTTAL),
+    )
+    .case("steelman", () => List.of(OPENING, STEELMAN, CLOSING))
+    .exhaustive()
+
+/**
+ * The sides of a round in speaking order
+ */
+export const speakingOrder = (spec: Pick<PhaseSpec, "firstSpeaker">): readonly [DebateSide, DebateSide] =>
+  spec.firstSpeaker === "affirmative" ? ["affirmative", "negative"] : ["negative", "affirmative"]
+
+/**
+ * Title of one side's speech in a round; in cross-examination the first speaker asks and the other answers
+ */
+export const speechTitle = (phase: DebatePhase, firstSpeaker: DebateSide, side: DebateSide): string =>
+  phase === "cross-examination"
+    ? `${PHASE_TITLES[phase]} ${side === firstSpeaker ? "questions" : "answers"}`
+    : PHASE_TITLES[phase]
+
+/**
+ * A turn as it appears in the transcript the debaters read
+ */
+export const transcriptEntry = (
+  round: number,
+  spec: PhaseSpec,
+  side: DebateSide,
+  model: string,
+  text: string,
+): string =>
+  spec.phase === "argument"
+    ? `Round ${round} - ${sideName(side)} (${model}):\n${text}`
+    : `Round ${round}, ${speechTitle(spec.phase, spec.firstSpeaker, side)} - ${sideName(side)} (${model}):\n${text}`
+
+/**
+ * The classic prompts: the affirmative continues the debate, the negative answers it
+ */
+const classicPrompt = (context: SpeechContext): string => {
+  const { topic, round, totalRounds, transcript } = context
+
+  if (context.side === "affirmative") {
+    const roundContext =
+      round === 1
+        ? context.thoughtContext
+        : `\n\nPrevious arguments in this debate:\n${transcript}\n\nContinue the debate, responding to the opponent's latest points.`
+    return `You are participating in a formal debate. You are arguing FOR the following proposition:\n\n"${topic}"\n\nThis is round ${round} of ${totalRounds}.${roundContext}\n\nPresent your arguments clearly and persuasively. ${round > 1 ? "Address your opponent's points and strengthen your position." : "Make your opening argument."}`
+  }
+
+  return `You are participating in a formal debate. You are arguing AGAINST the following proposition:\n\n"${topic}"\n\nThis is round ${round} of ${totalRounds}.\n\nPrevious arguments in this debate:\n${transcript}\n\nPresent your counter-arguments clearly and persuasively. Respond to your opponent's points and make your case against the proposition.`
+}
+
+/**
+ * Prompt for one side's turn, following the instructions of the round's phase
+ */
+export const speechPrompt = (context: SpeechContext): string => {
+  if (context.format === "classic") return classicPrompt(context)
+
+  const { topic, spec, side, round, totalRounds, transcript } = context
+  const stance = side === "affirmative" ? "FOR" : "AGAINST"
+  const thought = round === 1 ? context.thoughtContext : ""
+  const debateSoFar = transcript ? `\n\nThe debate so far:\n${transcript}` : ""
+
+  return `You are participating in a ${FORMAT_NAMES[context.format]} debate. You are arguing ${stance} the following proposition:\n\n"${topic}"\n\nThis is round ${round} of ${totalRounds}: ${speechTitle(spec.phase, spec.firstSpeaker, side).toLowerCase()}.${thought}${debateSoFar}\n\n${spec.instructions[side]}`
+}
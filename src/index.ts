@@ -4,43 +4,125 @@
  *
  * Provides LLM council workflow tools for multi-model queries, debates, and reviews.
  * The calling LLM uses these tools to orchestrate multi-model workflows and can
- * synthesize/compile the results itself.
+ * synthesize/compile the results itself, or leave synthesis to a chairman model.
  */
 
+import type { JSONSchema7 } from "ai"
 import { program } from "commander"
-import { FastMCP } from "fastmcp"
-import { List, Option, Try } from "functype"
+import { type Context, FastMCP, type FastMCPSessionAuth } from "fastmcp"
+import { type Either, Left, List, Option, Right } from "functype"
 import { z } from "zod"
 
+import { compareAnswers } from "./agreement.js"
+import { type AttachmentInput, prepareAttachments } from "./attachments.js"
+import {
+  type BudgetReservation,
+  type BudgetViolation,
+  enforceBudget,
+  getOutputCap,
+  type PlannedQuery,
+  planQueries,
+  settleSpend,
+} from "./budget.js"
+import { propagateCancellation } from "./cancellation.js"
+import { loadConfigFile, setConfig } from "./config.js"
 import {
   ALL_CHALLENGE_TYPES,
+  ALL_DEBATE_FORMATS,
   DEFAULT_DEBATE_ROUNDS,
+  DEFAULT_ROUNDTABLE_ROUNDS,
+  DEFAULT_TURN_RETRIES,
+  getDefaultChairmanModelAsync,
   getDefaultChallengerModelsAsync,
+  getDefaultCouncilModelsAsync,
+  getDefaultCriticModelAsync,
+  getDefaultDebateModelsAsync,
   getDefaultModelsAsync,
+  getDefaultModeratorModelAsync,
+  getDefaultSummarizerModelAsync,
   MAX_DEBATE_ROUNDS,
+  MAX_ROUNDTABLE_PARTICIPANTS,
+  MAX_ROUNDTABLE_ROUNDS,
+  MAX_TRANSCRIPT_SUMMARY_TOKENS,
+  MAX_TURN_RETRIES,
   SERVER_NAME,
   SERVER_VERSION,
 } from "./constants.js"
+import { debatePhases, type PhaseSpec, speakingOrder, speechPrompt, transcriptEntry } from "./debate-formats.js"
+import { combineScorecards, type JudgeReply, judgePrompt, scorecardSchema, toScorecard } from "./judging.js"
+import { bordaCount, PeerReviewSchema, type ReviewerReply, reviewPrompt, toPeerReview } from "./peer-review.js"
+import { createProgressReporter, type ProgressReporter } from "./progress.js"
+import { mergeParams } from "./providers/generation.js"
+import { checkHealth } from "./providers/health.js"
 import {
+  estimateTokens,
+  expandModels,
+  getAliases,
   getConfiguredProviders,
+  getLocalEndpoints,
   isProviderConfigured,
+  listPanels,
   queryModel,
   queryModels,
+  resolveAlias,
+  resolvePanel,
   searchModels,
+  summarizeUsage,
 } from "./providers/index.js"
+import { runRoundtable } from "./roundtable.js"
+import { createSession, endSession, getSession, type PanelSession, planSessionTurn, recordTurn } from "./sessions.js"
+import {
+  ChallengeListSchema,
+  CritiqueSchema,
+  fromJsonSchema,
+  planStructured,
+  queryStructured,
+  queryStructuredModels,
+  type StructuredResult,
+} from "./structured.js"
+import { SynthesisSchema, synthesisPrompt, toSynthesis } from "./synthesis.js"
 import {
+  addEntry,
+  type CompressionSettings,
+  compressionStats,
+  contextWindow,
+  emptyTranscript,
+  type Transcript,
+  transcriptForTurn,
+} from "./transcript.js"
+import { planTurn, takeTurn, type TurnFailure, type TurnOptions, type TurnResult } from "./turns.js"
+import {
+  type AttachmentReport,
   type Challenge,
   type ChallengeResult,
   type ChallengeType,
+  type CouncilAnswer,
   type CouncilQueryResult,
   type Critique,
   type CritiqueResult,
+  type DeadlineReport,
+  type DebateFailure,
+  type DebateJudging,
   type DebateResult,
   type DebateRound,
+  type DebaterSubstitution,
+  type DebateSide,
+  type GenerationParams,
   type HealthCheckResult,
   isModelError,
+  type JudgeScorecard,
   type ModelError,
-  type ProviderHealth,
+  type ModelResponse,
+  type ParseFailure,
+  type PeerReview,
+  type PeerReviewResult,
+  type RoundtableParticipant,
+  type RoundtableResult,
+  type SessionMessageResult,
+  type StructuredCouncilResult,
+  type Synthesis,
+  type SynthesisResult,
+  type UsageSummary,
 } from "./types.js"
 
 // Create the MCP server
@@ -49,10 +131,93 @@ const server = new FastMCP({
   version: SERVER_VERSION,
 })
 
+// Let tool calls see when the client cancels them
+server.on("connect", ({ session }) => {
+  propagateCancellation(session.server)
+})
+
+// ============================================================================
+// Shared parameter schemas
+// ============================================================================
+
+const bypassCacheParam = z
+  .boolean()
+  .optional()
+  .describe(
+    "Skip the response cache for this call and always query the models fresh (only relevant when caching is enabled)",
+  )
+
+const attachmentsParam = z
+  .array(
+    z.union([
+      z.strictObject({
+        data: z.string().describe("Base64-encoded content, or a data: URL"),
+        mediaType: z
+          .string()
+          .optional()
+          .describe(
+            "e.g. 'image/png' or 'application/pdf'. Required unless data is a data: URL or filename has a known extension",
+          ),
+        filename: z.string().optional(),
+      }),
+      z.strictObject({
+        path: z.string().describe("Path to a file inside the server's attachment directory (PANEL_ATTACHMENT_DIR)"),
+      }),
+    ]),
+  )
+  .optional()
+  .describe("Images (PNG, JPEG, GIF, WebP) or PDFs to send with the prompt. Models known to be text-only are skipped.")
+
+/**
+ * Generation settings accepted by every query tool. Per-model settings from the config
+ * file's panels apply underneath these.
+ */
+const generationParams = {
+  temperature: z.number().min(0).max(2).optional().describe("Sampling temperature (0-2). Use 0 for repeatable output"),
+  maxTokens: z.number().int().positive().optional().describe("Maximum output tokens per model call"),
+  topP: z.number().min(0).max(1).optional().describe("Nucleus sampling probability mass (0-1)"),
+  seed: z.number().int().optional().describe("Random seed, for providers that support deterministic sampling"),
+  stopSequences: z.array(z.string()).optional().describe("Stop generating when any of these strings is produced"),
+  reasoningEffort: z
+    .enum(["low", "medium", "high"])
+    .optional()
+    .describe("Thinking effort for reasoning models (ignored by models without reasoning)"),
+}
+
+const toGenerationParams = (args: GenerationParams): GenerationParams => ({
+  temperature: args.temperature,
+  maxTokens: args.maxTokens,
+  topP: args.topP,
+  seed: args.seed,
+  stopSequences: args.stopSequences,
+  reasoningEffort: args.reasoningEffort,
+})
+
 // ============================================================================
 // Serialization helpers for List -> JSON
 // ============================================================================
 
+const serializeBudgetViolation = (violation: BudgetViolation): string =>
+  JSON.stringify({ ...violation, unpricedModels: violation.unpricedModels.toArray() }, null, 2)
+
+const serializeResolutionError = (error: string): string => JSON.stringify({ error }, null, 2)
+
+const serializeUsage = (usage: UsageSummary): object => ({
+  ...usage,
+  unpricedModels: usage.unpricedModels.toArray(),
+})
+
+const serializeAttachmentReport = (report: AttachmentReport): object => ({
+  count: report.count,
+  skippedModels: report.skippedModels.toArray(),
+  unverifiedModels: report.unverifiedModels.toArray(),
+})
+
+const serializeDeadlineReport = (report: DeadlineReport): object => ({
+  ...report,
+  timedOutModels: report.timedOutModels.toArray(),
+})
+
 /**
  * Convert a result with List fields to plain JSON-serializable object
  */
@@ -62,24 +227,148 @@ const serializeCouncilResult = (result: CouncilQueryResult): object => ({
   metadata: {
     ...result.metadata,
     failedModels: result.metadata.failedModels.toArray(),
+    usage: serializeUsage(result.metadata.usage),
+    ...(result.metadata.attachments && { attachments: serializeAttachmentReport(result.metadata.attachments) }),
+    ...(result.metadata.deadline && { deadline: serializeDeadlineReport(result.metadata.deadline) }),
   },
 })
 
+const serializeDebateJudging = (judging: DebateJudging): object => ({
+  ...judging,
+  scorecards: judging.scorecards.toArray().map((card) => ({ ...card, rounds: card.rounds.toArray() })),
+  rounds: judging.rounds.toArray(),
+  parseFailures: judging.parseFailures.toArray(),
+  errors: judging.errors.toArray(),
+})
+
 const serializeDebateResult = (result: DebateResult): object => ({
   ...result,
   rounds: result.rounds.toArray(),
+  ...(result.judging && { judging: serializeDebateJudging(result.judging) }),
+  metadata: {
+    ...result.metadata,
+    usage: serializeUsage(result.metadata.usage),
+    compression: { ...result.metadata.compression, errors: result.metadata.compression.errors.toArray() },
+  },
+})
+
+const serializeRoundtableResult = (result: RoundtableResult): object => ({
+  ...result,
+  participants: result.participants.toArray(),
+  turns: result.turns.toArray(),
+  moderatorNotes: result.moderatorNotes
+    .toArray()
+    .map((note) => ({ ...note, followUpQuestions: note.followUpQuestions.toArray() })),
+  substitutions: result.substitutions.toArray(),
+  departures: result.departures.toArray(),
+  errors: result.errors.toArray(),
+  metadata: {
+    ...result.metadata,
+    usage: serializeUsage(result.metadata.usage),
+  },
 })
 
 const serializeCritiqueResult = (result: CritiqueResult): object => ({
+  ...(result.parseFailure && { parseFailure: result.parseFailure }),
   critique: {
     strengths: result.critique.strengths.toArray(),
     weaknesses: result.critique.weaknesses.toArray(),
     suggestions: result.critique.suggestions.toArray(),
     overallAssessment: result.critique.overallAssessment,
   },
-  metadata: result.metadata,
+  metadata: {
+    ...result.metadata,
+    usage: serializeUsage(result.metadata.usage),
+  },
+})
+
+const serializeSynthesisResult = (result: SynthesisResult): object => ({
+  ...(result.parseFailure && { parseFailure: result.parseFailure }),
+  synthesis: {
+    answer: result.synthesis.answer,
+    consensus: result.synthesis.consensus.toArray(),
+    disputed: result.synthesis.disputed.toArray().map((d) => ({
+      point: d.point,
+      positions: d.positions.toArray().map((p) => ({ position: p.position, models: p.models.toArray() })),
+    })),
+    uniqueInsights: result.synthesis.uniqueInsights.toArray(),
+  },
+  ...(result.responses && { responses: result.responses.toArray() }),
+  errors: result.errors.toArray(),
+  metadata: {
+    ...result.metadata,
+    failedModels: result.metadata.failedModels.toArray(),
+    usage: serializeUsage(result.metadata.usage),
+    ...(result.metadata.attachments && { attachments: serializeAttachmentReport(result.metadata.attachments) }),
+    ...(result.metadata.deadline && { deadline: serializeDeadlineReport(result.metadata.deadline) }),
+  },
+})
+
+const serializePeerReviewResult = (result: PeerReviewResult): object => ({
+  responses: result.responses.toArray(),
+  ranking: result.ranking.toArray(),
+  reviews: result.reviews.toArray().map((review) => ({
+    reviewer: review.reviewer,
+    ranking: review.ranking.toArray(),
+    critiques: review.critiques.toArray().map((critique) => ({
+      ...critique,
+      strengths: critique.strengths.toArray(),
+      weaknesses: critique.weaknesses.toArray(),
+    })),
+  })),
+  parseFailures: result.parseFailures.toArray(),
+  errors: result.errors.toArray(),
+  metadata: {
+    ...result.metadata,
+    failedModels: result.metadata.failedModels.toArray(),
+    usage: serializeUsage(result.metadata.usage),
+    ...(result.metadata.attachments && { attachments: serializeAttachmentReport(result.metadata.attachments) }),
+    ...(result.metadata.deadline && { deadline: serializeDeadlineReport(result.metadata.deadline) }),
+  },
 })
 
+const serializeStructuredCouncilResult = (result: StructuredCouncilResult): object => ({
+  answers: result.answers.toArray(),
+  fields: result.fields.toArray().map((field) => ({
+    ...field,
+    choices: field.choices.toArray().map((choice) => ({ ...choice, models: choice.models.toArray() })),
+    missing: field.missing.toArray(),
+  })),
+  parseFailures: result.parseFailures.toArray(),
+  errors: result.errors.toArray(),
+  metadata: {
+    ...result.metadata,
+    failedModels: result.metadata.failedModels.toArray(),
+    usage: serializeUsage(result.metadata.usage),
+  },
+})
+
+const serializeSessionMessageResult = (result: SessionMessageResult): object => ({
+  sessionId: result.sessionId,
+  turn: result.turn,
+  responses: result.responses.toArray(),
+  errors: result.errors.toArray(),
+  metadata: {
+    ...result.metadata,
+    failedModels: result.metadata.failedModels.toArray(),
+    usage: serializeUsage(result.metadata.usage),
+    sessionUsage: serializeUsage(result.metadata.sessionUsage),
+  },
+})
+
+const serializeSessionSummary = (session: PanelSession): object => ({
+  sessionId: session.id,
+  models: session.models.toArray(),
+  ...(session.systemPrompt !== undefined && { systemPrompt: session.systemPrompt }),
+  turns: session.turns,
+  usage: serializeUsage(session.usage),
+  createdAt: new Date(session.createdAt).toISOString(),
+  lastActiveAt: new Date(session.lastActiveAt).toISOString(),
+})
+
+const sessionNotFound = (sessionId: string): string =>
+  JSON.stringify({ error: `Unknown or expired session: ${sessionId}` }, null, 2)
+
 const serializeHealthResult = (result: HealthCheckResult): object => ({
   ...result,
   providers: result.providers.toArray(),
@@ -90,10 +379,13 @@ const serializeChallengeResult = (result: ChallengeResult): object => ({
   context: result.context,
   challenges: result.challenges.toArray(),
   errors: result.errors.toArray(),
+  parseFailures: result.parseFailures.toArray(),
   summary: result.summary,
   metadata: {
     ...result.metadata,
     challengerModels: result.metadata.challengerModels.toArray(),
+    repairedModels: result.metadata.repairedModels.toArray(),
+    usage: serializeUsage(result.metadata.usage),
   },
 })
 
@@ -104,35 +396,20 @@ const serializeChallengeResult = (result: ChallengeResult): object => ({
 server.addTool({
   name: "health_check",
   description:
-    "Check the health status of configured providers. Returns status for each provider and overall system health.",
-  parameters: z.object({}),
-  execute: (): Promise<string> => {
-    const providers = getConfiguredProviders()
-
-    const healthResults: List<ProviderHealth> = providers.map(
-      (provider): ProviderHealth =>
-        isProviderConfigured(provider)
-          ? { provider, status: "healthy", latencyMs: 0 }
-          : { provider, status: "unconfigured" },
-    )
-
-    const healthyCount = healthResults.filter((h) => h.status === "healthy").size
-    const totalConfigured = healthResults.filter((h) => h.status !== "unconfigured").size
-
-    const status =
-      healthyCount === totalConfigured && totalConfigured > 0
-        ? ("healthy" as const)
-        : healthyCount > 0
-          ? ("degraded" as const)
-          : ("unhealthy" as const)
-
-    const result: HealthCheckResult = {
-      status,
-      providers: healthResults,
-      timestamp: new Date().toISOString(),
-    }
-
-    return Promise.resolve(JSON.stringify(serializeHealthResult(result), null, 2))
+    "Check the health status of providers. By default only reports which providers have credentials; set deep=true to send a minimal request to each configured provider and report real latency, auth failures, quota errors and rate limiting.",
+  parameters: z.object({
+    deep: z.boolean().optional().describe("Send a one-token probe to each configured provider. Default: false"),
+    probeModels: z
+      .record(z.enum(["openrouter", "openai", "anthropic", "google", "mistral", "local"]), z.string())
+      .optional()
+      .describe(
+        "Model to probe per provider (e.g. { anthropic: 'claude-3-5-haiku-latest' }). Defaults to a cheap model.",
+      ),
+    refresh: z.boolean().optional().describe("Ignore cached probe results from the last few seconds"),
+  }),
+  execute: async (args): Promise<string> => {
+    const result = await checkHealth({ deep: args.deep, probeModels: args.probeModels, refresh: args.refresh })
+    return JSON.stringify(serializeHealthResult(result), null, 2)
   },
 })
 
@@ -142,10 +419,22 @@ server.addTool({
     "Get the default models used when model parameters are omitted. CALL THIS FIRST to confirm what models will be used. All tools use these defaults when you don't specify models.",
   parameters: z.object({}),
   execute: async (): Promise<string> => {
-    const models = await getDefaultModelsAsync()
+    const [models, councilModels, debaters, criticModel, challengers] = await Promise.all([
+      getDefaultModelsAsync(),
+      getDefaultCouncilModelsAsync(),
+      getDefaultDebateModelsAsync(),
+      getDefaultCriticModelAsync(),
+      getDefaultChallengerModelsAsync(),
+    ])
     return JSON.stringify(
       {
         defaultModels: models.toArray(),
+        toolDefaults: {
+          council_query: councilModels.toArray(),
+          debate: debaters,
+          critique: criticModel,
+          challenge: challengers.toArray(),
+        },
         note: "These models are used by default when no models are specified in council_query, debate, challenge, or critique tools.",
       },
       null,
@@ -154,6 +443,34 @@ server.addTool({
   },
 })
 
+server.addTool({
+  name: "list_panels",
+  description:
+    "List model aliases and named panels with what each currently expands to. Pass '@<panel>' in any models list, or an alias wherever a model is expected.",
+  parameters: z.object({}),
+  execute: async (): Promise<string> => {
+    const panels = await listPanels()
+    return JSON.stringify(
+      {
+        panels: panels
+          .map((p) => ({ name: `@${p.name}`, models: p.models.toArray(), ...(p.error ? { error: p.error } : {}) }))
+          .toArray(),
+        aliases: Object.fromEntries(
+          [...getAliases().keys()].map((alias) => [
+            alias,
+            resolveAlias(alias).fold<string | { error: string }>(
+              (error) => ({ error }),
+              (model) => model,
+            ),
+          ]),
+        ),
+      },
+      null,
+      2,
+    )
+  },
+})
+
 server.addTool({
   name: "list_providers",
   description:
@@ -168,9 +485,15 @@ server.addTool({
         anthropic: { configured: isProviderConfigured("anthropic") },
         google: { configured: isProviderConfigured("google") },
         mistral: { configured: isProviderConfigured("mistral") },
+        local: {
+          configured: isProviderConfigured("local"),
+          endpoints: getLocalEndpoints()
+            .map((e) => ({ name: e.name, baseURL: e.baseURL }))
+            .toArray(),
+        },
       },
       configuredCount: providers.size,
-      note: "Use search_models to find specific models on OpenRouter",
+      note: "Use search_models to find specific models on OpenRouter. Use local/<model> for the default local endpoint or local/<endpoint>/<model> for a named one.",
     }
     return Promise.resolve(JSON.stringify(result, null, 2))
   },
@@ -236,27 +559,156 @@ server.addTool({
     model: z
       .string()
       .describe(
-        "Model identifier (e.g., 'openai/gpt-4o', 'anthropic/claude-sonnet-4-20250514', 'openrouter/meta-llama/llama-3.3-70b-instruct')",
+        "Model identifier or alias (e.g., 'openai/gpt-4o', 'anthropic/claude-sonnet-4-20250514', 'openrouter/meta-llama/llama-3.3-70b-instruct'). See list_panels for aliases.",
       ),
     systemPrompt: z.string().optional().describe("Optional system prompt for context"),
+    attachments: attachmentsParam,
+    bypassCache: bypassCacheParam,
+    ...generationParams,
   }),
-  execute: async (args): Promise<string> => {
-    const result = await queryModel(args.model, args.prompt, args.systemPrompt)
+  execute: async (args, context): Promise<string> => {
+    const resolved = resolveAlias(args.model)
+    if (resolved.isLeft()) return serializeResolutionError(resolved.value)
+    const model = resolved.orThrow()
+
+    const prepared = await prepareAttachments(args.attachments, List.of(model))
+    if (prepared.isLeft()) return serializeResolutionError(prepared.value)
+    const { attachments, skipped } = prepared.orThrow()
+    if (skipped.head) return JSON.stringify(skipped.head, null, 2)
+
+    const reserved = await enforceBudget(
+      planQueries(List.of(model), args.prompt, args.systemPrompt, args.maxTokens, attachments),
+      context.sessionId,
+    )
+    if (reserved.isLeft()) return serializeBudgetViolation(reserved.value)
+
+    const result = await queryModel(model, args.prompt, args.systemPrompt, {
+      bypassCache: args.bypassCache,
+      params: toGenerationParams(args),
+      attachments: attachments.toArray(),
+    })
+    settleSpend(reserved.orThrow(), isModelError(result) ? 0 : (result.costUsd ?? 0))
     return JSON.stringify(result, null, 2)
   },
 })
 
+/**
+ * Arguments shared by the tools that fan a prompt out to the council
+ */
+type CouncilArgs = GenerationParams & {
+  readonly prompt: string
+  readonly models?: ReadonlyArray<string>
+  readonly systemPrompt?: string
+  readonly proposedThought?: string
+  readonly compareMode?: boolean
+  readonly deadlineMs?: number
+  readonly attachments?: ReadonlyArray<AttachmentInput>
+  readonly bypassCache?: boolean
+}
+
+/**
+ * What came back from the council, before any tool-specific processing
+ */
+type CouncilFanOut = {
+  readonly models: List<string>
+  readonly prompt: string // The prompt as sent, including any proposed thought
+  readonly responses: List<ModelResponse>
+  readonly errors: List<ModelError> // Including models skipped for lack of attachment support
+  readonly timedOut: List<string>
+  readonly attachments?: AttachmentReport
+  readonly deadline?: DeadlineReport
+  readonly progress: ProgressReporter
+  readonly reservation: BudgetReservation // Settle with the tool's actual spend
+}
+
+/**
+ * Extra work a tool does after the fan-out, so the budget check and progress total cover it
+ */
+type FollowUp = {
+  readonly plan: (models: List<string>, prompt: string) => List<PlannedQuery>
+  readonly steps: (models: List<string>) => number
+}
+
+/**
+ * Resolve the council, check the budget and query every model in parallel.
+ * Left is the JSON reply to return when the call can't go ahead.
+ */
+const runCouncil = async (
+  args: CouncilArgs,
+  context: Context<FastMCPSessionAuth>,
+  followUp: FollowUp = { plan: () => List.empty(), steps: () => 0 },
+): Promise<Either<string, CouncilFanOut>> => {
+  const expanded = args.models
+    ? await expandModels(List(args.models))
+    : resolvePanel(await getDefaultCouncilModelsAsync())
+  if (expanded.isLeft()) return Left(serializeResolutionError(expanded.value))
+  const prepared = await prepareAttachments(args.attachments, expanded.orThrow())
+  if (prepared.isLeft()) return Left(serializeResolutionError(prepared.value))
+  const { attachments, models, skipped, unverified } = prepared.orThrow()
+  const progress = createProgressReporter(context, models.size + followUp.steps(models))
+
+  // Build context from proposed thought if provided
+  const thoughtContext = Option(args.proposedThought)
+    .map((thought) => {
+      const instruction = args.compareMode
+        ? "Compare your analysis with this thought - note agreements and disagreements."
+        : "Consider this context, but provide your own independent analysis."
+      return `\n\nContext: A proposed thought on this question:\n"${thought}"\n\n${instruction}`
+    })
+    .orElse("")
+
+  const enhancedPrompt = `${args.prompt}${thoughtContext}`
+
+  const reserved = await enforceBudget(
+    planQueries(models, enhancedPrompt, args.systemPrompt, args.maxTokens, attachments).concat(
+      followUp.plan(models, enhancedPrompt),
+    ),
+    context.sessionId,
+  )
+  if (reserved.isLeft()) return Left(serializeBudgetViolation(reserved.value))
+
+  const { responses, errors, timedOut } = await queryModels(models, enhancedPrompt, args.systemPrompt, {
+    bypassCache: args.bypassCache,
+    params: toGenerationParams(args),
+    attachments: attachments.toArray(),
+    deadlineMs: args.deadlineMs,
+    onResult: progress.modelCompleted,
+  })
+
+  return Right({
+    models,
+    prompt: enhancedPrompt,
+    responses,
+    errors: skipped.concat(errors),
+    timedOut,
+    ...(!attachments.isEmpty && {
+      attachments: {
+        count: attachments.size,
+        skippedModels: skipped.map((e) => e.model),
+        unverifiedModels: unverified,
+      },
+    }),
+    ...Option(args.deadlineMs).fold(
+      () => ({}),
+      (deadlineMs) => ({ deadline: { deadlineMs, reached: !timedOut.isEmpty, timedOutModels: timedOut } }),
+    ),
+    progress,
+    reservation: reserved.orThrow(),
+  })
+}
+
 server.addTool({
   name: "council_query",
   description:
     "Query multiple LLM models in parallel. Returns all responses for the calling LLM to synthesize, compare, or find consensus. Use when you want diverse perspectives on a question.",
+  annotations: { streamingHint: true },
   parameters: z.object({
     prompt: z.string().describe("The prompt to send to all models"),
     models: z
       .array(z.string())
       .optional()
       .describe(
-        "Model identifiers. OMIT THIS to use server defaults (recommended). Only specify if you need specific models.",
+        "Model identifiers, aliases, or panels like '@deep'. OMIT THIS to use server defaults (recommended). Only specify if you need specific models.",
       ),
     systemPrompt: z.string().optional().describe("Optional shared system prompt for all models"),
     proposedThought: z
@@ -267,39 +719,497 @@ server.addTool({
       .boolean()
       .optional()
       .describe("When true, models explicitly compare their answer to the proposed thought."),
+    deadlineMs: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Overall time limit in milliseconds. Models that haven't answered by then are abandoned."),
+    partial: z
+      .boolean()
+      .optional()
+      .describe(
+        "When the deadline is reached, return the responses received so far instead of failing the call. Default: false",
+      ),
+    attachments: attachmentsParam,
+    bypassCache: bypassCacheParam,
+    ...generationParams,
+  }),
+  execute: async (args, context): Promise<string> => {
+    const startTime = Date.now()
+    const fanOut = await runCouncil(args, context)
+    if (fanOut.isLeft()) return fanOut.value
+    const { models, responses, errors, timedOut, attachments, deadline, reservation } = fanOut.orThrow()
+
+    if (!timedOut.isEmpty && !args.partial) {
+      settleSpend(reservation, summarizeUsage(responses).costUsd)
+      return JSON.stringify(
+        {
+          error: `Deadline of ${args.deadlineMs}ms reached before ${timedOut.size} of ${models.size} models responded`,
+          timedOutModels: timedOut.toArray(),
+          hint: "Pass partial: true to receive the responses that did arrive",
+        },
+        null,
+        2,
+      )
+    }
+
+    const result: CouncilQueryResult = {
+      responses,
+      errors,
+      metadata: {
+        totalLatencyMs: Date.now() - startTime,
+        successCount: responses.size,
+        failedModels: errors.map((e) => e.model),
+        usage: summarizeUsage(responses),
+        ...(attachments && { attachments }),
+        ...(deadline && { deadline }),
+      },
+    }
+
+    settleSpend(reservation, result.metadata.usage.costUsd)
+    return JSON.stringify(serializeCouncilResult(result), null, 2)
+  },
+})
+
+server.addTool({
+  name: "council_synthesize",
+  description:
+    "Query multiple LLM models in parallel, then have a chairman model merge their responses. Returns one synthesized answer with the points of consensus, the disputed points (and which models hold each side) and insights only one model raised, instead of every full response. Use when you want the council's view without spending your context on all of its responses.",
+  annotations: { streamingHint: true },
+  parameters: z.object({
+    prompt: z.string().describe("The prompt to send to all models"),
+    models: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Model identifiers, aliases, or panels like '@deep'. OMIT THIS to use server defaults (recommended). Only specify if you need specific models.",
+      ),
+    chairmanModel: z
+      .string()
+      .optional()
+      .describe(
+        "Model that synthesizes the responses. OMIT THIS to use server defaults (recommended). Only specify if you need a specific model.",
+      ),
+    systemPrompt: z.string().optional().describe("Optional shared system prompt for the council models"),
+    includeResponses: z.boolean().optional().describe("Also return every council response in full. Default: false"),
+    deadlineMs: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        "Time limit in milliseconds for the council. Models that haven't answered by then are abandoned and the rest are synthesized.",
+      ),
+    attachments: attachmentsParam.describe(
+      "Images or PDFs to send with the prompt to the council (not the chairman). Models known to be text-only are skipped.",
+    ),
+    bypassCache: bypassCacheParam,
+    ...generationParams,
+  }),
+  execute: async (args, context): Promise<string> => {
+    const resolvedChairman = resolveAlias(args.chairmanModel ?? (await getDefaultChairmanModelAsync()))
+    if (resolvedChairman.isLeft()) return serializeResolutionError(resolvedChairman.value)
+    const chairmanModel = resolvedChairman.orThrow()
+    const startTime = Date.now()
+
+    // The chairman reads every response, each at most its output cap
+    const fanOut = await runCouncil(args, context, {
+      plan: (models, prompt) =>
+        planStructured(
+          List.of({
+            model: chairmanModel,
+            promptTokens:
+              estimateTokens(prompt) + models.foldLeft(0)((sum, model) => sum + getOutputCap(model, args.maxTokens)),
+            maxOutputTokens: getOutputCap(chairmanModel, args.maxTokens),
+          }),
+        ),
+      steps: () => 1,
+    })
+    if (fanOut.isLeft()) return fanOut.value
+    const { responses, errors, attachments, deadline, progress, reservation } = fanOut.orThrow()
+
+    if (responses.isEmpty) {
+      settleSpend(reservation, 0)
+      return JSON.stringify(
+        { error: "No council model responded, so there is nothing to synthesize", errors: errors.toArray() },
+        null,
+        2,
+      )
+    }
+
+    const outcome = await queryStructured(
+      chairmanModel,
+      synthesisPrompt(args.prompt, responses),
+      SynthesisSchema,
+      undefined,
+      {
+        bypassCache: args.bypassCache,
+        params: toGenerationParams(args),
+      },
+    )
+    await progress.step(`Chairman ${chairmanModel} ${outcome.isLeft() ? "failed" : "synthesized the responses"}`)
+
+    // Keep the council's responses when the chairman fails; they have been paid for
+    if (outcome.isLeft()) {
+      settleSpend(reservation, summarizeUsage(responses).costUsd)
+      return JSON.stringify(
+        {
+          error: `Synthesis failed: ${outcome.value.error}`,
+          chairmanModel,
+          responses: responses.toArray(),
+          errors: errors.toArray(),
+        },
+        null,
+        2,
+      )
+    }
+    const chairman = outcome.orThrow()
+
+    const result: SynthesisResult = {
+      synthesis: chairman.value.fold(
+        (): Synthesis => ({
+          answer: "",
+          consensus: List.empty(),
+          disputed: List.empty(),
+          uniqueInsights: List.empty(),
+        }),
+        (reply) => toSynthesis(reply, responses),
+      ),
+      ...chairman.value.fold(
+        (parseFailure) => ({ parseFailure }),
+        () => ({}),
+      ),
+      ...(args.includeResponses && { responses }),
+      errors,
+      metadata: {
+        chairmanModel,
+        totalLatencyMs: Date.now() - startTime,
+        successCount: responses.size,
+        failedModels: errors.map((e) => e.model),
+        repaired: chairman.repaired,
+        usage: summarizeUsage(responses.concat(chairman.attempts)),
+        ...(attachments && { attachments }),
+        ...(deadline && { deadline }),
+      },
+    }
+
+    settleSpend(reservation, result.metadata.usage.costUsd)
+    return JSON.stringify(serializeSynthesisResult(result), null, 2)
+  },
+})
+
+server.addTool({
+  name: "council_review",
+  description:
+    "Query multiple LLM models in parallel, then have each model critique and rank the others' answers anonymously. Returns the answers, every review, and an aggregate ranking (Borda count). Use when you want a quality signal on the answers that doesn't rest on your own judgement.",
+  annotations: { streamingHint: true },
+  parameters: z.object({
+    prompt: z.string().describe("The prompt to send to all models"),
+    models: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Model identifiers, aliases, or panels like '@deep'. OMIT THIS to use server defaults (recommended). Only specify if you need specific models.",
+      ),
+    systemPrompt: z.string().optional().describe("Optional shared system prompt for the answers"),
+    deadlineMs: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        "Time limit in milliseconds for the answers. Models that haven't answered by then are abandoned and the rest are reviewed.",
+      ),
+    attachments: attachmentsParam,
+    bypassCache: bypassCacheParam,
+    ...generationParams,
+  }),
+  execute: async (args, context): Promise<string> => {
+    const startTime = Date.now()
+
+    // Each reviewer reads every other answer, each at most its output cap
+    const fanOut = await runCouncil(args, context, {
+      plan: (models, prompt) => {
+        const answerTokens = models.foldLeft(0)((sum, model) => sum + getOutputCap(model, args.maxTokens))
+        return planStructured(
+          models.map((model) => ({
+            model,
+            promptTokens: estimateTokens(prompt) + answerTokens,
+            maxOutputTokens: getOutputCap(model, args.maxTokens),
+          })),
+        )
+      },
+      steps: (models) => models.size,
+    })
+    if (fanOut.isLeft()) return fanOut.value
+    const { responses, errors, attachments, deadline, progress, reservation } = fanOut.orThrow()
+
+    if (responses.size < 2) {
+      settleSpend(reservation, summarizeUsage(responses).costUsd)
+      return JSON.stringify(
+        {
+          error: `Peer review needs at least two answers, but ${responses.size} model(s) responded`,
+          responses: responses.toArray(),
+          errors: errors.toArray(),
+        },
+        null,
+        2,
+      )
+    }
+
+    const outcomes = List(
+      await Promise.all(
+        responses.toArray().map(async ({ model }) => {
+          const outcome = await queryStructured(
+            model,
+            reviewPrompt(args.prompt, responses, model),
+            PeerReviewSchema,
+            undefined,
+            { bypassCache: args.bypassCache, params: toGenerationParams(args) },
+          )
+          await progress.step(
+            outcome.fold(
+              (error) => `${model} failed to review: ${error.error}`,
+              () => `${model} reviewed the other answers`,
+            ),
+          )
+          return { model, outcome }
+        }),
+      ),
+    )
+
+    const reviewed = outcomes.flatMap(({ model, outcome }) =>
+      outcome.fold(
+        () => List.empty<{ model: string; result: StructuredResult<ReviewerReply> }>(),
+        (result) => List.of({ model, result }),
+      ),
+    )
+    const reviews = reviewed.flatMap(({ model, result }) =>
+      result.value.fold(
+        () => List.empty<PeerReview>(),
+        (reply) => List.of(toPeerReview(model, reply, responses)),
+      ),
+    )
+    const parseFailures = reviewed.flatMap(({ result }) =>
+      result.value.fold(
+        (failure) => List.of(failure),
+        () => List.empty<ParseFailure>(),
+      ),
+    )
+    const reviewErrors = outcomes.flatMap(({ outcome }) =>
+      outcome.fold(
+        (error) => List.of<ModelError>({ ...error, error: `Review failed: ${error.error}` }),
+        () => List.empty<ModelError>(),
+      ),
+    )
+    const allErrors = errors.concat(reviewErrors)
+
+    const result: PeerReviewResult = {
+      responses,
+      ranking: bordaCount(
+        responses.map((r) => r.model),
+        reviews,
+      ),
+      reviews,
+      parseFailures,
+      errors: allErrors,
+      metadata: {
+        totalLatencyMs: Date.now() - startTime,
+        successCount: responses.size,
+        reviewCount: reviews.size,
+        failedModels: errors.map((e) => e.model),
+        usage: summarizeUsage(responses.concat(reviewed.flatMap(({ result }) => result.attempts))),
+        ...(attachments && { attachments }),
+        ...(deadline && { deadline }),
+      },
+    }
+
+    settleSpend(reservation, result.metadata.usage.costUsd)
+    return JSON.stringify(serializePeerReviewResult(result), null, 2)
+  },
+})
+
+server.addTool({
+  name: "council_structured",
+  description:
+    "Ask every council model for an answer matching a JSON Schema, then compare the answers field by field. Returns each model's validated object plus per-field agreement (unanimous values, competing choices, numeric spread). Use for classifications and extracted fields you want to compare programmatically.",
+  annotations: { streamingHint: true },
+  parameters: z.object({
+    prompt: z.string().describe("The question or extraction task"),
+    schema: z
+      .record(z.string(), z.unknown())
+      .describe('JSON Schema for the answer. Must describe an object ("type": "object").'),
+    models: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Model identifiers, aliases, or panels like '@deep'. OMIT THIS to use server defaults (recommended). Only specify if you need specific models.",
+      ),
+    systemPrompt: z.string().optional().describe("Optional shared system prompt for all models"),
+    bypassCache: bypassCacheParam,
+    ...generationParams,
+  }),
+  execute: async (args, context): Promise<string> => {
+    const validator = fromJsonSchema(args.schema)
+    if (validator.isLeft()) return serializeResolutionError(validator.value)
+
+    const expanded = args.models
+      ? await expandModels(List(args.models))
+      : resolvePanel(await getDefaultCouncilModelsAsync())
+    if (expanded.isLeft()) return serializeResolutionError(expanded.value)
+    const models = expanded.orThrow()
+    const progress = createProgressReporter(context, models.size)
+    const startTime = Date.now()
+
+    const structuredPrompt = `${args.prompt}
+
+Respond ONLY with a JSON object matching this JSON Schema, no additional text:
+${JSON.stringify(args.schema, null, 2)}`
+
+    const reserved = await enforceBudget(
+      planStructured(planQueries(models, structuredPrompt, args.systemPrompt, args.maxTokens)),
+      context.sessionId,
+    )
+    if (reserved.isLeft()) return serializeBudgetViolation(reserved.value)
+
+    const { answers, errors } = await queryStructuredModels(
+      models,
+      structuredPrompt,
+      validator.orThrow(),
+      args.systemPrompt,
+      {
+        bypassCache: args.bypassCache,
+        params: toGenerationParams(args),
+        responseSchema: args.schema as JSONSchema7,
+        onResult: progress.modelCompleted,
+      },
+    )
+
+    const valid = answers.flatMap(({ model, value, repaired }) =>
+      value.fold(
+        () => List.empty<CouncilAnswer>(),
+        (v) => List.of<CouncilAnswer>({ model, value: v, repaired }),
+      ),
+    )
+    const parseFailures = answers.flatMap(({ value }) =>
+      value.fold(
+        (failure) => List.of(failure),
+        () => List.empty<ParseFailure>(),
+      ),
+    )
+
+    const result: StructuredCouncilResult = {
+      answers: valid,
+      fields: compareAnswers(valid),
+      parseFailures,
+      errors,
+      metadata: {
+        totalLatencyMs: Date.now() - startTime,
+        successCount: valid.size,
+        failedModels: errors.map((e) => e.model).concat(parseFailures.map((f) => f.model)),
+        usage: summarizeUsage(answers.flatMap((a) => a.attempts)),
+      },
+    }
+
+    settleSpend(reserved.orThrow(), result.metadata.usage.costUsd)
+    return JSON.stringify(serializeStructuredCouncilResult(result), null, 2)
+  },
+})
+
+// ============================================================================
+// Session Tools
+// ============================================================================
+
+server.addTool({
+  name: "start_session",
+  description:
+    "Open a multi-turn session with a council of models. Each model keeps its own conversation history, so follow-ups sent with session_message build on its earlier answers. Close it with end_session.",
+  parameters: z.object({
+    models: z
+      .array(z.string())
+      .optional()
+      .describe("Model identifiers, aliases, or panels like '@deep'. OMIT THIS to use the council defaults."),
+    systemPrompt: z.string().optional().describe("Optional system prompt used for every turn"),
+    ...generationParams,
   }),
   execute: async (args): Promise<string> => {
-    const models = args.models ? List(args.models) : await getDefaultModelsAsync()
+    const expanded = args.models
+      ? await expandModels(List(args.models))
+      : resolvePanel(await getDefaultCouncilModelsAsync())
+    if (expanded.isLeft()) return serializeResolutionError(expanded.value)
+
+    const session = createSession(expanded.orThrow(), args.systemPrompt, toGenerationParams(args))
+    return JSON.stringify(serializeSessionSummary(session), null, 2)
+  },
+})
+
+server.addTool({
+  name: "session_message",
+  description:
+    "Send the next prompt in a session. Every session model answers with its own prior turns as context. Models that fail a turn keep their history unchanged.",
+  annotations: { streamingHint: true },
+  parameters: z.object({
+    sessionId: z.string().describe("Session ID returned by start_session"),
+    prompt: z.string().describe("The next message to send to every session model"),
+    bypassCache: bypassCacheParam,
+    ...generationParams,
+  }),
+  execute: async (args, context): Promise<string> => {
+    const found = getSession(args.sessionId)
+    if (found.isEmpty) return sessionNotFound(args.sessionId)
+    const session = found.orThrow()
+    const progress = createProgressReporter(context, session.models.size)
     const startTime = Date.now()
 
-    // Build context from proposed thought if provided
-    const thoughtContext = Option(args.proposedThought)
-      .map((thought) => {
-        const instruction = args.compareMode
-          ? "Compare your analysis with this thought - note agreements and disagreements."
-          : "Consider this context, but provide your own independent analysis."
-        return `\n\nContext: A proposed thought on this question:\n"${thought}"\n\n${instruction}`
-      })
-      .orElse("")
+    const reserved = await enforceBudget(planSessionTurn(session, args.prompt, args.maxTokens), context.sessionId)
+    if (reserved.isLeft()) return serializeBudgetViolation(reserved.value)
 
-    const enhancedPrompt = `${args.prompt}${thoughtContext}`
+    const { responses, errors } = await queryModels(session.models, args.prompt, session.systemPrompt, {
+      bypassCache: args.bypassCache,
+      params: mergeParams(session.params, toGenerationParams(args)),
+      histories: session.histories,
+      onResult: progress.modelCompleted,
+    })
 
-    const { responses, errors } = await queryModels(models, enhancedPrompt, args.systemPrompt)
+    const usage = summarizeUsage(responses)
+    settleSpend(reserved.orThrow(), usage.costUsd)
 
-    const result: CouncilQueryResult = {
+    // The session may have expired while the models were answering; report the turn regardless
+    const updated = recordTurn(session.id, args.prompt, responses).orElse(session)
+    const result: SessionMessageResult = {
+      sessionId: session.id,
+      turn: updated.turns,
       responses,
       errors,
       metadata: {
         totalLatencyMs: Date.now() - startTime,
         successCount: responses.size,
         failedModels: errors.map((e) => e.model),
+        usage,
+        sessionUsage: updated.usage,
       },
     }
 
-    return JSON.stringify(serializeCouncilResult(result), null, 2)
+    return JSON.stringify(serializeSessionMessageResult(result), null, 2)
   },
 })
 
+server.addTool({
+  name: "end_session",
+  description: "Close a session and discard its history. Returns the number of turns and total usage.",
+  parameters: z.object({
+    sessionId: z.string().describe("Session ID returned by start_session"),
+  }),
+  execute: (args): Promise<string> =>
+    Promise.resolve(
+      endSession(args.sessionId).fold(
+        () => sessionNotFound(args.sessionId),
+        (session) => JSON.stringify(serializeSessionSummary(session), null, 2),
+      ),
+    ),
+})
+
 // ============================================================================
 // Debate Tool
 // ============================================================================
@@ -308,6 +1218,7 @@ server.addTool({
   name: "debate",
   description:
     "Run a structured adversarial debate between two models on a topic. Returns the full transcript for the calling LLM to analyze, judge, or synthesize key arguments.",
+  annotations: { streamingHint: true },
   parameters: z.object({
     topic: z.string().describe("The debate topic or proposition"),
     affirmativeModel: z
@@ -322,23 +1233,88 @@ server.addTool({
       .describe(
         "Model arguing AGAINST. OMIT THIS to use server defaults (recommended). Only specify if you need a specific model.",
       ),
+    format: z
+      .enum(ALL_DEBATE_FORMATS)
+      .optional()
+      .describe(
+        "Debate format. 'classic': open-ended rounds. 'oxford': opening, rebuttal, closing. 'lincoln-douglas': constructive cases, cross-examination of each side, rebuttals. 'steelman': openings, rebuttals that first restate the opponent's best case, closings. Default: classic",
+      ),
     rounds: z
       .number()
       .min(1)
       .max(MAX_DEBATE_ROUNDS)
       .optional()
-      .describe(`Number of debate rounds (1-${MAX_DEBATE_ROUNDS}). Default: ${DEFAULT_DEBATE_ROUNDS}`),
+      .describe(
+        `Number of debate rounds (1-${MAX_DEBATE_ROUNDS}) in the classic format; the other formats have fixed rounds. Default: ${DEFAULT_DEBATE_ROUNDS}`,
+      ),
     proposedThought: z.string().optional().describe("A proposed thought on the topic to share with debaters."),
     leaningSide: z
       .enum(["affirmative", "negative", "neutral"])
       .optional()
       .describe("Which side the proposed thought leans toward. Default: neutral"),
+    judges: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Judge models, aliases, or panels like '@deep'. Each scores every round and gives a verdict. Omit for an unjudged transcript.",
+      ),
+    turnRetries: z
+      .number()
+      .int()
+      .min(0)
+      .max(MAX_TURN_RETRIES)
+      .optional()
+      .describe(
+        `Extra attempts for a turn that fails with a transient error (0-${MAX_TURN_RETRIES}). Default: ${DEFAULT_TURN_RETRIES}`,
+      ),
+    fallbackDebater: z
+      .string()
+      .optional()
+      .describe(
+        "Model that takes over a side whose debater keeps failing, for the rest of the debate. Without one, the debate stops at the failure and returns the rounds completed so far.",
+      ),
+    keepTurns: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe(
+        "Send debaters only the last N turns verbatim, with earlier turns folded into a running summary. Omit to send the whole transcript, which is still summarized when it would overflow a debater's context window.",
+      ),
+    summarizerModel: z
+      .string()
+      .optional()
+      .describe("Model that writes the running summary. OMIT THIS to use the server default (recommended)."),
+    bypassCache: bypassCacheParam,
+    ...generationParams,
   }),
-  execute: async (args): Promise<string> => {
-    const defaultModels = await getDefaultModelsAsync()
-    const affirmativeModel = args.affirmativeModel ?? defaultModels.get(0).orElse("openrouter/openrouter/free")
-    const negativeModel = args.negativeModel ?? defaultModels.get(1).orElse("openrouter/openrouter/free")
-    const numRounds = Option(args.rounds).orElse(DEFAULT_DEBATE_ROUNDS)
+  execute: async (args, context): Promise<string> => {
+    const defaultDebaters = await getDefaultDebateModelsAsync()
+    const debaters = resolveAlias(args.affirmativeModel ?? defaultDebaters.affirmativeModel).flatMap((affirmative) =>
+      resolveAlias(args.negativeModel ?? defaultDebaters.negativeModel).map((negative) => ({ affirmative, negative })),
+    )
+    if (debaters.isLeft()) return serializeResolutionError(debaters.value)
+    const { affirmative: affirmativeModel, negative: negativeModel } = debaters.orThrow()
+    const resolvedFallback = Option(args.fallbackDebater).fold(
+      () => Right<string, Option<string>>(Option.none()),
+      (model) => resolveAlias(model).map((resolved) => Option(resolved)),
+    )
+    if (resolvedFallback.isLeft()) return serializeResolutionError(resolvedFallback.value)
+    const fallbackDebater = resolvedFallback.orThrow()
+    const resolvedSummarizer = resolveAlias(args.summarizerModel ?? (await getDefaultSummarizerModelAsync()))
+    if (resolvedSummarizer.isLeft()) return serializeResolutionError(resolvedSummarizer.value)
+    const summarizerModel = resolvedSummarizer.orThrow()
+    const keepTurns = Option(args.keepTurns)
+    const expandedJudges = await expandModels(List(args.judges ?? []))
+    if (expandedJudges.isLeft()) return serializeResolutionError(expandedJudges.value)
+    const judges = expandedJudges.orThrow()
+    const format = Option(args.format).orElse("classic")
+    if (format !== "classic" && args.rounds !== undefined) {
+      return JSON.stringify({ error: `The ${format} format has a fixed number of rounds; omit rounds` }, null, 2)
+    }
+    const phases = debatePhases(format, Option(args.rounds).orElse(DEFAULT_DEBATE_ROUNDS))
+    const numRounds = phases.size
+    const progress = createProgressReporter(context, numRounds + judges.size)
     const startTime = Date.now()
 
     // Build context from proposed thought if provided
@@ -353,75 +1329,441 @@ server.addTool({
       })
       .orElse("")
 
+    // Worst case: every turn re-sends the full transcript so far at the output cap
+    const baseTokens = estimateTokens(args.topic) + estimateTokens(thoughtContext)
+    // A failing debater may hand the seat to the fallback, so each seat is planned at the dearer of the two
+    const seats: Readonly<Record<DebateSide, Pick<PlannedQuery, "model" | "maxOutputTokens">>> = {
+      affirmative: planTurn(affirmativeModel, fallbackDebater, args.maxTokens),
+      negative: planTurn(negativeModel, fallbackDebater, args.maxTokens),
+    }
+    const maxTokens = Math.max(seats.affirmative.maxOutputTokens, seats.negative.maxOutputTokens)
+    const speakers = phases.toArray().flatMap((spec) => [...speakingOrder(spec)])
+    // With keepTurns, a turn sends at most that many earlier turns plus the summary, and past that
+    // point the summarizer folds in the turn that dropped out of the window before every turn
+    const sentTurns = (turn: number): number =>
+      keepTurns.fold(
+        () => turn,
+        (keep) => Math.min(turn, keep),
+      )
+    const summarized = (turn: number): boolean => turn > sentTurns(turn)
+    const plannedTurns = List(
+      speakers.map(
+        (side, turn): PlannedQuery => ({
+          ...seats[side],
+          promptTokens:
+            baseTokens + sentTurns(turn) * maxTokens + (summarized(turn) ? MAX_TRANSCRIPT_SUMMARY_TOKENS : 0),
+        }),
+      ),
+    )
+    const plannedSummaries = List(
+      speakers
+        .filter((_, turn) => summarized(turn))
+        .map(
+          (): PlannedQuery => ({
+            model: summarizerModel,
+            promptTokens: estimateTokens(args.topic) + MAX_TRANSCRIPT_SUMMARY_TOKENS + maxTokens,
+            maxOutputTokens: MAX_TRANSCRIPT_SUMMARY_TOKENS,
+          }),
+        ),
+    )
+    // Judges read the whole transcript
+    const plannedJudging = planStructured(
+      judges.map((model) => ({
+        model,
+        promptTokens: baseTokens + numRounds * 2 * maxTokens,
+        maxOutputTokens: getOutputCap(model, args.maxTokens),
+      })),
+    )
+    const reserved = await enforceBudget(
+      plannedTurns.concat(plannedSummaries).concat(plannedJudging),
+      context.sessionId,
+    )
+    if (reserved.isLeft()) return serializeBudgetViolation(reserved.value)
+
+    const turnOptions: TurnOptions = {
+      bypassCache: args.bypassCache,
+      params: toGenerationParams(args),
+      retries: Option(args.turnRetries).orElse(DEFAULT_TURN_RETRIES),
+      fallback: fallbackDebater,
+    }
+    const compression: CompressionSettings = {
+      topic: args.topic,
+      summarizerModel,
+      keepTurns,
+      options: { bypassCache: args.bypassCache, params: toGenerationParams(args) },
+    }
+
     type DebateState = {
       readonly rounds: List<DebateRound>
-      readonly previousArguments: string
+      readonly transcript: Transcript
+      readonly responses: List<ModelResponse>
+      readonly debaters: Readonly<Record<DebateSide, string>> // Current debaters, after any substitution
+      readonly substitutions: List<DebaterSubstitution>
+      readonly failure?: DebateFailure
     }
 
-    const initialState: DebateState = { rounds: List.empty(), previousArguments: "" }
-
-    const executeRound = async (state: DebateState, round: number): Promise<DebateState> => {
-      const roundContext =
-        round === 1
-          ? thoughtContext
-          : `\n\nPrevious arguments in this debate:\n${state.previousArguments}\n\nContinue the debate, responding to the opponent's latest points.`
+    const initialState: DebateState = {
+      rounds: List.empty(),
+      transcript: emptyTranscript,
+      responses: List.empty(),
+      debaters: { affirmative: affirmativeModel, negative: negativeModel },
+      substitutions: List.empty(),
+    }
 
-      // Affirmative argues first
-      const affirmativePrompt = `You are participating in a formal debate. You are arguing FOR the following proposition:\n\n"${args.topic}"\n\nThis is round ${round} of ${numRounds}.${roundContext}\n\nPresent your arguments clearly and persuasively. ${round > 1 ? "Address your opponent's points and strengthen your position." : "Make your opening argument."}`
+    const toFailure = (
+      round: number,
+      side: DebateSide,
+      failure: TurnFailure,
+      pendingArgument?: DebateFailure["pendingArgument"],
+    ): DebateFailure => ({
+      round,
+      side,
+      model: failure.model,
+      error: failure.error.error,
+      attempts: failure.attempts,
+      ...(pendingArgument && { pendingArgument }),
+    })
 
-      const affirmativeResult = await queryModel(affirmativeModel, affirmativePrompt)
+    const afterTurn = (state: DebateState, round: number, side: DebateSide, turn: TurnResult): DebateState => ({
+      ...state,
+      responses: state.responses.add(turn.response),
+      debaters: { ...state.debaters, [side]: turn.model },
+      substitutions: Option(turn.replaced).fold(
+        () => state.substitutions,
+        (replaced) =>
+          state.substitutions.add({ round, side, from: replaced.model, to: turn.model, error: replaced.error }),
+      ),
+    })
 
-      if (isModelError(affirmativeResult)) {
-        return Promise.reject(new Error(`Affirmative model failed: ${affirmativeResult.error}`))
+    const executeRound = async (state: DebateState, spec: PhaseSpec, round: number): Promise<DebateState> => {
+      // A failed turn ends the debate; later rounds are skipped
+      if (state.failure) return state
+
+      const [first, second] = speakingOrder(spec)
+      const label =
+        spec.phase === "argument" ? `[Round ${round}/${numRounds}]` : `[Round ${round}/${numRounds}: ${spec.phase}]`
+      const prompt = (side: DebateSide, transcript: string): string =>
+        speechPrompt({
+          topic: args.topic,
+          format,
+          spec,
+          side,
+          round,
+          totalRounds: numRounds,
+          transcript,
+          thoughtContext,
+        })
+
+      // Compress the transcript as far as the speaker's turn needs, leaving room for the prompt and reply
+      const fitTranscript = async (transcript: Transcript, side: DebateSide, model: string) =>
+        transcriptForTurn(
+          transcript,
+          compression,
+          await contextWindow(model, estimateTokens(prompt(side, "")) + getOutputCap(model, args.maxTokens)),
+        )
+
+      // The first speaker sees the debate so far
+      const firstContext = await fitTranscript(state.transcript, first, state.debaters[first])
+      const firstTurn = await takeTurn(state.debaters[first], prompt(first, firstContext.text), turnOptions)
+      if (firstTurn.isLeft()) {
+        const failure = toFailure(round, first, firstTurn.value)
+        await progress.step(`${label} Debate stopped: ${failure.model} failed: ${failure.error}`)
+        return { ...state, transcript: firstContext.transcript, failure }
       }
+      const firstResult = firstTurn.orThrow()
+      const afterFirst = afterTurn({ ...state, transcript: firstContext.transcript }, round, first, firstResult)
+
+      // Update context for the second speaker
+      const firstText = firstResult.response.text
+      const firstArg = transcriptEntry(round, spec, first, afterFirst.debaters[first], firstText)
+      const secondContext = await fitTranscript(
+        addEntry(afterFirst.transcript, firstArg),
+        second,
+        afterFirst.debaters[second],
+      )
 
-      // Update context for negative
-      const affirmativeArg = `Round ${round} - Affirmative (${affirmativeModel}):\n${affirmativeResult.text}`
-      const updatedArgs = state.previousArguments ? `${state.previousArguments}\n\n${affirmativeArg}` : affirmativeArg
-
-      // Negative responds
-      const negativePrompt = `You are participating in a formal debate. You are arguing AGAINST the following proposition:\n\n"${args.topic}"\n\nThis is round ${round} of ${numRounds}.\n\nPrevious arguments in this debate:\n${updatedArgs}\n\nPresent your counter-arguments clearly and persuasively. Respond to your opponent's points and make your case against the proposition.`
-
-      const negativeResult = await queryModel(negativeModel, negativePrompt)
-
-      if (isModelError(negativeResult)) {
-        return Promise.reject(new Error(`Negative model failed: ${negativeResult.error}`))
+      // The second speaker responds
+      const secondTurn = await takeTurn(afterFirst.debaters[second], prompt(second, secondContext.text), turnOptions)
+      if (secondTurn.isLeft()) {
+        const failure = toFailure(round, second, secondTurn.value, { side: first, text: firstText })
+        await progress.step(`${label} Debate stopped: ${failure.model} failed: ${failure.error}`)
+        return { ...afterFirst, transcript: secondContext.transcript, failure }
       }
+      const secondResult = secondTurn.orThrow()
+      const afterSecond = afterTurn(
+        { ...afterFirst, transcript: secondContext.transcript },
+        round,
+        second,
+        secondResult,
+      )
 
       // Update context for next round
-      const negativeArg = `Round ${round} - Negative (${negativeModel}):\n${negativeResult.text}`
+      const secondText = secondResult.response.text
+      const secondArg = transcriptEntry(round, spec, second, afterSecond.debaters[second], secondText)
+      const texts = first === "affirmative" ? [firstText, secondText] : [secondText, firstText]
+
+      await progress.step(`${label}\n\n${firstArg}\n\n${secondArg}`)
 
       return {
+        ...afterSecond,
         rounds: state.rounds.add({
           round,
-          affirmative: affirmativeResult.text,
-          negative: negativeResult.text,
+          phase: spec.phase,
+          firstSpeaker: first,
+          affirmative: texts[0],
+          negative: texts[1],
         }),
-        previousArguments: `${updatedArgs}\n\n${negativeArg}`,
+        transcript: addEntry(afterSecond.transcript, secondArg),
       }
     }
 
     // Execute rounds sequentially using reduce
-    const roundNumbers = List(Array.from({ length: numRounds }, (_, i) => i + 1))
-    const finalState = await roundNumbers
+    const finalState = await phases
       .toArray()
-      .reduce(async (accPromise, round) => executeRound(await accPromise, round), Promise.resolve(initialState))
+      .reduce(
+        async (accPromise, spec, index) => executeRound(await accPromise, spec, index + 1),
+        Promise.resolve(initialState),
+      )
+
+    // Judges score at temperature 0 so verdicts are as repeatable as the models allow
+    const judged = List(
+      await Promise.all(
+        (finalState.rounds.isEmpty ? [] : judges.toArray()).map(async (judge) => {
+          const outcome = await queryStructured(
+            judge,
+            judgePrompt(args.topic, finalState.rounds),
+            scorecardSchema(finalState.rounds.size),
+            undefined,
+            { bypassCache: args.bypassCache, params: { ...toGenerationParams(args), temperature: 0 } },
+          )
+          await progress.step(
+            outcome.fold(
+              (error) => `Judge ${judge} failed: ${error.error}`,
+              (result) =>
+                result.value.fold(
+                  (failure) => `Judge ${judge} returned an invalid scorecard: ${failure.error}`,
+                  (reply) => `Judge ${judge} gave the debate to: ${reply.winner}`,
+                ),
+            ),
+          )
+          return { judge, outcome }
+        }),
+      ),
+    )
+    const judgeResults = judged.flatMap(({ judge, outcome }) =>
+      outcome.fold(
+        () => List.empty<{ judge: string; result: StructuredResult<JudgeReply> }>(),
+        (result) => List.of({ judge, result }),
+      ),
+    )
 
     const result: DebateResult = {
       topic: args.topic,
+      format,
       affirmativeModel,
       negativeModel,
       rounds: finalState.rounds,
+      substitutions: finalState.substitutions,
+      ...(finalState.failure && { failure: finalState.failure }),
+      ...(!judges.isEmpty &&
+        !finalState.rounds.isEmpty && {
+          judging: combineScorecards(
+            judgeResults.flatMap(({ judge, result }) =>
+              result.value.fold(
+                () => List.empty<JudgeScorecard>(),
+                (reply) => List.of(toScorecard(judge, reply)),
+              ),
+            ),
+            judgeResults.flatMap(({ result }) =>
+              result.value.fold(
+                (failure) => List.of(failure),
+                () => List.empty<ParseFailure>(),
+              ),
+            ),
+            judged.flatMap(({ outcome }) =>
+              outcome.fold(
+                (error) => List.of(error),
+                () => List.empty<ModelError>(),
+              ),
+            ),
+          ),
+        }),
       metadata: {
-        totalExchanges: numRounds * 2,
+        totalExchanges: finalState.responses.size,
         totalLatencyMs: Date.now() - startTime,
+        usage: summarizeUsage(
+          finalState.responses
+            .concat(finalState.transcript.responses)
+            .concat(judgeResults.flatMap(({ result }) => result.attempts)),
+        ),
+        compression: compressionStats(finalState.transcript, compression),
       },
     }
 
+    settleSpend(reserved.orThrow(), result.metadata.usage.costUsd)
     return JSON.stringify(serializeDebateResult(result), null, 2)
   },
 })
 
+// ============================================================================
+// Roundtable Tool
+// ============================================================================
+
+server.addTool({
+  name: "roundtable",
+  description:
+    "Run a moderated roundtable: several models, each holding an assigned stance or persona, take turns over several rounds while a moderator model summarizes and poses follow-up questions between rounds. Returns the transcript and the moderator's notes, ending with a closing summary.",
+  annotations: { streamingHint: true },
+  parameters: z.object({
+    topic: z.string().describe("The question or topic under discussion"),
+    participants: z
+      .array(
+        z.object({
+          model: z.string().describe("Model identifier or alias"),
+          stance: z
+            .string()
+            .describe("The stance or persona this participant holds, e.g. 'a skeptical security engineer'"),
+          name: z.string().optional().describe("Name used in the transcript. Default: Participant 1, 2, ..."),
+        }),
+      )
+      .min(2)
+      .max(MAX_ROUNDTABLE_PARTICIPANTS)
+      .describe(`Participants in speaking order (2-${MAX_ROUNDTABLE_PARTICIPANTS})`),
+    moderatorModel: z
+      .string()
+      .optional()
+      .describe("Model that moderates. OMIT THIS to use the server default (recommended)."),
+    rounds: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_ROUNDTABLE_ROUNDS)
+      .optional()
+      .describe(`Number of rounds (1-${MAX_ROUNDTABLE_ROUNDS}). Default: ${DEFAULT_ROUNDTABLE_ROUNDS}`),
+    turnRetries: z
+      .number()
+      .int()
+      .min(0)
+      .max(MAX_TURN_RETRIES)
+      .optional()
+      .describe(
+        `Extra attempts for a turn that fails with a transient error (0-${MAX_TURN_RETRIES}). Default: ${DEFAULT_TURN_RETRIES}`,
+      ),
+    fallbackModel: z
+      .string()
+      .optional()
+      .describe(
+        "Model that takes over the seat of a participant whose model keeps failing. Without one, that participant leaves the discussion.",
+      ),
+    bypassCache: bypassCacheParam,
+    ...generationParams,
+  }),
+  execute: async (args, context): Promise<string> => {
+    const resolved = args.participants.reduce<Either<string, List<RoundtableParticipant>>>(
+      (acc, participant, index) =>
+        acc.flatMap((participants) =>
+          resolveAlias(participant.model).map((model) =>
+            participants.add({
+              name: participant.name ?? `Participant ${index + 1}`,
+              model,
+              stance: participant.stance,
+            }),
+          ),
+        ),
+      Right(List.empty()),
+    )
+    if (resolved.isLeft()) return serializeResolutionError(resolved.value)
+    const participants = resolved.orThrow()
+    const names = new Set(participants.toArray().map((p) => p.name))
+    if (names.size < participants.size) {
+      return JSON.stringify({ error: "Participant names must be unique" }, null, 2)
+    }
+    const resolvedModerator = resolveAlias(args.moderatorModel ?? (await getDefaultModeratorModelAsync()))
+    if (resolvedModerator.isLeft()) return serializeResolutionError(resolvedModerator.value)
+    const moderatorModel = resolvedModerator.orThrow()
+    const resolvedFallback = Option(args.fallbackModel).fold(
+      () => Right<string, Option<string>>(Option.none()),
+      (model) => resolveAlias(model).map((fallback) => Option(fallback)),
+    )
+    if (resolvedFallback.isLeft()) return serializeResolutionError(resolvedFallback.value)
+    const fallbackModel = resolvedFallback.orThrow()
+    const numRounds = Option(args.rounds).orElse(DEFAULT_ROUNDTABLE_ROUNDS)
+
+    // Worst case: every turn re-sends the whole transcript so far, and the moderator reads it after each round
+    const baseTokens = estimateTokens(args.topic) + participants.foldLeft(0)((sum, p) => sum + estimateTokens(p.stance))
+    // A failing participant may hand the seat to the fallback, so each seat is planned at the dearer of the two
+    const seats = participants.toArray().map((p) => planTurn(p.model, fallbackModel, args.maxTokens))
+    const turnCaps = List(seats.map((seat) => seat.maxOutputTokens))
+    const moderatorCap = getOutputCap(moderatorModel, args.maxTokens)
+    const roundTokens = turnCaps.foldLeft(moderatorCap)((sum, cap) => sum + cap)
+    const plannedRounds = List(Array.from({ length: numRounds }, (_, i) => i)).flatMap((round) => {
+      const turns = List(
+        seats.map(
+          (planned, seat): PlannedQuery => ({
+            ...planned,
+            promptTokens:
+              baseTokens +
+              round * roundTokens +
+              turnCaps
+                .toArray()
+                .slice(0, seat)
+                .reduce((sum, cap) => sum + cap, 0),
+          }),
+        ),
+      )
+      return turns.concat(
+        planStructured(
+          List.of({
+            model: moderatorModel,
+            promptTokens: baseTokens + (round + 1) * roundTokens,
+            maxOutputTokens: moderatorCap,
+          }),
+        ),
+      )
+    })
+    const reserved = await enforceBudget(plannedRounds, context.sessionId)
+    if (reserved.isLeft()) return serializeBudgetViolation(reserved.value)
+
+    // One step per turn and per moderator note
+    const progress = createProgressReporter(context, numRounds * (participants.size + 1))
+    const startTime = Date.now()
+
+    const outcome = await runRoundtable({
+      topic: args.topic,
+      participants,
+      moderatorModel,
+      rounds: numRounds,
+      turnOptions: {
+        bypassCache: args.bypassCache,
+        params: toGenerationParams(args),
+        retries: Option(args.turnRetries).orElse(DEFAULT_TURN_RETRIES),
+        fallback: fallbackModel,
+      },
+      onStep: (text) => progress.step(text),
+    })
+
+    const result: RoundtableResult = {
+      topic: args.topic,
+      participants,
+      moderatorModel,
+      turns: outcome.turns,
+      moderatorNotes: outcome.moderatorNotes,
+      substitutions: outcome.substitutions,
+      departures: outcome.departures,
+      errors: outcome.errors,
+      stoppedEarly: outcome.stoppedEarly,
+      metadata: {
+        rounds: outcome.roundsHeld,
+        totalLatencyMs: Date.now() - startTime,
+        usage: summarizeUsage(outcome.responses),
+      },
+    }
+
+    settleSpend(reserved.orThrow(), result.metadata.usage.costUsd)
+    return JSON.stringify(serializeRoundtableResult(result), null, 2)
+  },
+})
+
 // ============================================================================
 // Critique Tool
 // ============================================================================
@@ -443,10 +1785,24 @@ server.addTool({
       .array(z.string())
       .optional()
       .describe("Specific aspects to focus on (e.g., ['accuracy', 'completeness', 'clarity'])"),
+    attachments: attachmentsParam.describe(
+      "Images or PDFs the original prompt referred to (e.g. the screenshot being described). Text-only critics are rejected.",
+    ),
+    bypassCache: bypassCacheParam,
+    ...generationParams,
   }),
-  execute: async (args): Promise<string> => {
-    const defaultModels = await getDefaultModelsAsync()
-    const criticModel = args.criticModel ?? defaultModels.get(0).orElse("openrouter/openrouter/free")
+  execute: async (args, context): Promise<string> => {
+    const resolvedCritic = resolveAlias(args.criticModel ?? (await getDefaultCriticModelAsync()))
+    if (resolvedCritic.isLeft()) return serializeResolutionError(resolvedCritic.value)
+    const criticModel = resolvedCritic.orThrow()
+
+    const prepared = await prepareAttachments(args.attachments, List.of(criticModel))
+    if (prepared.isLeft()) return serializeResolutionError(prepared.value)
+    const { attachments, skipped } = prepared.orThrow()
+    if (skipped.head) return JSON.stringify({ error: `Critique failed: ${skipped.head.error}` }, null, 2)
+    const attachmentsClause = attachments.isEmpty
+      ? ""
+      : "\n\nThe original prompt came with the attached files; use them to check the response."
     const aspectsClause = Option(args.aspects)
       .filter((a) => a.length > 0)
       .map((aspects) => `\n\nFocus particularly on these aspects: ${aspects.join(", ")}`)
@@ -459,7 +1815,7 @@ Original prompt:
 
 Response to critique:
 "${args.response}"
-${aspectsClause}
+${attachmentsClause}${aspectsClause}
 
 Provide your critique in the following JSON format:
 {
@@ -471,49 +1827,55 @@ Provide your critique in the following JSON format:
 
 Respond ONLY with the JSON object, no additional text.`
 
-    const startTime = Date.now()
-    const result = await queryModel(criticModel, critiquePrompt)
+    const reserved = await enforceBudget(
+      planStructured(planQueries(List.of(criticModel), critiquePrompt, undefined, args.maxTokens, attachments)),
+      context.sessionId,
+    )
+    if (reserved.isLeft()) return serializeBudgetViolation(reserved.value)
 
-    if (isModelError(result)) {
-      return JSON.stringify({ error: `Critique failed: ${result.error}` }, null, 2)
-    }
+    const startTime = Date.now()
+    const outcome = await queryStructured(criticModel, critiquePrompt, CritiqueSchema, undefined, {
+      bypassCache: args.bypassCache,
+      params: toGenerationParams(args),
+      attachments: attachments.toArray(),
+    })
 
-    // Parse the critique response using Try
-    const extractJson = (text: string): string => {
-      const trimmed = text.trim()
-      return trimmed.startsWith("```") ? trimmed.replace(/```(?:json)?\n?/g, "").trim() : trimmed
+    if (outcome.isLeft()) {
+      settleSpend(reserved.orThrow(), 0)
+      return JSON.stringify({ error: `Critique failed: ${outcome.value.error}` }, null, 2)
     }
+    const result = outcome.orThrow()
 
-    const critique = Try(() => {
-      return JSON.parse(extractJson(result.text)) as {
-        strengths?: string[]
-        weaknesses?: string[]
-        suggestions?: string[]
-        overallAssessment?: string
-      }
-    }).fold(
+    const critique = result.value.fold(
       (): Critique => ({
         strengths: List.empty(),
         weaknesses: List.empty(),
         suggestions: List.empty(),
-        overallAssessment: result.text,
+        overallAssessment: "",
       }),
       (parsed): Critique => ({
-        strengths: List(parsed.strengths ?? []),
-        weaknesses: List(parsed.weaknesses ?? []),
-        suggestions: List(parsed.suggestions ?? []),
-        overallAssessment: parsed.overallAssessment ?? result.text,
+        strengths: List(parsed.strengths),
+        weaknesses: List(parsed.weaknesses),
+        suggestions: List(parsed.suggestions),
+        overallAssessment: parsed.overallAssessment,
       }),
     )
 
     const critiqueResult: CritiqueResult = {
       critique,
+      ...result.value.fold(
+        (parseFailure) => ({ parseFailure }),
+        () => ({}),
+      ),
       metadata: {
         criticModel,
         latencyMs: Date.now() - startTime,
+        repaired: result.repaired,
+        usage: summarizeUsage(result.attempts),
       },
     }
 
+    settleSpend(reserved.orThrow(), critiqueResult.metadata.usage.costUsd)
     return JSON.stringify(serializeCritiqueResult(critiqueResult), null, 2)
   },
 })
@@ -526,6 +1888,7 @@ server.addTool({
   name: "challenge",
   description:
     "Have multiple models find weaknesses in a proposed thought. Returns structured challenges to help strengthen the reasoning. Use for adversarial stress-testing of ideas.",
+  annotations: { streamingHint: true },
   parameters: z.object({
     proposedThought: z.string().describe("The thought/claim to challenge"),
     context: z.string().optional().describe("Additional context about the thought"),
@@ -533,15 +1896,22 @@ server.addTool({
       .array(z.string())
       .optional()
       .describe(
-        "Challenger models. OMIT THIS to use server defaults (recommended). Only specify if you need specific models.",
+        "Challenger models, aliases, or panels like '@deep'. OMIT THIS to use server defaults (recommended). Only specify if you need specific models.",
       ),
     challengeTypes: z
       .array(z.enum(["logical", "factual", "completeness", "edge_cases", "alternatives"]))
       .optional()
       .describe("Types of challenges to focus on. Defaults to all types."),
+    bypassCache: bypassCacheParam,
+    ...generationParams,
   }),
-  execute: async (args): Promise<string> => {
-    const challengers = args.challengers ? List(args.challengers) : await getDefaultChallengerModelsAsync()
+  execute: async (args, context): Promise<string> => {
+    const expanded = args.challengers
+      ? await expandModels(List(args.challengers))
+      : resolvePanel(await getDefaultChallengerModelsAsync())
+    if (expanded.isLeft()) return serializeResolutionError(expanded.value)
+    const challengers = expanded.orThrow()
+    const progress = createProgressReporter(context, challengers.size)
     const challengeTypes = Option(args.challengeTypes)
       .filter((t) => t.length > 0)
       .orElse([...ALL_CHALLENGE_TYPES])
@@ -565,59 +1935,58 @@ Challenge type definitions:
 - edge_cases: Scenarios where the position breaks down or fails
 - alternatives: Better approaches or solutions not considered
 
-Provide your challenges in the following JSON format (array of challenges):
-[
-  {
-    "challengeType": "logical|factual|completeness|edge_cases|alternatives",
-    "challenge": "Description of the weakness",
-    "severity": "minor|moderate|significant",
-    "reasoning": "Why this matters"
-  }
-]
-
-Be rigorous but fair. Only raise genuine issues that would help improve the position. If the position is strong, you may return fewer challenges.
-
-Respond ONLY with the JSON array, no additional text.`
-
-    // Query all challengers in parallel
-    const { responses, errors } = await queryModels(challengers, challengePrompt)
-
-    // Parse challenges from each response
-    const extractJson = (text: string): string => {
-      const trimmed = text.trim()
-      return trimmed.startsWith("```") ? trimmed.replace(/```(?:json)?\n?/g, "").trim() : trimmed
-    }
-
-    type ParsedChallenge = {
-      challengeType?: string
-      challenge?: string
-      severity?: string
-      reasoning?: string
+Provide your challenges in the following JSON format:
+{
+  "challenges": [
+    {
+      "challengeType": "logical|factual|completeness|edge_cases|alternatives",
+      "challenge": "Description of the weakness",
+      "severity": "minor|moderate|significant",
+      "reasoning": "Why this matters"
     }
+  ]
+}
 
-    const allChallenges: Challenge[] = []
+Be rigorous but fair. Only raise genuine issues that would help improve the position. If the position is strong, you may return fewer challenges, or an empty list.
 
-    responses.forEach((response) => {
-      const parsed = Try(() => JSON.parse(extractJson(response.text)) as ParsedChallenge[]).fold(
-        () => [] as ParsedChallenge[],
-        (result) => (Array.isArray(result) ? result : []),
-      )
+Respond ONLY with the JSON object, no additional text.`
 
-      parsed.forEach((p) => {
-        const challengeType = p.challengeType as ChallengeType | undefined
-        if (challengeType && ALL_CHALLENGE_TYPES.includes(challengeType) && p.challenge && p.severity && p.reasoning) {
-          allChallenges.push({
-            model: response.model,
-            actualModel: response.actualModel,
-            challengeType,
-            challenge: p.challenge,
-            severity: p.severity as "minor" | "moderate" | "significant",
-            reasoning: p.reasoning,
-            latencyMs: response.latencyMs,
-          })
-        }
-      })
-    })
+    const reserved = await enforceBudget(
+      planStructured(planQueries(challengers, challengePrompt, undefined, args.maxTokens)),
+      context.sessionId,
+    )
+    if (reserved.isLeft()) return serializeBudgetViolation(reserved.value)
+
+    // Query all challengers in parallel, streaming each result as it lands
+    const { answers: answered, errors } = await queryStructuredModels(
+      challengers,
+      challengePrompt,
+      ChallengeListSchema,
+      undefined,
+      { bypassCache: args.bypassCache, params: toGenerationParams(args), onResult: progress.modelCompleted },
+    )
+    const responses = answered.flatMap((a) => a.attempts)
+
+    const allChallenges: Challenge[] = answered.toArray().flatMap(({ response, attempts, value }) =>
+      value.fold(
+        (): Challenge[] => [],
+        (parsed) =>
+          parsed.challenges.map(
+            (c): Challenge => ({
+              model: response.model,
+              actualModel: response.actualModel,
+              ...c,
+              latencyMs: attempts.foldLeft(0)((sum, r) => sum + r.latencyMs),
+            }),
+          ),
+      ),
+    )
+    const parseFailures = answered.flatMap(({ value }) =>
+      value.fold(
+        (failure) => List.of(failure),
+        () => List.empty<ParseFailure>(),
+      ),
+    )
 
     // Build summary
     const bySeverity = { minor: 0, moderate: 0, significant: 0 }
@@ -632,7 +2001,8 @@ Respond ONLY with the JSON array, no additional text.`
       proposedThought: args.proposedThought,
       context: args.context,
       challenges: List(allChallenges),
-      errors: errors as List<ModelError>,
+      errors,
+      parseFailures,
       summary: {
         totalChallenges: allChallenges.length,
         bySeverity,
@@ -640,11 +2010,14 @@ Respond ONLY with the JSON array, no additional text.`
       },
       metadata: {
         totalLatencyMs: Date.now() - startTime,
-        successCount: responses.size,
-        challengerModels: responses.map((r) => r.model),
+        successCount: answered.size,
+        challengerModels: answered.map((a) => a.model),
+        repairedModels: answered.filter((a) => a.repaired).map((a) => a.model),
+        usage: summarizeUsage(responses),
       },
     }
 
+    settleSpend(reserved.orThrow(), result.metadata.usage.costUsd)
     return JSON.stringify(serializeChallengeResult(result), null, 2)
   },
 })
@@ -659,7 +2032,18 @@ program
   .version(SERVER_VERSION)
   .option("--stdio", "Use stdio transport (default)")
   .option("--http <port>", "Use HTTP transport on specified port")
+  .option("--config <path>", "Load providers, panels and defaults from a JSON or YAML config file")
   .action((options) => {
+    if (options.config) {
+      loadConfigFile(options.config).fold(
+        (message) => {
+          console.error(message)
+          process.exit(1)
+        },
+        (config) => setConfig(config),
+      )
+    }
+
     const httpPort = Option(options.http)
       .map((portStr) => parseInt(portStr, 10))
       .filter((port) => !isNaN(port))
@@ -0,0 +1,192 @@
+/**
+ * Judging of debates
+ *
+ * Judge models read the finished transcript, with the debaters identified
+ * only by side, and score both sides in every round on argument strength,
+ * rebuttal quality and evidence (1-10 each). Each judge then names a winner
+ * with a rationale. Scorecards are averaged per round, and the verdicts are
+ * combined by majority, with the spread of the judges' scores and the share
+ * agreeing on the verdict reported so a result can be trusted, or not, at a glance.
+ */
+
+import { List, Option } from "functype"
+import { z } from "zod"
+
+import { speakingOrder, speechTitle } from "./debate-formats.js"
+import type {
+  DebateJudging,
+  DebateRound,
+  DebateScores,
+  DebateSide,
+  DebateVerdict,
+  DebateWinner,
+  JudgedRound,
+  JudgeScorecard,
+  ModelError,
+  ParseFailure,
+  RoundScore,
+} from "./types.js"
+
+const DEBATE_WINNERS = ["affirmative", "negative", "draw"] as const
+
+const score = z.number().int().min(1).max(10)
+
+const SideScoresSchema = z.object({
+  argumentStrength: score.describe("How strong and well-reasoned the arguments are"),
+  rebuttalQuality: score.describe("How well the opponent's points are answered"),
+  evidence: score.describe("How well claims are supported by evidence and examples"),
+})
+
+const ScorecardSchema = z.object({
+  rounds: z.array(z.object({ round: z.number().int(), affirmative: SideScoresSchema, negative: SideScoresSchema })),
+  winner: z.enum(DEBATE_WINNERS),
+  rationale: z.string().describe("Why this side won, citing the decisive exchanges"),
+})
+
+export type JudgeReply = z.infer<typeof ScorecardSchema>
+
+/**
+ * Scorecard schema for a debate with a given number of rounds; every round must be scored exactly once
+ */
+export const scorecardSchema = (numRounds: number): z.ZodType<JudgeReply> =>
+  ScorecardSchema.refine(
+    (card) =>
+      card.rounds.length === numRounds &&
+      new Set(card.rounds.map((r) => r.round)).size === numRounds &&
+      card.rounds.every((r) => r.round >= 1 && r.round <= numRounds),
+    { message: `Score each round from 1 to ${numRounds} exactly once`, path: ["rounds"] },
+  )
+
+/**
+ * Prompt asking a judge to score a finished debate
+ */
+export const judgePrompt = (topic: string, rounds: List<DebateRound>): string => {
+  const speech = (r: DebateRound, side: DebateSide): string => {
+    const heading = r.phase === "argument" ? "" : ` (${speechTitle(r.phase, r.firstSpeaker, side).toLowerCase()})`
+    return `--- Round ${r.round}: ${side === "affirmative" ? "Affirmative" : "Negative"}${heading} ---\n${r[side]}`
+  }
+  const transcript = rounds
+    .toArray()
+    .map((r) =>
+      speakingOrder(r)
+        .map((side) => speech(r, side))
+        .join("\n\n"),
+    )
+    .join("\n\n")
+  const crossExamination = rounds.exists((r) => r.phase === "cross-examination")
+    ? "\nIn cross-examination rounds, score the questioner on how well the questions expose weaknesses, and the answerer on how directly and convincingly they answer.\n"
+    : ""
+
+  return `You are an impartial judge of a formal debate. Score it on the quality of the arguments alone, whatever your own view of the proposition.
+
+Proposition:
+"${topic}"
+
+${transcript}
+
+For each round, score both sides from 1 to 10 on:
+- argumentStrength: how strong and well-reasoned the arguments are
+- rebuttalQuality: how well the opponent's points are answered (in round 1, how well the affirmative anticipates objections)
+- evidence: how well claims are supported by evidence and examples
+${crossExamination}
+Then decide the winner of the debate as a whole: "affirmative", "negative", or "draw" if neither side was clearly stronger.
+
+Provide your judgement in the following JSON format:
+{
+  "rounds": [
+    {
+      "round": 1,
+      "affirmative": { "argumentStrength": 7, "rebuttalQuality": 5, "evidence": 6 },
+      "negative": { "argumentStrength": 6, "rebuttalQuality": 7, "evidence": 5 }
+    }
+  ],
+  "winner": "affirmative|negative|draw",
+  "rationale": "why this side won, citing the decisive exchanges"
+}
+
+Score all ${rounds.size} rounds.
+
+Respond ONLY with the JSON object, no additional text.`
+}
+
+const withTotal = (scores: Omit<DebateScores, "total">): DebateScores => ({
+  ...scores,
+  total: scores.argumentStrength + scores.rebuttalQuality + scores.evidence,
+})
+
+/**
+ * Convert a judge's reply into a scorecard with totals, rounds in order
+ */
+export const toScorecard = (judge: string, reply: JudgeReply): JudgeScorecard => ({
+  judge,
+  rounds: List(
+    [...reply.rounds]
+      .sort((a, b) => a.round - b.round)
+      .map(
+        (r): RoundScore => ({ round: r.round, affirmative: withTotal(r.affirmative), negative: withTotal(r.negative) }),
+      ),
+  ),
+  winner: reply.winner,
+  rationale: reply.rationale,
+})
+
+const mean = (values: ReadonlyArray<number>): number => values.reduce((sum, v) => sum + v, 0) / values.length
+
+const meanScores = (scores: ReadonlyArray<DebateScores>): DebateScores => ({
+  argumentStrength: mean(scores.map((s) => s.argumentStrength)),
+  rebuttalQuality: mean(scores.map((s) => s.rebuttalQuality)),
+  evidence: mean(scores.map((s) => s.evidence)),
+  total: mean(scores.map((s) => s.total)),
+})
+
+/**
+ * Combine the judges' verdicts. A winner needs more than half the votes; otherwise the debate is a draw.
+ */
+const combineVerdicts = (scorecards: List<JudgeScorecard>): Option<DebateVerdict> =>
+  Option(scorecards)
+    .filter((cards) => !cards.isEmpty)
+    .map((cards) => {
+      const votes = cards.foldLeft<Record<DebateWinner, number>>({ affirmative: 0, negative: 0, draw: 0 })(
+        (acc, card) => ({ ...acc, [card.winner]: acc[card.winner] + 1 }),
+      )
+      const top = Math.max(...Object.values(votes))
+      const majority = DEBATE_WINNERS.find((winner) => votes[winner] * 2 > cards.size)
+
+      return {
+        winner: majority ?? "draw",
+        votes,
+        agreement: top / cards.size,
+        unanimous: top === cards.size,
+      }
+    })
+
+/**
+ * Average the scorecards per round and combine the verdicts
+ */
+export const combineScorecards = (
+  scorecards: List<JudgeScorecard>,
+  parseFailures: List<ParseFailure>,
+  errors: List<ModelError>,
+): DebateJudging => {
+  const rounds = scorecards.head?.rounds.map((r) => r.round) ?? List.empty<number>()
+
+  return {
+    scorecards,
+    rounds: rounds.map((round): JudgedRound => {
+      const scored = scorecards.toArray().flatMap((card) => card.rounds.toArray().filter((r) => r.round === round))
+      const margins = scored.map((r) => r.affirmative.total - r.negative.total)
+      return {
+        round,
+        affirmative: meanScores(scored.map((r) => r.affirmative)),
+        negative: meanScores(scored.map((r) => r.negative)),
+        marginSpread: Math.max(...margins) - Math.min(...margins),
+      }
+    }),
+    ...combineVerdicts(scorecards).fold(
+      () => ({}),
+      (verdict) => ({ verdict }),
+    ),
+    parseFailures,
+    errors,
+  }
+}
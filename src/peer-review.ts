@@ -0,0 +1,145 @@
+/**
+ * Anonymous peer review of council answers
+ *
+ * After the council answers, every model that answered reviews the others'
+ * answers under neutral labels (Response A, Response B, ...), never seeing
+ * its own. It critiques each one and ranks them best first. The rankings are
+ * combined with a Borda count: on a ballot ranking n answers, the first gets
+ * n - 1 points and the last gets none. Labels a reviewer invents, repeats or
+ * uses for its own answer are ignored.
+ */
+
+import { List, Option } from "functype"
+import { z } from "zod"
+
+import { labelResolver, responseLabel } from "./synthesis.js"
+import type { ModelResponse, PeerReview, RankedAnswer, ResponseCritique } from "./types.js"
+
+export const PeerReviewSchema = z.object({
+  critiques: z
+    .array(
+      z.object({
+        response: z.string().describe("Label of the response, e.g. 'A'"),
+        strengths: z.array(z.string()).describe("Strong points of the response"),
+        weaknesses: z.array(z.string()).describe("Weak points or errors"),
+        assessment: z.string().describe("Brief overall assessment"),
+      }),
+    )
+    .describe("One critique per response"),
+  ranking: z.array(z.string()).describe("Labels of every response, best first"),
+})
+
+export type ReviewerReply = z.infer<typeof PeerReviewSchema>
+
+/**
+ * Prompt asking one council member to review everyone else's answers
+ */
+export const reviewPrompt = (question: string, responses: List<ModelResponse>, reviewer: string): string => {
+  const others = responses
+    .toArray()
+    .map((response, index) => ({ response, label: responseLabel(index) }))
+    .filter(({ response }) => response.model !== reviewer)
+  const labelled = others.map(({ response, label }) => `--- Response ${label} ---\n${response.text}`).join("\n\n")
+
+  return `You are reviewing answers that other experts gave to a question. The answers are anonymous. Judge them on accuracy, completeness, reasoning and clarity, not on style or length.
+
+Question:
+"${question}"
+
+${labelled}
+
+Provide your review in the following JSON format:
+{
+  "critiques": [
+    {
+      "response": "${others[0]?.label ?? "A"}",
+      "strengths": ["strong points"],
+      "weaknesses": ["weak points or errors"],
+      "assessment": "brief overall assessment"
+    }
+  ],
+  "ranking": [${others.map(({ label }) => `"${label}"`).join(", ")}]
+}
+
+Critique every response, and rank all of them from best to worst (the ranking above is only an example order). Refer to responses only by their letters.
+
+Respond ONLY with the JSON object, no additional text.`
+}
+
+/**
+ * Convert a reviewer's reply into a review of models. Unknown labels, the reviewer's own answer
+ * and repeats are dropped.
+ */
+export const toPeerReview = (reviewer: string, reply: ReviewerReply, responses: List<ModelResponse>): PeerReview => {
+  const resolve = labelResolver(responses)
+  const modelFor = (label: string): Option<string> => resolve(label).filter((model) => model !== reviewer)
+
+  return {
+    reviewer,
+    critiques: List(reply.critiques).flatMap(({ response, ...critique }) =>
+      modelFor(response).fold(
+        () => List.empty<ResponseCritique>(),
+        (model) =>
+          List.of<ResponseCritique>({
+            model,
+            strengths: List(critique.strengths),
+            weaknesses: List(critique.weaknesses),
+            assessment: critique.assessment,
+          }),
+      ),
+    ),
+    ranking: List(reply.ranking)
+      .flatMap((label) =>
+        modelFor(label).fold(
+          () => List.empty<string>(),
+          (model) => List.of(model),
+        ),
+      )
+      .distinct(),
+  }
+}
+
+/**
+ * Combine reviewers' rankings with a Borda count. Ties on points go to the better average position,
+ * then to the earlier answer. Answers no ballot ranked come last, with no points.
+ */
+export const bordaCount = (models: List<string>, reviews: List<PeerReview>): List<RankedAnswer> => {
+  const tallies = reviews.foldLeft(new Map<string, { points: number; positions: List<number> }>())((acc, review) =>
+    review.ranking.toArray().reduce((tally, model, index) => {
+      const current = tally.get(model) ?? { points: 0, positions: List.empty<number>() }
+      return new Map(tally).set(model, {
+        points: current.points + review.ranking.size - 1 - index,
+        positions: current.positions.add(index + 1),
+      })
+    }, acc),
+  )
+
+  const scored = models.toArray().map((model, order) => {
+    const tally = tallies.get(model)
+    const ballots = tally?.positions.size ?? 0
+    return {
+      model,
+      order,
+      points: tally?.points ?? 0,
+      ballots,
+      averagePosition: tally && ballots > 0 ? tally.positions.foldLeft(0)((sum, p) => sum + p) / ballots : undefined,
+    }
+  })
+
+  return List(
+    scored
+      .sort(
+        (a, b) =>
+          b.points - a.points || (a.averagePosition ?? Infinity) - (b.averagePosition ?? Infinity) || a.order - b.order,
+      )
+      .map(
+        ({ model, points, ballots, averagePosition }, index): RankedAnswer => ({
+          rank: index + 1,
+          model,
+          points,
+          ballots,
+          ...(averagePosition !== undefined && { averagePosition }),
+        }),
+      ),
+  )
+}
@@ -0,0 +1,57 @@
+/**
+ * Progress reporting for long-running panel tools
+ *
+ * Wraps FastMCP's progress notifications and content streaming so tools can
+ * surface each model's result as soon as it arrives instead of blocking until
+ * the whole panel has finished.
+ */
+
+import type { Context, FastMCPSessionAuth } from "fastmcp"
+
+import { isModelError, type QueryResult } from "./types.js"
+
+/**
+ * The subset of the FastMCP tool context used for progress reporting
+ */
+export type ProgressContext = Pick<Context<FastMCPSessionAuth>, "reportProgress" | "streamContent">
+
+/**
+ * Reporter handed to tools for emitting incremental progress
+ */
+export type ProgressReporter = {
+  /**
+   * Record a finished model query (success or failure) and stream its result
+   */
+  readonly modelCompleted: (result: QueryResult) => Promise<void>
+  /**
+   * Record a completed step (e.g. a debate round) with a text summary
+   */
+  readonly step: (text: string) => Promise<void>
+}
+
+/**
+ * Format a model result as a partial-content message
+ */
+export const formatModelProgress = (result: QueryResult, completed: number, total: number): string =>
+  isModelError(result)
+    ? `[${completed}/${total}] ${result.model} failed: ${result.error}`
+    : `[${completed}/${total}] ${result.model} responded (${result.latencyMs}ms):\n\n${result.text}`
+
+/**
+ * Create a progress reporter for a tool call expecting `total` steps
+ */
+export const createProgressReporter = (context: ProgressContext, total: number): ProgressReporter => {
+  const state = { completed: 0 }
+
+  const advance = async (text: string): Promise<void> => {
+    // eslint-disable-next-line functional/immutable-data
+    state.completed++
+    await context.reportProgress({ progress: state.completed, total })
+    await context.streamContent({ type: "text", text })
+  }
+
+  return {
+    modelCompleted: (result) => advance(formatModelProgress(result, state.completed + 1, total)),
+    step: advance,
+  }
+}
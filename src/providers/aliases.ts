@@ -0,0 +1,195 @@
+/**
+ * Model aliases and named panels
+ *
+ * Tool arguments may use an alias ("smart") or a panel reference ("@deep") in
+ * place of a concrete model ID. Both are resolved before model resolution, so a
+ * model can be upgraded centrally by editing one alias instead of every prompt
+ * and client config. Stale IDs can themselves be aliased to their replacements.
+ *
+ * - Aliases come from the config file's `aliases` map and PANEL_ALIASES
+ *   ("smart=anthropic/claude-sonnet-4-20250514,fast=openai/gpt-4o-mini"), the environment winning
+ * - Panels come from the config file's `panels` map plus the built-in
+ *   @default, @challengers and @free panels
+ * - Each entry of a fallback chain is resolved independently
+ * - Panel entries may carry generation settings, which apply to that model wherever it is queried
+ */
+
+import type { Either } from "functype"
+import { Left, List, Option, Right } from "functype"
+
+import { getConfig, getPanelModelSettings, resolvePanelRef } from "../config.js"
+import {
+  ENV_KEYS,
+  FALLBACK_SEPARATOR,
+  getDefaultChallengerModelsAsync,
+  getDefaultModelsAsync,
+  PANEL_PREFIX,
+} from "../constants.js"
+import type { GenerationParams } from "../types.js"
+import { getFreeModels } from "./openrouter-models.js"
+
+/**
+ * Maximum alias-to-alias hops before resolution gives up
+ */
+const MAX_ALIAS_DEPTH = 8
+
+/**
+ * Built-in panels, available unless the config file defines a panel of the same name
+ */
+const BUILTIN_PANELS: Readonly<Record<string, () => Promise<List<string>>>> = {
+  default: getDefaultModelsAsync,
+  challengers: getDefaultChallengerModelsAsync,
+  free: getFreeModels,
+}
+
+/**
+ * Get the alias table: config file aliases overridden by PANEL_ALIASES
+ */
+export const getAliases = (): ReadonlyMap<string, string> => {
+  const fromEnv = Option(process.env[ENV_KEYS.ALIASES])
+    .map((value) =>
+      value
+        .split(",")
+        .map((pair) => pair.split("="))
+        .filter((parts) => parts.length === 2)
+        .map(([name = "", target = ""]) => [name.trim(), target.trim()] as const)
+        .filter(([name, target]) => name.length > 0 && target.length > 0),
+    )
+    .orElse([])
+
+  return new Map([...Object.entries(getConfig().aliases ?? {}), ...fromEnv])
+}
+
+/**
+ * Resolve a single chain entry through the alias table
+ */
+const resolveEntry = (
+  aliases: ReadonlyMap<string, string>,
+  entry: string,
+  seen: List<string>,
+): Either<string, string> => {
+  if (entry.startsWith(PANEL_PREFIX)) {
+    return Left(`Panel ${entry} expands to several models and cannot be used where a single model is expected`)
+  }
+
+  const target = aliases.get(entry)
+  if (target === undefined) return Right(entry)
+  if (seen.contains(entry) || seen.size >= MAX_ALIAS_DEPTH) {
+    return Left(`Alias cycle: ${seen.add(entry).toArray().join(" -> ")}`)
+  }
+
+  return resolveChain(aliases, target, seen.add(entry))
+}
+
+const resolveChain = (
+  aliases: ReadonlyMap<string, string>,
+  model: string,
+  seen: List<string>,
+): Either<string, string> =>
+  List(model.split(FALLBACK_SEPARATOR))
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .foldLeft<Either<string, List<string>>>(Right(List.empty()))((acc, entry) =>
+      acc.flatMap((resolved) => resolveEntry(aliases, entry, seen).map((r) => resolved.add(r))),
+    )
+    .map((entries) => entries.toArray().join(` ${FALLBACK_SEPARATOR} `))
+
+/**
+ * Resolve a model argument through the alias table. Plain model IDs pass through unchanged.
+ */
+export const resolveAlias = (model: string): Either<string, string> => resolveChain(getAliases(), model, List.empty())
+
+/**
+ * Look up a panel's members by name (without the @ prefix)
+ */
+const getPanelModels = (name: string): Option<Promise<List<string>>> =>
+  resolvePanelRef(name).fold(
+    () => Option(BUILTIN_PANELS[name]).map((load) => load()),
+    (models) => Option(Promise.resolve(models)),
+  )
+
+/**
+ * Names of all panels, config file panels first
+ */
+const getPanelNames = (): List<string> =>
+  List([...Object.keys(getConfig().panels ?? {}), ...Object.keys(BUILTIN_PANELS)]).distinct()
+
+/**
+ * Resolve a panel's members through the alias table. A repeated member is kept:
+ * each is a seat of its own, as in the free panel's three auto-routed seats.
+ */
+export const resolvePanel = (members: List<string>): Either<string, List<string>> =>
+  members.foldLeft<Either<string, List<string>>>(Right(List.empty()))((acc, member) =>
+    acc.flatMap((resolved) => resolveAlias(member).map((m) => resolved.add(m))),
+  )
+
+/**
+ * Expand a list of model arguments: @panel references become their members and
+ * every entry is resolved through the alias table. A model an earlier argument
+ * already brought in is dropped; repeats within one panel are kept.
+ */
+export const expandModels = async (models: List<string>): Promise<Either<string, List<string>>> => {
+  const expanded = await Promise.all(
+    models.toArray().map(async (model): Promise<Either<string, List<string>>> => {
+      const trimmed = model.trim()
+      if (!trimmed.startsWith(PANEL_PREFIX)) return resolveAlias(model).map((m) => List.of(m))
+
+      const name = trimmed.slice(PANEL_PREFIX.length)
+      const members = getPanelModels(name)
+      if (!Option.isSome(members)) {
+        return Left(`Unknown panel ${trimmed}. Available panels: ${getPanelNames().toArray().join(", ")}`)
+      }
+
+      return resolvePanel(await members.value)
+    }),
+  )
+
+  return expanded.reduce<Either<string, List<string>>>(
+    (acc, entry) => acc.flatMap((all) => entry.map((models) => all.concat(models.filter((m) => !all.contains(m))))),
+    Right(List.empty()),
+  )
+}
+
+/**
+ * A panel and the models it currently expands to
+ */
+export type PanelExpansion = {
+  readonly name: string
+  readonly models: List<string>
+  readonly error?: string
+}
+
+/**
+ * Every panel with the models it currently expands to
+ */
+export const listPanels = async (): Promise<List<PanelExpansion>> => {
+  const panels = await Promise.all(
+    getPanelNames()
+      .toArray()
+      .map(async (name) =>
+        (await expandModels(List.of(`${PANEL_PREFIX}${name}`))).fold(
+          (error): PanelExpansion => ({ name, models: List.empty(), error }),
+          (models): PanelExpansion => ({ name, models }),
+        ),
+      ),
+  )
+  return List(panels)
+}
+
+/**
+ * Generation settings attached to a model in the config file's panels.
+ * Entries match by the model as written or by what their alias resolves to.
+ */
+export const getModelParams = (model: string): GenerationParams =>
+  Option(
+    [...getPanelModelSettings()].find(
+      ([entry]) =>
+        entry === model ||
+        resolveAlias(entry).fold(
+          () => false,
+          (resolved) => resolved === model,
+        ),
+    ),
+  )
+    .map(([, params]) => params)
+    .orElse({})
@@ -0,0 +1,148 @@
+/**
+ * Persistent response cache for model queries
+ *
+ * Content-addressed: the key is a SHA-256 hash of everything that determines a
+ * generation (model, system prompt, prompt, conversation history, generation
+ * parameters, requested response schema and attachments). Entries
+ * are stored as one JSON file per key, expire after a TTL, and the least recently
+ * used are evicted once the directory exceeds its size limit.
+ *
+ * Cache failures are never fatal; a broken cache behaves like a cache miss.
+ */
+
+import { createHash } from "node:crypto"
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+
+import { Option, tryCatchAsync } from "functype"
+
+import { getCacheDir, getCacheMaxBytes, getCacheTtl } from "../constants.js"
+import type { Attachment, ChatMessage, ModelResponse } from "../types.js"
+
+/**
+ * Everything that determines a model's output
+ */
+export type CacheKeyInput = {
+  readonly model: string
+  readonly prompt: string
+  readonly systemPrompt?: string
+  readonly params?: Readonly<Record<string, unknown>>
+  readonly history?: ReadonlyArray<ChatMessage>
+  readonly responseSchema?: unknown
+  readonly attachments?: ReadonlyArray<Attachment>
+}
+
+/**
+ * A stored cache entry
+ */
+type CacheEntry = {
+  readonly createdAt: number
+  readonly response: ModelResponse
+}
+
+/**
+ * JSON serialization with sorted object keys, so equal inputs hash equally
+ */
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Compute the content-addressed cache key for a query
+ */
+export const cacheKey = (input: CacheKeyInput): string =>
+  createHash("sha256")
+    .update(
+      stableStringify({
+        model: input.model,
+        systemPrompt: input.systemPrompt ?? null,
+        prompt: input.prompt,
+        params: input.params ?? {},
+        // Omitted for single-turn queries so their keys match entries written before history existed
+        history: input.history?.length ? input.history : undefined,
+        responseSchema: input.responseSchema,
+        attachments: input.attachments?.length ? input.attachments : undefined,
+      }),
+    )
+    .digest("hex")
+
+const entryPath = (key: string): string => join(getCacheDir(), `${key}.json`)
+
+/**
+ * Read a cached response, dropping it if it has expired and touching it otherwise
+ */
+export const getCachedResponse = async (key: string): Promise<Option<ModelResponse>> => {
+  const result = await tryCatchAsync(
+    async () => JSON.parse(await readFile(entryPath(key), "utf8")) as CacheEntry,
+    (error) => error,
+  )
+
+  const entry = result.toOption()
+
+  if (entry.exists((e) => Date.now() - e.createdAt > getCacheTtl())) {
+    await rm(entryPath(key), { force: true }).catch(() => undefined)
+    return Option.none()
+  }
+
+  // Eviction goes by mtime, so a hit marks the entry as recently used
+  if (Option.isSome(entry)) {
+    const now = new Date()
+    await utimes(entryPath(key), now, now).catch(() => undefined)
+  }
+
+  return entry.map((e) => e.response)
+}
+
+/**
+ * Evict the least recently used entries until the cache fits within its size limit
+ */
+const enforceSizeLimit = async (): Promise<void> => {
+  const dir = getCacheDir()
+  const names = (await readdir(dir)).filter((name) => name.endsWith(".json"))
+  const files = await Promise.all(
+    names.map(async (name) => {
+      const info = await stat(join(dir, name))
+      return { path: join(dir, name), size: info.size, mtimeMs: info.mtimeMs }
+    }),
+  )
+
+  const leastRecentFirst = [...files].sort((a, b) => a.mtimeMs - b.mtimeMs)
+  const totalBytes = files.reduce((sum, f) => sum + f.size, 0)
+  const maxBytes = getCacheMaxBytes()
+
+  const toEvict = leastRecentFirst.reduce<{ remaining: number; paths: string[] }>(
+    (acc, f) => (acc.remaining > maxBytes ? { remaining: acc.remaining - f.size, paths: [...acc.paths, f.path] } : acc),
+    { remaining: totalBytes, paths: [] },
+  ).paths
+
+  await Promise.all(toEvict.map((path) => rm(path, { force: true })))
+}
+
+/**
+ * Store a successful response under the given key
+ */
+export const setCachedResponse = async (key: string, response: ModelResponse): Promise<void> => {
+  await tryCatchAsync(
+    async () => {
+      await mkdir(getCacheDir(), { recursive: true })
+      const entry: CacheEntry = { createdAt: Date.now(), response }
+      await writeFile(entryPath(key), JSON.stringify(entry), "utf8")
+      await enforceSizeLimit()
+    },
+    (error) => error,
+  )
+}
+
+/**
+ * Remove every cached response (useful for testing)
+ */
+export const clearResponseCache = async (): Promise<void> => {
+  await rm(getCacheDir(), { recursive: true, force: true })
+}
@@ -0,0 +1,113 @@
+/**
+ * Per-provider circuit breakers
+ *
+ * After repeated transient failures a provider's circuit opens and requests
+ * fail fast (letting fallback chains move on) instead of waiting on an outage.
+ * Once the cooldown elapses a single probe request is let through: success
+ * closes the circuit, failure re-opens it.
+ */
+
+import { APICallError, RetryError } from "ai"
+
+import { getBreakerCooldown, getBreakerFailureThreshold } from "../constants.js"
+import type { ProviderType } from "../types.js"
+
+/**
+ * Circuit state
+ */
+export type CircuitState = "closed" | "open" | "half-open"
+
+/**
+ * Circuit breaker for a single provider
+ */
+export class CircuitBreaker {
+  private failures = 0
+  private openedAt = 0
+  private probing = false
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number,
+  ) {}
+
+  /**
+   * Current state, moving from open to half-open once the cooldown has elapsed
+   */
+  get state(): CircuitState {
+    if (this.failures < this.failureThreshold) return "closed"
+    return Date.now() - this.openedAt >= this.cooldownMs ? "half-open" : "open"
+  }
+
+  /**
+   * Whether a request may be sent now. In half-open state only one probe is allowed at a time.
+   */
+  tryAcquire(): boolean {
+    const state = this.state
+    if (state === "closed") return true
+    if (state === "open" || this.probing) return false
+    this.probing = true
+    return true
+  }
+
+  /**
+   * Record a successful request, closing the circuit
+   */
+  recordSuccess(): void {
+    this.failures = 0
+    this.probing = false
+  }
+
+  /**
+   * Give up a request without a verdict, e.g. because the caller cancelled it
+   */
+  abandon(): void {
+    this.probing = false
+  }
+
+  /**
+   * Record a transient failure, opening (or re-opening) the circuit at the threshold
+   */
+  recordFailure(): void {
+    this.failures++
+    this.probing = false
+    if (this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now()
+    }
+  }
+}
+
+/**
+ * Check whether an error is transient: rate limiting, server errors, timeouts or network failures
+ */
+export const isTransientError = (error: unknown): boolean => {
+  const cause = RetryError.isInstance(error) ? error.lastError : error
+  if (APICallError.isInstance(cause)) {
+    const status = cause.statusCode
+    return status === undefined || status === 408 || status === 429 || status >= 500
+  }
+  return cause instanceof Error && (cause.name === "TimeoutError" || cause.name === "AbortError")
+}
+
+/**
+ * Per-provider breaker instances, created lazily from configuration
+ */
+const breakers = new Map<ProviderType, CircuitBreaker>()
+
+/**
+ * Get or create the circuit breaker for a provider
+ */
+export const getCircuitBreaker = (provider: ProviderType): CircuitBreaker => {
+  const existing = breakers.get(provider)
+  if (existing) return existing
+
+  const breaker = new CircuitBreaker(getBreakerFailureThreshold(), getBreakerCooldown())
+  breakers.set(provider, breaker)
+  return breaker
+}
+
+/**
+ * Reset all circuit breakers (useful for testing)
+ */
+export const resetCircuitBreakers = (): void => {
+  breakers.clear()
+}
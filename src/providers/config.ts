@@ -1,36 +1,125 @@
 /**
- * Provider configuration from environment variables
+ * Provider configuration from environment variables and the config file.
+ * Environment variables take precedence.
  */
 
 import { List, Match, Option } from "functype"
 
-import { ENV_KEYS } from "../constants.js"
-import type { ProviderType } from "../types.js"
+import { getConfig, getProviderSettings } from "../config.js"
+import { DEFAULT_LOCAL_ENDPOINT, ENV_KEYS } from "../constants.js"
+import type { LocalEndpoint, ProviderType } from "../types.js"
 
 /**
- * All provider types
+ * All provider types that reach a real model. The mock provider is always available and not listed.
  */
-export const ALL_PROVIDERS: List<ProviderType> = List.of("openrouter", "openai", "anthropic", "google", "mistral")
+export const ALL_PROVIDERS: List<ProviderType> = List.of<ProviderType>(
+  "openrouter",
+  "openai",
+  "anthropic",
+  "google",
+  "mistral",
+  "local",
+)
 
 /**
- * Get the environment variable key for a provider
+ * Get the environment variable key for a provider (the mock provider has none)
  */
-const getEnvKeyForProvider = (provider: ProviderType): string =>
+const getEnvKeyForProvider = (provider: ProviderType): Option<string> =>
   Match(provider)
-    .case("openrouter", () => ENV_KEYS.OPENROUTER_API_KEY)
-    .case("openai", () => ENV_KEYS.OPENAI_API_KEY)
-    .case("anthropic", () => ENV_KEYS.ANTHROPIC_API_KEY)
-    .case("google", () => ENV_KEYS.GOOGLE_API_KEY)
-    .case("mistral", () => ENV_KEYS.MISTRAL_API_KEY)
+    .case("openrouter", () => Option<string>(ENV_KEYS.OPENROUTER_API_KEY))
+    .case("openai", () => Option<string>(ENV_KEYS.OPENAI_API_KEY))
+    .case("anthropic", () => Option<string>(ENV_KEYS.ANTHROPIC_API_KEY))
+    .case("google", () => Option<string>(ENV_KEYS.GOOGLE_API_KEY))
+    .case("mistral", () => Option<string>(ENV_KEYS.MISTRAL_API_KEY))
+    .case("local", () => Option<string>(ENV_KEYS.LOCAL_BASE_URL))
+    .case("mock", () => Option.none<string>())
     .exhaustive()
 
 /**
- * Check if a provider is configured (has API key)
+ * Environment variable holding the API key for a named local endpoint (e.g. PANEL_LOCAL_OLLAMA_API_KEY)
+ */
+const getLocalApiKeyEnv = (name: string): string =>
+  `PANEL_LOCAL_${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_API_KEY`
+
+const nonEmptyEnv = (key: string): Option<string> =>
+  Option(process.env[key])
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0)
+
+/**
+ * Get the API key for a remote provider from its environment variable or the config file
+ */
+export const getProviderApiKey = (provider: ProviderType): Option<string> =>
+  getEnvKeyForProvider(provider)
+    .flatMap(nonEmptyEnv)
+    .or(getProviderSettings(provider).flatMap((s) => Option("apiKey" in s ? s.apiKey : undefined)))
+
+/**
+ * Get configured OpenAI-compatible endpoints
+ *
+ * - PANEL_LOCAL_BASE_URL (+ optional PANEL_LOCAL_API_KEY) defines the default endpoint
+ * - PANEL_LOCAL_ENDPOINTS defines named endpoints as "name=url" pairs, comma-separated
+ *   (e.g. "ollama=http://localhost:11434/v1,vllm=http://gpu-box:8000/v1"), with
+ *   optional keys in PANEL_LOCAL_<NAME>_API_KEY
+ * - The config file's providers.local section defines the same, with environment
+ *   variables winning for the default endpoint and for endpoints of the same name
+ */
+export const getLocalEndpoints = (): List<LocalEndpoint> => {
+  const fileSettings = Option(getConfig().providers?.local)
+
+  const defaultEndpoint = nonEmptyEnv(ENV_KEYS.LOCAL_BASE_URL)
+    .or(fileSettings.flatMap((s) => Option(s.baseURL)))
+    .map(
+      (baseURL): LocalEndpoint => ({
+        name: DEFAULT_LOCAL_ENDPOINT,
+        baseURL,
+        apiKey: nonEmptyEnv(ENV_KEYS.LOCAL_API_KEY)
+          .or(fileSettings.flatMap((s) => Option(s.apiKey)))
+          .orUndefined(),
+      }),
+    )
+
+  const named = nonEmptyEnv(ENV_KEYS.LOCAL_ENDPOINTS)
+    .map((value) =>
+      List(value.split(","))
+        .map((pair) => pair.trim())
+        .filter((pair) => pair.includes("="))
+        .map((pair): LocalEndpoint => {
+          const [name = "", ...rest] = pair.split("=")
+          const endpointName = name.trim()
+          return {
+            name: endpointName,
+            baseURL: rest.join("=").trim(),
+            apiKey: nonEmptyEnv(getLocalApiKeyEnv(endpointName)).orUndefined(),
+          }
+        })
+        .filter((e) => e.name.length > 0 && e.baseURL.length > 0),
+    )
+    .orElse(List.empty<LocalEndpoint>())
+
+  const fromFile = List(Object.entries(fileSettings.flatMap((s) => Option(s.endpoints)).orElse({})))
+    .filter(([name]) => !named.exists((e) => e.name === name))
+    .map(
+      ([name, endpoint]): LocalEndpoint => ({
+        name,
+        baseURL: endpoint.baseURL,
+        apiKey: nonEmptyEnv(getLocalApiKeyEnv(name)).or(Option(endpoint.apiKey)).orUndefined(),
+      }),
+    )
+
+  const all = named.concat(fromFile)
+  return Option.isSome(defaultEndpoint) ? all.prepend(defaultEndpoint.value) : all
+}
+
+/**
+ * Check if a provider is configured (has API key, or at least one endpoint for local).
+ * The mock provider needs no configuration.
  */
 export const isProviderConfigured = (provider: ProviderType): boolean =>
-  Option(process.env[getEnvKeyForProvider(provider)])
-    .map((key) => key.length > 0)
-    .orElse(false)
+  Match(provider)
+    .case("local", () => !getLocalEndpoints().isEmpty)
+    .case("mock", () => true)
+    .default(() => !getProviderApiKey(provider).isEmpty)
 
 /**
  * Get all configured providers
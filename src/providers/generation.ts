@@ -0,0 +1,107 @@
+/**
+ * Generation settings for model calls
+ *
+ * Maps provider-neutral GenerationParams onto AI SDK call settings. Reasoning
+ * effort has no common setting, so it is translated into each provider's own
+ * option: an effort level for OpenAI and OpenRouter, a thinking budget for
+ * Anthropic and Google. Providers without a reasoning option ignore it.
+ *
+ * Callers expecting structured replies can also ask for a JSON response
+ * format, which providers with a JSON mode enforce on their side.
+ */
+
+import type { generateText, JSONSchema7, Output } from "ai"
+import { Match, Option } from "functype"
+
+import { REASONING_BUDGET_TOKENS } from "../constants.js"
+import type { GenerationParams, ProviderType, ReasoningEffort } from "../types.js"
+
+/**
+ * The subset of generateText options derived from GenerationParams
+ */
+export type CallSettings = Pick<
+  Parameters<typeof generateText>[0],
+  "temperature" | "maxOutputTokens" | "topP" | "seed" | "stopSequences" | "providerOptions"
+>
+
+type ProviderOptions = NonNullable<CallSettings["providerOptions"]>
+
+/**
+ * Provider-specific options selecting a reasoning effort
+ */
+const reasoningOptions = (provider: ProviderType, effort: ReasoningEffort): Option<ProviderOptions> =>
+  Match(provider)
+    .case("openai", () => Option<ProviderOptions>({ openai: { reasoningEffort: effort } }))
+    .case("local", () => Option<ProviderOptions>({ openai: { reasoningEffort: effort } }))
+    .case("openrouter", () => Option<ProviderOptions>({ openrouter: { reasoning: { effort } } }))
+    .case("anthropic", () =>
+      Option<ProviderOptions>({
+        anthropic: { thinking: { type: "enabled", budgetTokens: REASONING_BUDGET_TOKENS[effort] } },
+      }),
+    )
+    .case("google", () =>
+      Option<ProviderOptions>({ google: { thinkingConfig: { thinkingBudget: REASONING_BUDGET_TOKENS[effort] } } }),
+    )
+    .case("mistral", () => Option.none<ProviderOptions>())
+    .case("mock", () => Option.none<ProviderOptions>())
+    .exhaustive()
+
+/**
+ * Providers whose APIs accept a JSON response format. Self-hosted servers vary
+ * too much in what they accept, so local models rely on the prompt alone.
+ */
+const JSON_MODE_PROVIDERS: ReadonlySet<ProviderType> = new Set([
+  "openrouter",
+  "openai",
+  "anthropic",
+  "google",
+  "mistral",
+  "mock",
+])
+
+/**
+ * Output setting asking a provider for JSON matching a schema.
+ * The reply text is passed through unparsed: callers validate it themselves so
+ * malformed output can be repaired or reported rather than failing the call.
+ */
+export const jsonOutput = (provider: ProviderType, schema: JSONSchema7): Option<Output.Output<string, string, never>> =>
+  Option(provider)
+    .filter((p) => JSON_MODE_PROVIDERS.has(p))
+    .map(
+      (): Output.Output<string, string, never> => ({
+        name: "json",
+        responseFormat: Promise.resolve({ type: "json" as const, schema }),
+        parseCompleteOutput: ({ text }) => Promise.resolve(text),
+        parsePartialOutput: ({ text }) => Promise.resolve({ partial: text }),
+        createElementStreamTransform: () => undefined,
+      }),
+    )
+
+/**
+ * Merge generation params, later layers overriding earlier ones field by field
+ */
+export const mergeParams = (...layers: ReadonlyArray<GenerationParams | undefined>): GenerationParams =>
+  layers.reduce<GenerationParams>(
+    (merged, layer) => ({
+      ...merged,
+      ...Object.fromEntries(Object.entries(layer ?? {}).filter(([, value]) => value !== undefined)),
+    }),
+    {},
+  )
+
+/**
+ * Convert generation params into generateText settings for a provider
+ */
+export const toCallSettings = (provider: ProviderType, params: GenerationParams): CallSettings => {
+  const providerOptions = Option(params.reasoningEffort)
+    .flatMap((effort) => reasoningOptions(provider, effort))
+    .orUndefined()
+  return {
+    ...(params.temperature !== undefined && { temperature: params.temperature }),
+    ...(params.maxTokens !== undefined && { maxOutputTokens: params.maxTokens }),
+    ...(params.topP !== undefined && { topP: params.topP }),
+    ...(params.seed !== undefined && { seed: params.seed }),
+    ...(params.stopSequences && { stopSequences: [...params.stopSequences] }),
+    ...(providerOptions && { providerOptions }),
+  }
+}
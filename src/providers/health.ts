@@ -0,0 +1,265 @@
+/**
+ * Provider health checks
+ *
+ * A shallow check only reports which providers have credentials. A deep check
+ * sends a minimal request to every configured provider in parallel, under a
+ * short timeout, so a wrong or expired key, an exhausted quota or active rate
+ * limiting shows up before a long workflow rather than in the middle of it.
+ *
+ * Remote providers are probed with a one-token completion; local endpoints are
+ * probed by listing their models unless a probe model is given. Deep results
+ * are cached briefly so repeated checks don't spend tokens.
+ */
+
+import { APICallError, generateText, RetryError } from "ai"
+import { List, Option, tryCatchAsync } from "functype"
+
+import { getProviderSettings } from "../config.js"
+import { DEFAULT_PROBE_MODELS, getHealthCacheTtl, getProbeTimeout, PROVIDER_PREFIXES } from "../constants.js"
+import type { HealthCheckResult, LocalEndpoint, ProbeFailure, ProviderHealth, ProviderType } from "../types.js"
+import { ALL_PROVIDERS, getLocalEndpoints, isProviderConfigured } from "./config.js"
+import { resolveModel } from "./index.js"
+
+/**
+ * Options for a health check
+ */
+export type HealthCheckOptions = {
+  /**
+   * Send a real request to each configured provider
+   */
+  readonly deep?: boolean
+  /**
+   * Probe model per provider, overriding the configured and built-in defaults
+   */
+  readonly probeModels?: Partial<Readonly<Record<ProviderType, string>>>
+  /**
+   * Ignore cached probe results
+   */
+  readonly refresh?: boolean
+}
+
+/**
+ * Outcome of a failed probe
+ */
+type ProbeError = {
+  readonly status: ProviderHealth["status"]
+  readonly failure: ProbeFailure
+  readonly error: string
+  readonly rateLimit?: Readonly<Record<string, string>>
+}
+
+/**
+ * Cached deep results, keyed by provider and probe model
+ */
+const probeCache = new Map<string, { expiresAt: number; health: ProviderHealth }>()
+
+/**
+ * Clear cached probe results (useful for testing)
+ */
+export const clearHealthCache = (): void => {
+  probeCache.clear()
+}
+
+/**
+ * Keep only rate-limit related response headers
+ */
+const pickRateLimitHeaders = (headers?: Readonly<Record<string, string | undefined>>): Option<Record<string, string>> =>
+  Option(headers)
+    .map((h) =>
+      Object.fromEntries(
+        Object.entries(h).filter(
+          (entry): entry is [string, string] => entry[1] !== undefined && /ratelimit|retry-after/i.test(entry[0]),
+        ),
+      ),
+    )
+    .filter((h) => Object.keys(h).length > 0)
+
+const QUOTA_PATTERN = /quota|credit|billing|insufficient|payment/i
+
+/**
+ * Classify an HTTP failure status
+ */
+const classifyStatus = (statusCode: number, body: string): ProbeFailure =>
+  statusCode === 401 || statusCode === 403
+    ? "auth"
+    : statusCode === 402
+      ? "quota"
+      : statusCode === 429
+        ? QUOTA_PATTERN.test(body)
+          ? "quota"
+          : "rate_limited"
+        : statusCode === 408
+          ? "timeout"
+          : "error"
+
+/**
+ * Classify a probe error as an auth, quota, rate-limit, timeout or network failure
+ */
+export const classifyProbeError = (error: unknown): ProbeError => {
+  const cause = RetryError.isInstance(error) ? error.lastError : error
+  const message = cause instanceof Error ? cause.message : String(cause)
+
+  if (APICallError.isInstance(cause) && cause.statusCode !== undefined) {
+    const failure = classifyStatus(cause.statusCode, `${cause.message} ${cause.responseBody ?? ""}`)
+    const rateLimit = pickRateLimitHeaders(cause.responseHeaders).orUndefined()
+    return {
+      status: failure === "rate_limited" ? "degraded" : "unhealthy",
+      failure,
+      error: message,
+      ...(rateLimit && { rateLimit }),
+    }
+  }
+
+  const failure: ProbeFailure =
+    cause instanceof Error && (cause.name === "TimeoutError" || cause.name === "AbortError")
+      ? "timeout"
+      : /fetch failed|ECONNREFUSED|ENOTFOUND|ECONNRESET|EAI_AGAIN|network/i.test(
+            `${message} ${cause instanceof Error && cause.cause instanceof Error ? cause.cause.message : ""}`,
+          )
+        ? "network"
+        : "error"
+
+  return { status: "unhealthy", failure, error: message }
+}
+
+/**
+ * Pick the probe model for a provider: explicit option, config file, then built-in default.
+ * Bare model IDs are prefixed with the provider.
+ */
+const getProbeModel = (provider: ProviderType, options: HealthCheckOptions): Option<string> =>
+  Option(options.probeModels?.[provider])
+    .or(getProviderSettings(provider).flatMap((s) => Option("probeModel" in s ? s.probeModel : undefined)))
+    .or(provider === "local" ? Option.none<string>() : Option<string>(DEFAULT_PROBE_MODELS[provider]))
+    .map((model) => (model.startsWith(PROVIDER_PREFIXES[provider]) ? model : `${PROVIDER_PREFIXES[provider]}${model}`))
+
+/**
+ * Send a one-token completion to a model
+ */
+const probeModel = async (provider: ProviderType, model: string): Promise<ProviderHealth> => {
+  const languageModel = resolveModel(model)
+  if (languageModel.isLeft()) {
+    return { provider, status: "unhealthy", probed: false, model, failure: "error", error: languageModel.value }
+  }
+
+  const startTime = Date.now()
+  const result = await tryCatchAsync(
+    () =>
+      generateText({
+        model: languageModel.orThrow(),
+        prompt: "ping",
+        maxOutputTokens: 1,
+        maxRetries: 0,
+        abortSignal: AbortSignal.timeout(getProbeTimeout()),
+      }),
+    classifyProbeError,
+  )
+  const latencyMs = Date.now() - startTime
+
+  return result.fold(
+    (probeError): ProviderHealth => ({ provider, probed: true, model, latencyMs, ...probeError }),
+    (response): ProviderHealth => {
+      const rateLimit = pickRateLimitHeaders(response.response.headers).orUndefined()
+      return { provider, status: "healthy", probed: true, model, latencyMs, ...(rateLimit && { rateLimit }) }
+    },
+  )
+}
+
+/**
+ * List an OpenAI-compatible endpoint's models
+ */
+const probeEndpoint = async (endpoint: LocalEndpoint): Promise<Option<ProbeError>> => {
+  const result = await tryCatchAsync(async () => {
+    const response = await fetch(`${endpoint.baseURL.replace(/\/+$/, "")}/models`, {
+      headers: endpoint.apiKey ? { Authorization: `Bearer ${endpoint.apiKey}` } : {},
+      signal: AbortSignal.timeout(getProbeTimeout()),
+    })
+    return { status: response.status, ok: response.ok, body: response.ok ? "" : await response.text() }
+  }, classifyProbeError)
+
+  return result.fold(
+    (probeError) => Option({ ...probeError, error: `${endpoint.name}: ${probeError.error}` }),
+    ({ ok, status, body }) => {
+      if (ok) return Option.none<ProbeError>()
+      const failure = classifyStatus(status, body)
+      return Option<ProbeError>({
+        status: failure === "rate_limited" ? "degraded" : "unhealthy",
+        failure,
+        error: `${endpoint.name}: HTTP ${status}`,
+      })
+    },
+  )
+}
+
+/**
+ * Probe every local endpoint; the first failure is reported
+ */
+const probeLocalEndpoints = async (): Promise<ProviderHealth> => {
+  const startTime = Date.now()
+  const failures = List(await Promise.all(getLocalEndpoints().toArray().map(probeEndpoint))).flatMap((f) =>
+    f.fold(
+      () => List.empty<ProbeError>(),
+      (e) => List.of(e),
+    ),
+  )
+  const latencyMs = Date.now() - startTime
+
+  return Option(failures.head).fold(
+    (): ProviderHealth => ({ provider: "local", status: "healthy", probed: true, latencyMs }),
+    (failure): ProviderHealth => ({ provider: "local", probed: true, latencyMs, ...failure }),
+  )
+}
+
+/**
+ * Deep-check one provider, reusing a recent result unless a refresh is requested
+ */
+const probeProvider = async (provider: ProviderType, options: HealthCheckOptions): Promise<ProviderHealth> => {
+  const model = getProbeModel(provider, options)
+  const key = `${provider}|${model.orElse("")}`
+  const cached = probeCache.get(key)
+
+  if (cached && !options.refresh && cached.expiresAt > Date.now()) {
+    return { ...cached.health, cached: true }
+  }
+
+  const health: ProviderHealth = {
+    ...(await model.fold(
+      () => probeLocalEndpoints(),
+      (m) => probeModel(provider, m),
+    )),
+    checkedAt: new Date().toISOString(),
+  }
+
+  probeCache.set(key, { expiresAt: Date.now() + getHealthCacheTtl(), health })
+  return health
+}
+
+/**
+ * Check every provider, probing configured ones in parallel when a deep check is requested
+ */
+export const checkHealth = async (options: HealthCheckOptions = {}): Promise<HealthCheckResult> => {
+  const providers = List(
+    await Promise.all(
+      ALL_PROVIDERS.toArray().map(
+        (provider): Promise<ProviderHealth> =>
+          !isProviderConfigured(provider)
+            ? Promise.resolve({ provider, status: "unconfigured" })
+            : options.deep
+              ? probeProvider(provider, options)
+              : Promise.resolve({ provider, status: "healthy", probed: false }),
+      ),
+    ),
+  )
+
+  const configured = providers.filter((h) => h.status !== "unconfigured")
+  const healthyCount = configured.filter((h) => h.status === "healthy").size
+  const usableCount = configured.filter((h) => h.status === "healthy" || h.status === "degraded").size
+
+  const status =
+    healthyCount === configured.size && configured.size > 0
+      ? ("healthy" as const)
+      : usableCount > 0
+        ? ("degraded" as const)
+        : ("unhealthy" as const)
+
+  return { status, providers, timestamp: new Date().toISOString() }
+}
@@ -1,9 +1,11 @@
 /**
  * Provider registry and model resolution
  *
- * Dual-mode provider system:
+ * Provider modes:
  * 1. OpenRouter mode: Use openrouter/ prefix for any of 300+ models
  * 2. Direct mode: Use provider prefix for direct API calls (lower latency)
+ * 3. Local mode: Use local/ prefix for OpenAI-compatible endpoints (Ollama, vLLM, LM Studio, llama.cpp)
+ * 4. Mock mode: Use mock/ prefix for scripted offline replies (see ./mock.ts)
  */
 
 import { createAnthropic } from "@ai-sdk/anthropic"
@@ -11,15 +13,41 @@ import { createGoogleGenerativeAI } from "@ai-sdk/google"
 import { createMistral } from "@ai-sdk/mistral"
 import { createOpenAI } from "@ai-sdk/openai"
 import { createOpenRouter } from "@openrouter/ai-sdk-provider"
-import type { LanguageModel } from "ai"
+import type { FilePart, ImagePart, JSONSchema7, LanguageModel, UserContent } from "ai"
 import { generateText } from "ai"
 import type { Either } from "functype"
 import { Left, List, Match, Option, Right, tryCatchAsync } from "functype"
 
-import { ENV_KEYS, getRequestTimeout, PROVIDER_PREFIXES } from "../constants.js"
-import type { ModelError, ModelResponse, ProviderType, QueryResult } from "../types.js"
-import { isProviderConfigured } from "./config.js"
+import { anySignal, getRequestSignal } from "../cancellation.js"
+import {
+  DEFAULT_LOCAL_ENDPOINT,
+  FALLBACK_SEPARATOR,
+  getModelTimeout,
+  getRecordingMode,
+  isCacheEnabled,
+  PROVIDER_PREFIXES,
+} from "../constants.js"
+import {
+  type Attachment,
+  type ChatMessage,
+  type GenerationParams,
+  isModelError,
+  type LocalEndpoint,
+  type ModelError,
+  type ModelResponse,
+  type ProviderType,
+  type QueryResult,
+} from "../types.js"
+import { getModelParams } from "./aliases.js"
+import { cacheKey, getCachedResponse, setCachedResponse } from "./cache.js"
+import { getCircuitBreaker, isTransientError } from "./circuit-breaker.js"
+import { getLocalEndpoints, getProviderApiKey, isProviderConfigured } from "./config.js"
+import { jsonOutput, mergeParams, toCallSettings } from "./generation.js"
+import { resolveMockModel } from "./mock.js"
+import { warmModelCache } from "./openrouter-models.js"
+import { estimateAttachmentTokens, estimateTokens, priceUsage, toCatalogIds, toTokenUsage } from "./pricing.js"
 import { withRateLimit } from "./rate-limiter.js"
+import { recordResult, replayResult, summarizeAttachments } from "./recording.js"
 
 /**
  * Lazy-initialized provider instances
@@ -30,9 +58,10 @@ type ProviderInstances = {
   anthropic?: ReturnType<typeof createAnthropic>
   google?: ReturnType<typeof createGoogleGenerativeAI>
   mistral?: ReturnType<typeof createMistral>
+  local: Map<string, ReturnType<typeof createOpenAI>>
 }
 
-const providers: ProviderInstances = {}
+const providers: ProviderInstances = { local: new Map() }
 
 /**
  * Get or create OpenRouter provider
@@ -40,7 +69,7 @@ const providers: ProviderInstances = {}
 const getOpenRouterProvider = (): Option<ReturnType<typeof createOpenRouter>> => {
   if (!isProviderConfigured("openrouter")) return Option.none()
   providers.openrouter ??= createOpenRouter({
-    apiKey: process.env[ENV_KEYS.OPENROUTER_API_KEY],
+    apiKey: getProviderApiKey("openrouter").orUndefined(),
   })
   return Option(providers.openrouter)
 }
@@ -51,7 +80,7 @@ const getOpenRouterProvider = (): Option<ReturnType<typeof createOpenRouter>> =>
 const getOpenAIProvider = (): Option<ReturnType<typeof createOpenAI>> => {
   if (!isProviderConfigured("openai")) return Option.none()
   providers.openai ??= createOpenAI({
-    apiKey: process.env[ENV_KEYS.OPENAI_API_KEY],
+    apiKey: getProviderApiKey("openai").orUndefined(),
   })
   return Option(providers.openai)
 }
@@ -62,7 +91,7 @@ const getOpenAIProvider = (): Option<ReturnType<typeof createOpenAI>> => {
 const getAnthropicProvider = (): Option<ReturnType<typeof createAnthropic>> => {
   if (!isProviderConfigured("anthropic")) return Option.none()
   providers.anthropic ??= createAnthropic({
-    apiKey: process.env[ENV_KEYS.ANTHROPIC_API_KEY],
+    apiKey: getProviderApiKey("anthropic").orUndefined(),
   })
   return Option(providers.anthropic)
 }
@@ -73,7 +102,7 @@ const getAnthropicProvider = (): Option<ReturnType<typeof createAnthropic>> => {
 const getGoogleProvider = (): Option<ReturnType<typeof createGoogleGenerativeAI>> => {
   if (!isProviderConfigured("google")) return Option.none()
   providers.google ??= createGoogleGenerativeAI({
-    apiKey: process.env[ENV_KEYS.GOOGLE_API_KEY],
+    apiKey: getProviderApiKey("google").orUndefined(),
   })
   return Option(providers.google)
 }
@@ -84,11 +113,65 @@ const getGoogleProvider = (): Option<ReturnType<typeof createGoogleGenerativeAI>
 const getMistralProvider = (): Option<ReturnType<typeof createMistral>> => {
   if (!isProviderConfigured("mistral")) return Option.none()
   providers.mistral ??= createMistral({
-    apiKey: process.env[ENV_KEYS.MISTRAL_API_KEY],
+    apiKey: getProviderApiKey("mistral").orUndefined(),
   })
   return Option(providers.mistral)
 }
 
+/**
+ * Placeholder key for local endpoints that do not require authentication
+ */
+const LOCAL_NO_API_KEY = "not-needed"
+
+/**
+ * Get or create the OpenAI-compatible provider for a local endpoint.
+ * Providers are keyed by name and URL so configuration changes take effect.
+ */
+const getLocalProvider = (endpoint: LocalEndpoint): ReturnType<typeof createOpenAI> => {
+  const key = `${endpoint.name}|${endpoint.baseURL}`
+  const existing = providers.local.get(key)
+  if (existing) return existing
+
+  const provider = createOpenAI({
+    name: `local.${endpoint.name}`,
+    baseURL: endpoint.baseURL,
+    apiKey: endpoint.apiKey ?? LOCAL_NO_API_KEY,
+  })
+  providers.local.set(key, provider)
+  return provider
+}
+
+/**
+ * Resolve a local model path to an endpoint and model ID
+ *
+ * Examples (with endpoints "default" and "ollama" configured):
+ * - "ollama/llama3.1" -> { endpoint: ollama, model: "llama3.1" }
+ * - "meta-llama/Llama-3.1-8B" -> { endpoint: default, model: "meta-llama/Llama-3.1-8B" }
+ */
+const resolveLocalModel = (modelPath: string): Either<string, LanguageModel> => {
+  const endpoints = getLocalEndpoints()
+  const [first = "", ...rest] = modelPath.split("/")
+
+  const named = endpoints
+    .find((e) => e.name === first && e.name !== DEFAULT_LOCAL_ENDPOINT && rest.length > 0)
+    .map((endpoint) => ({ endpoint, model: rest.join("/") }))
+
+  const target = Option.isSome(named)
+    ? named
+    : endpoints.find((e) => e.name === DEFAULT_LOCAL_ENDPOINT).map((endpoint) => ({ endpoint, model: modelPath }))
+
+  return target
+    .map(({ endpoint, model }) => getLocalProvider(endpoint).chat(model) as LanguageModel)
+    .toEither(
+      endpoints.isEmpty
+        ? "No local endpoint configured. Set PANEL_LOCAL_BASE_URL or PANEL_LOCAL_ENDPOINTS."
+        : `No local endpoint matches "${modelPath}". Use local/<endpoint>/<model> with one of: ${endpoints
+            .map((e) => e.name)
+            .toArray()
+            .join(", ")}, or set PANEL_LOCAL_BASE_URL for a default endpoint.`,
+    )
+}
+
 /**
  * Parsed model information
  */
@@ -104,6 +187,8 @@ type ParsedModel = {
  * - "openrouter/anthropic/claude-sonnet-4" -> { provider: "openrouter", model: "anthropic/claude-sonnet-4" }
  * - "openai/gpt-4o" -> { provider: "openai", model: "gpt-4o" }
  * - "anthropic/claude-sonnet-4-20250514" -> { provider: "anthropic", model: "claude-sonnet-4-20250514" }
+ * - "local/ollama/llama3.1" -> { provider: "local", model: "ollama/llama3.1" }
+ * - "mock/echo?latency=500" -> { provider: "mock", model: "echo?latency=500" }
  */
 const parseModelString = (modelString: string): Either<string, ParsedModel> => {
   // Check for openrouter/ prefix first (it contains nested provider)
@@ -135,61 +220,310 @@ const parseModelString = (modelString: string): Either<string, ParsedModel> => {
     )
 }
 
+/**
+ * A language model together with the provider that will actually serve it
+ */
+type ResolvedModel = {
+  readonly provider: ProviderType
+  readonly languageModel: LanguageModel
+}
+
 /**
  * Try to get model from direct provider, falling back to OpenRouter
  */
 const getModelWithFallback = <T>(
+  provider: ProviderType,
   directProvider: Option<T>,
   getModel: (provider: T) => LanguageModel,
   openRouterModelPath: string,
-): Option<LanguageModel> => {
-  const direct = directProvider.map(getModel)
+): Option<ResolvedModel> => {
+  const direct = directProvider.map((p): ResolvedModel => ({ provider, languageModel: getModel(p) }))
   if (Option.isSome(direct)) return direct
-  return getOpenRouterProvider().map((or) => or(openRouterModelPath) as LanguageModel)
+  return getOpenRouterProvider().map(
+    (or): ResolvedModel => ({ provider: "openrouter", languageModel: or(openRouterModelPath) as LanguageModel }),
+  )
 }
 
 /**
- * Resolve a model string to a language model instance
+ * Resolve a model string to a language model and the provider serving it
  */
-export const resolveModel = (modelString: string): Either<string, LanguageModel> => {
+const resolveProviderModel = (modelString: string): Either<string, ResolvedModel> => {
   return parseModelString(modelString).flatMap(({ provider, model }) =>
     Match(provider)
       .case("openrouter", () =>
         getOpenRouterProvider()
-          .map((openrouter) => openrouter(model) as LanguageModel)
+          .map((openrouter): ResolvedModel => ({ provider, languageModel: openrouter(model) as LanguageModel }))
           .toEither("OpenRouter API key not configured. Set OPENROUTER_API_KEY environment variable."),
       )
       .case("openai", () =>
-        getModelWithFallback(getOpenAIProvider(), (openai) => openai(model), `openai/${model}`).toEither(
+        getModelWithFallback(provider, getOpenAIProvider(), (openai) => openai(model), `openai/${model}`).toEither(
           "OpenAI API key not configured. Set OPENAI_API_KEY or OPENROUTER_API_KEY.",
         ),
       )
       .case("anthropic", () =>
-        getModelWithFallback(getAnthropicProvider(), (anthropic) => anthropic(model), `anthropic/${model}`).toEither(
-          "Anthropic API key not configured. Set ANTHROPIC_API_KEY or OPENROUTER_API_KEY.",
-        ),
+        getModelWithFallback(
+          provider,
+          getAnthropicProvider(),
+          (anthropic) => anthropic(model),
+          `anthropic/${model}`,
+        ).toEither("Anthropic API key not configured. Set ANTHROPIC_API_KEY or OPENROUTER_API_KEY."),
       )
       .case("google", () =>
-        getModelWithFallback(getGoogleProvider(), (google) => google(model), `google/${model}`).toEither(
+        getModelWithFallback(provider, getGoogleProvider(), (google) => google(model), `google/${model}`).toEither(
           "Google API key not configured. Set GOOGLE_GENERATIVE_AI_API_KEY or OPENROUTER_API_KEY.",
         ),
       )
       .case("mistral", () =>
-        getModelWithFallback(getMistralProvider(), (mistral) => mistral(model), `mistralai/${model}`).toEither(
-          "Mistral API key not configured. Set MISTRAL_API_KEY or OPENROUTER_API_KEY.",
-        ),
+        getModelWithFallback(
+          provider,
+          getMistralProvider(),
+          (mistral) => mistral(model),
+          `mistralai/${model}`,
+        ).toEither("Mistral API key not configured. Set MISTRAL_API_KEY or OPENROUTER_API_KEY."),
+      )
+      .case("local", () =>
+        resolveLocalModel(model).map((languageModel): ResolvedModel => ({ provider, languageModel })),
       )
+      .case("mock", () => resolveMockModel(model).map((languageModel): ResolvedModel => ({ provider, languageModel })))
       .exhaustive(),
   )
 }
 
 /**
- * Query a single model with rate limiting
+ * Resolve a model string to a language model instance
+ */
+export const resolveModel = (modelString: string): Either<string, LanguageModel> =>
+  resolveProviderModel(modelString).map((resolved) => resolved.languageModel)
+
+/**
+ * Split a model slot into its fallback chain
+ *
+ * Examples:
+ * - "openai/gpt-4o" -> ["openai/gpt-4o"]
+ * - "anthropic/claude-sonnet-4 -> openrouter/openrouter/free" -> ["anthropic/claude-sonnet-4", "openrouter/openrouter/free"]
+ */
+export const parseFallbackChain = (modelString: string): List<string> =>
+  List(
+    modelString
+      .split(FALLBACK_SEPARATOR)
+      .map((m) => m.trim())
+      .filter((m) => m.length > 0),
+  )
+
+/**
+ * Candidate OpenRouter catalog IDs for a model string, used for catalog lookups.
+ * For fallback chains these are the primary model's; budget estimates price every entry.
+ * Replay mode never touches a provider, so it looks nothing up and none are returned.
+ */
+export const getCatalogIds = (modelString: string): List<string> =>
+  getRecordingMode() === "replay"
+    ? List.empty()
+    : parseModelString(parseFallbackChain(modelString).head ?? modelString)
+        .map(({ provider, model }) => toCatalogIds(provider, model))
+        .orElse(List.empty())
+
+/**
+ * Providers that never bill: self-hosted endpoints and the mock provider
+ */
+const UNBILLED_PROVIDERS: ReadonlySet<ProviderType> = new Set(["local", "mock"])
+
+/**
+ * Check whether a model string targets an unbilled provider. A fallback chain is unbilled
+ * only if every entry is, since any of them may end up answering. In replay mode every
+ * model is unbilled: answers come from recordings.
+ */
+export const isUnbilledModel = (modelString: string): boolean => {
+  if (getRecordingMode() === "replay") return true
+  const chain = parseFallbackChain(modelString)
+  return (chain.isEmpty ? List.of(modelString) : chain).toArray().every((entry) =>
+    parseModelString(entry)
+      .map((parsed) => UNBILLED_PROVIDERS.has(parsed.provider))
+      .orElse(false),
+  )
+}
+
+/**
+ * Per-call options for model queries
+ */
+export type QueryOptions = {
+  /**
+   * Skip the response cache for this call (neither read nor write)
+   */
+  readonly bypassCache?: boolean
+  /**
+   * Generation settings, layered over any the config file's panels attach to the model
+   */
+  readonly params?: GenerationParams
+  /**
+   * Earlier turns of a conversation; the prompt is sent as the next user message
+   */
+  readonly history?: ReadonlyArray<ChatMessage>
+  /**
+   * JSON Schema the reply should match, enforced by providers that have a JSON mode.
+   * The reply is still returned as text for the caller to validate.
+   */
+  readonly responseSchema?: JSONSchema7
+  /**
+   * Images and PDFs sent with the prompt
+   */
+  readonly attachments?: ReadonlyArray<Attachment>
+  /**
+   * Abandons the call when aborted. Defaults to the signal of the tool call being served,
+   * so a client cancelling a tool call stops its model calls.
+   */
+  readonly abortSignal?: AbortSignal
+}
+
+/**
+ * The caller's abort signal for a query, if any
  */
-export const queryModel = async (modelString: string, prompt: string, systemPrompt?: string): Promise<QueryResult> => {
+const callerSignal = (options: QueryOptions): AbortSignal | undefined =>
+  options.abortSignal ?? getRequestSignal().orUndefined()
+
+const cancelledError = (model: string): ModelError => ({ model, error: "Cancelled before the model responded" })
+
+/**
+ * Query a model slot, walking its fallback chain on transient failures.
+ * Entries whose provider cannot be resolved (e.g. missing API key) are skipped.
+ * In record mode the slot's result is saved; in replay mode it comes from the recording instead.
+ */
+export const queryModel = async (
+  modelString: string,
+  prompt: string,
+  systemPrompt?: string,
+  options: QueryOptions = {},
+): Promise<QueryResult> => {
+  const params = mergeParams(getModelParams(modelString), options.params)
+  const mode = getRecordingMode()
+  if (mode === "off") return querySlot(modelString, prompt, systemPrompt, params, options)
+
+  const key = cacheKey({
+    model: modelString,
+    prompt,
+    systemPrompt,
+    params,
+    history: options.history,
+    responseSchema: options.responseSchema,
+    attachments: options.attachments,
+  })
+  if (mode === "replay") return replayResult(key, modelString)
+
+  const result = await querySlot(modelString, prompt, systemPrompt, params, options)
+  // A cancelled call says nothing about the model, so it isn't worth replaying
+  if (callerSignal(options)?.aborted) return result
+
+  await recordResult(
+    key,
+    {
+      model: modelString,
+      prompt,
+      ...(systemPrompt !== undefined && { systemPrompt }),
+      params,
+      ...(options.history?.length && { history: options.history }),
+      ...(options.responseSchema !== undefined && { responseSchema: options.responseSchema }),
+      ...(options.attachments?.length && { attachments: summarizeAttachments(options.attachments) }),
+    },
+    result,
+  )
+  return result
+}
+
+/**
+ * Query a model slot's fallback chain
+ */
+const querySlot = async (
+  modelString: string,
+  prompt: string,
+  systemPrompt: string | undefined,
+  params: GenerationParams,
+  options: QueryOptions,
+): Promise<QueryResult> => {
+  const chain = parseFallbackChain(modelString)
+  if (chain.size <= 1) return queryCachedModel(modelString, prompt, systemPrompt, params, options)
+
+  const tryEntries = async (entries: List<string>, failures: List<string>): Promise<QueryResult> => {
+    const entry = entries.head
+    if (callerSignal(options)?.aborted) return cancelledError(modelString)
+    if (entry === undefined) {
+      return { model: modelString, error: `All fallbacks failed: ${failures.toArray().join("; ")}`, retryable: true }
+    }
+
+    const resolvable = resolveProviderModel(entry).isRight()
+    const result = await queryCachedModel(entry, prompt, systemPrompt, params, options)
+
+    if (!isModelError(result)) return { ...result, model: modelString, servedBy: entry }
+    if (resolvable && !result.retryable) return { ...result, model: modelString }
+    return tryEntries(entries.tail, failures.add(`${entry}: ${result.error}`))
+  }
+
+  return tryEntries(chain, List.empty())
+}
+
+/**
+ * Query a single model, consulting the response cache when enabled
+ */
+const queryCachedModel = async (
+  modelString: string,
+  prompt: string,
+  systemPrompt: string | undefined,
+  params: GenerationParams,
+  options: QueryOptions,
+): Promise<QueryResult> => {
+  const useCache = isCacheEnabled() && !options.bypassCache
+  const key = cacheKey({
+    model: modelString,
+    prompt,
+    systemPrompt,
+    params,
+    history: options.history,
+    responseSchema: options.responseSchema,
+    attachments: options.attachments,
+  })
+
+  if (useCache) {
+    const lookupStart = Date.now()
+    const cached = await getCachedResponse(key)
+    if (Option.isSome(cached)) {
+      return { ...cached.value, latencyMs: Date.now() - lookupStart, costUsd: 0, cached: true }
+    }
+  }
+
+  const response = await queryModelUncached(modelString, prompt, systemPrompt, params, options)
+  if (useCache && !isModelError(response)) await setCachedResponse(key, response)
+  return response
+}
+
+/**
+ * Message content for a prompt, with any attachments as image or file parts
+ */
+const toUserContent = (prompt: string, attachments: ReadonlyArray<Attachment>): UserContent =>
+  attachments.length === 0
+    ? prompt
+    : [
+        { type: "text", text: prompt },
+        ...attachments.map((a): ImagePart | FilePart =>
+          a.mediaType.startsWith("image/")
+            ? { type: "image", image: a.data, mediaType: a.mediaType }
+            : { type: "file", data: a.data, mediaType: a.mediaType, ...(a.filename && { filename: a.filename }) },
+        ),
+      ]
+
+/**
+ * Query a single model with rate limiting and circuit breaking
+ */
+const queryModelUncached = async (
+  modelString: string,
+  prompt: string,
+  systemPrompt: string | undefined,
+  params: GenerationParams,
+  options: QueryOptions,
+): Promise<QueryResult> => {
   const startTime = Date.now()
+  const history = options.history ?? []
+  const signal = callerSignal(options)
+  if (signal?.aborted) return cancelledError(modelString)
 
-  const modelResult = resolveModel(modelString)
+  const modelResult = resolveProviderModel(modelString)
 
   if (modelResult.isLeft()) {
     return {
@@ -201,44 +535,125 @@ export const queryModel = async (modelString: string, prompt: string, systemProm
     }
   }
 
-  const model = modelResult.fold(
+  const { provider, languageModel } = modelResult.fold(
     () => null as never,
     (m) => m,
   )
 
+  const breaker = getCircuitBreaker(provider)
+  if (!breaker.tryAcquire()) {
+    return {
+      model: modelString,
+      error: `Circuit open for provider ${provider} after repeated failures; retrying later`,
+      retryable: true,
+    }
+  }
+
+  // Load the catalog alongside the generation so pricing the response needn't wait on it
+  if (!UNBILLED_PROVIDERS.has(provider)) warmModelCache()
+
+  // The time limit covers any wait in the rate limiter's queues as well as the generation
+  const abortSignal = anySignal(AbortSignal.timeout(getModelTimeout(modelString)), signal)
+
   const result = await tryCatchAsync(
     async () =>
-      withRateLimit(async () =>
-        generateText({
-          model,
-          prompt,
-          system: systemPrompt,
-          maxRetries: 2,
-          abortSignal: AbortSignal.timeout(getRequestTimeout()),
-        }),
+      withRateLimit(
+        provider,
+        async () =>
+          generateText({
+            model: languageModel,
+            messages: [...history, { role: "user", content: toUserContent(prompt, options.attachments ?? []) }],
+            system: systemPrompt,
+            ...toCallSettings(provider, params),
+            ...Option(options.responseSchema)
+              .flatMap((schema) => jsonOutput(provider, schema))
+              .fold(
+                () => ({}),
+                (output) => ({ output }),
+              ),
+            maxRetries: 2,
+            abortSignal,
+          }),
+        {
+          estimatedTokens:
+            estimateTokens(prompt) +
+            estimateTokens(systemPrompt ?? "") +
+            history.reduce((sum, m) => sum + estimateTokens(m.content), 0) +
+            estimateAttachmentTokens(options.attachments ?? []),
+          actualTokens: (response) => response.usage.totalTokens ?? 0,
+          signal: abortSignal,
+        },
       ),
     (error): ModelError => ({
       model: modelString,
       error: error instanceof Error ? error.message : String(error),
+      ...(isTransientError(error) && { retryable: true }),
     }),
   )
 
-  return result.fold<QueryResult>(
-    (error) => error,
-    (response) => {
-      // Extract actual model/provider from OpenRouter's metadata if available
-      const openrouterMeta = response.providerMetadata?.openrouter as Record<string, unknown> | undefined
-      const actualModel = (openrouterMeta?.model ?? openrouterMeta?.provider ?? openrouterMeta?.id) as
-        | string
-        | undefined
-      return {
-        model: modelString,
-        ...(actualModel && { actualModel }),
-        text: response.text,
-        latencyMs: Date.now() - startTime,
-      }
-    },
+  if (result.isLeft() && signal?.aborted) {
+    breaker.abandon()
+    return cancelledError(modelString)
+  }
+
+  if (result.isLeft()) {
+    return result.fold(
+      (error) => {
+        // Only transient failures count against the provider; anything else proves it is reachable
+        if (error.retryable) breaker.recordFailure()
+        else breaker.recordSuccess()
+        return error
+      },
+      () => null as never,
+    )
+  }
+
+  breaker.recordSuccess()
+
+  const response = result.fold(
+    () => null as never,
+    (r) => r,
   )
+  const latencyMs = Date.now() - startTime
+
+  // Extract actual model/provider from OpenRouter's metadata if available
+  const openrouterMeta = response.providerMetadata?.openrouter as Record<string, unknown> | undefined
+  const actualModel = (openrouterMeta?.model ?? openrouterMeta?.provider ?? openrouterMeta?.id) as string | undefined
+
+  // Price against the routed model first, then the requested one. Local and mock models are free.
+  const usage = toTokenUsage(response.usage)
+  const catalogIds = getCatalogIds(modelString)
+  const costUsd = UNBILLED_PROVIDERS.has(provider)
+    ? 0
+    : priceUsage(actualModel ? catalogIds.prepend(actualModel) : catalogIds, usage)
+
+  return {
+    model: modelString,
+    ...(actualModel && { actualModel }),
+    text: response.text,
+    latencyMs,
+    usage,
+    ...(costUsd !== undefined && { costUsd }),
+  }
+}
+
+/**
+ * Options for parallel model queries
+ */
+export type QueryModelsOptions = QueryOptions & {
+  /**
+   * Called as each model completes or fails, in completion order
+   */
+  readonly onResult?: (result: QueryResult) => Promise<void> | void
+  /**
+   * Per-model conversation history, used in place of `history` for the models it contains
+   */
+  readonly histories?: ReadonlyMap<string, ReadonlyArray<ChatMessage>>
+  /**
+   * Overall time limit in milliseconds. Models still running when it passes are
+   * abandoned and reported as errors, and the responses already received are returned.
+   */
+  readonly deadlineMs?: number
 }
 
 /**
@@ -248,14 +663,40 @@ export const queryModels = async (
   models: List<string>,
   prompt: string,
   systemPrompt?: string,
-): Promise<{ responses: List<ModelResponse>; errors: List<ModelError> }> => {
-  const results = await Promise.all(models.toArray().map((model) => queryModel(model, prompt, systemPrompt)))
+  options: QueryModelsOptions = {},
+): Promise<{ responses: List<ModelResponse>; errors: List<ModelError>; timedOut: List<string> }> => {
+  const deadline = Option(options.deadlineMs).map((ms) => ({ ms, signal: AbortSignal.timeout(ms) }))
+  const abortSignal = deadline.fold(
+    () => options.abortSignal,
+    ({ signal }) => anySignal(signal, callerSignal(options)),
+  )
+
+  const results = await Promise.all(
+    models.toArray().map(async (model) => {
+      const outcome = await queryModel(model, prompt, systemPrompt, {
+        ...options,
+        history: options.histories?.get(model) ?? options.history,
+        abortSignal,
+      })
+      const result = deadline
+        .filter(({ signal }) => signal.aborted && isModelError(outcome))
+        .fold(
+          () => outcome,
+          ({ ms }): QueryResult => ({ model, error: `No response within the ${ms}ms deadline`, retryable: true }),
+        )
+      await options.onResult?.(result)
+      return { result, timedOut: result !== outcome }
+    }),
+  )
 
-  const responses = List(results.filter((r): r is ModelResponse => "text" in r))
-  const errors = List(results.filter((r): r is ModelError => "error" in r))
+  const responses = List(results.map((r) => r.result).filter((r): r is ModelResponse => "text" in r))
+  const errors = List(results.map((r) => r.result).filter((r): r is ModelError => "error" in r))
+  const timedOut = List(results.filter((r) => r.timedOut).map((r) => r.result.model))
 
-  return { responses, errors }
+  return { responses, errors, timedOut }
 }
 
-export { getConfiguredProviders, isProviderConfigured } from "./config.js"
-export { searchModels } from "./openrouter-models.js"
+export { expandModels, getAliases, getModelParams, listPanels, resolveAlias, resolvePanel } from "./aliases.js"
+export { getConfiguredProviders, getLocalEndpoints, isProviderConfigured } from "./config.js"
+export { findCatalogModel, findContextLength, searchModels } from "./openrouter-models.js"
+export { estimateTokens, summarizeUsage } from "./pricing.js"
@@ -0,0 +1,247 @@
+/**
+ * Deterministic mock provider
+ *
+ * mock/ models answer without any network call or API key, so every tool can
+ * be exercised offline and in CI. The model name picks a behaviour and
+ * query-string options tune it:
+ *
+ * - mock/echo                 replies with the prompt
+ * - mock/json                 replies with a minimal value matching the requested JSON schema
+ * - mock/malformed-json       replies with truncated JSON
+ * - mock/fail?status=503      fails with an HTTP error (default 500)
+ * - mock/rate-limit           fails with a 429 and a Retry-After header
+ * - mock/<name>               replies from the fixture file's rules for <name>
+ *
+ * Every behaviour accepts latency=<ms>, e.g. mock/echo?latency=2000.
+ * Failures are not retried by the AI SDK, so tests of fallbacks and circuit
+ * breakers run without backoff delays.
+ *
+ * The fixture file (PANEL_MOCK_FIXTURES, JSON or YAML) maps names to rules,
+ * checked in order against the prompt:
+ *
+ *   critic:
+ *     - match: "Evaluate"          # substring of the prompt, or /regex/flags
+ *       reply: '{"strengths": [], "weaknesses": [], "suggestions": [], "overallAssessment": "Fine"}'
+ *     - reply: [first, second]     # served in turn, the last one repeating
+ */
+
+import { readFileSync } from "node:fs"
+import { extname } from "node:path"
+import { setTimeout as sleep } from "node:timers/promises"
+
+import { APICallError, type JSONSchema7, type LanguageModel } from "ai"
+import type { Either } from "functype"
+import { Left, Match, Option, Right, Try } from "functype"
+import { parse as parseYaml } from "yaml"
+import { z } from "zod"
+
+import { ENV_KEYS, getMockFixturesPath } from "../constants.js"
+import { estimateTokens } from "./pricing.js"
+
+type LanguageModelV3 = Extract<LanguageModel, { readonly specificationVersion: "v3" }>
+
+type CallOptions = Parameters<LanguageModelV3["doGenerate"]>[0]
+
+type GenerateResult = Awaited<ReturnType<LanguageModelV3["doGenerate"]>>
+
+/**
+ * A parsed mock model name
+ */
+type MockSpec = {
+  readonly behaviour: string
+  readonly latencyMs: number
+  readonly status: number
+}
+
+const FixtureRuleSchema = z.strictObject({
+  match: z.string().min(1).optional(),
+  reply: z.union([z.string(), z.array(z.string()).min(1)]),
+})
+
+const FixtureFileSchema = z.record(z.string().min(1), z.array(FixtureRuleSchema).min(1))
+
+type FixtureFile = z.infer<typeof FixtureFileSchema>
+
+/**
+ * Parsed fixture files by path, and how many times each sequenced rule has replied
+ */
+const fixtureFiles = new Map<string, FixtureFile>()
+const replyCounts = new Map<string, number>()
+
+/**
+ * Forget loaded fixtures and reply sequences (useful for testing)
+ */
+export const resetMockProvider = (): void => {
+  fixtureFiles.clear()
+  replyCounts.clear()
+}
+
+const loadFixtures = (path: string): Either<string, FixtureFile> => {
+  const loaded = fixtureFiles.get(path)
+  if (loaded) return Right(loaded)
+
+  return Try(() => {
+    const text = readFileSync(path, "utf8")
+    return extname(path).toLowerCase() === ".json" ? (JSON.parse(text) as unknown) : (parseYaml(text) as unknown)
+  }).fold(
+    (error) => Left<string, FixtureFile>(`Failed to read mock fixtures ${path}: ${error.message}`),
+    (raw) => {
+      const parsed = FixtureFileSchema.safeParse(raw)
+      if (!parsed.success) {
+        return Left<string, FixtureFile>(`Invalid mock fixtures ${path}:\n${z.prettifyError(parsed.error)}`)
+      }
+      fixtureFiles.set(path, parsed.data)
+      return Right<string, FixtureFile>(parsed.data)
+    },
+  )
+}
+
+const matches = (pattern: string | undefined, prompt: string): boolean => {
+  if (pattern === undefined) return true
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern)
+  return regex ? new RegExp(regex[1] ?? "", regex[2]).test(prompt) : prompt.includes(pattern)
+}
+
+/**
+ * Reply from the first fixture rule for a name that matches the prompt
+ */
+const fixtureReply = (name: string, prompt: string): Either<string, string> =>
+  getMockFixturesPath()
+    .toEither(`No mock fixtures configured for mock/${name}. Set ${ENV_KEYS.MOCK_FIXTURES} to a fixture file.`)
+    .flatMap(loadFixtures)
+    .flatMap((fixtures) => Option(fixtures[name]).toEither(`No mock fixtures named "${name}"`))
+    .flatMap((rules) => {
+      const index = rules.findIndex((rule) => matches(rule.match, prompt))
+      const rule = rules[index]
+      if (rule === undefined) return Left<string, string>(`No mock fixture for "${name}" matches the prompt`)
+      if (typeof rule.reply === "string") return Right<string, string>(rule.reply)
+
+      const key = `${name}|${index}`
+      const count = replyCounts.get(key) ?? 0
+      replyCounts.set(key, count + 1)
+      return Right<string, string>(rule.reply[Math.min(count, rule.reply.length - 1)] ?? "")
+    })
+
+/**
+ * A minimal value matching a JSON schema: first enum or union member, one array item, every object property
+ */
+export const exampleValue = (schema: JSONSchema7 | boolean): unknown => {
+  if (typeof schema === "boolean") return null
+  if (schema.const !== undefined) return schema.const
+  if (schema.default !== undefined) return schema.default
+  if (schema.enum?.length) return schema.enum[0]
+
+  const variant = schema.anyOf?.[0] ?? schema.oneOf?.[0]
+  if (variant !== undefined) return exampleValue(variant)
+
+  const type: string = (Array.isArray(schema.type) ? schema.type.find((t: string) => t !== "null") : schema.type) ?? ""
+  const items = Array.isArray(schema.items) ? schema.items[0] : schema.items
+  return Match(type)
+    .case("object", () =>
+      Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [key, exampleValue(property)]),
+      ),
+    )
+    .case("array", () => (items === undefined ? [] : [exampleValue(items)]))
+    .case("string", () => "mock")
+    .caseValues(["number", "integer"], () => schema.minimum ?? 0)
+    .case("boolean", () => false)
+    .default(() => (schema.properties ? exampleValue({ ...schema, type: "object" }) : null))
+}
+
+const textOf = (parts: ReadonlyArray<{ readonly type: string; readonly text?: string }>): string =>
+  parts
+    .filter((part) => part.type === "text")
+    .map((part) => part.text ?? "")
+    .join("\n")
+
+const mockError = (modelId: string, status: number, message: string, headers?: Record<string, string>): APICallError =>
+  new APICallError({
+    message,
+    url: `mock://${modelId}`,
+    requestBodyValues: {},
+    statusCode: status,
+    ...(headers && { responseHeaders: headers }),
+    isRetryable: false,
+  })
+
+/**
+ * Produce the reply text for a call, or throw the scripted failure
+ */
+const reply = (modelId: string, spec: MockSpec, options: CallOptions, prompt: string): string =>
+  Match(spec.behaviour)
+    .case("echo", () => prompt)
+    .case("json", () =>
+      JSON.stringify(
+        options.responseFormat?.type === "json" && options.responseFormat.schema
+          ? exampleValue(options.responseFormat.schema)
+          : {},
+      ),
+    )
+    .case("malformed-json", () => '{"answer": "unterminated')
+    .case("fail", () => {
+      throw mockError(modelId, spec.status, `Mock failure (HTTP ${spec.status})`)
+    })
+    .case("rate-limit", () => {
+      throw mockError(modelId, 429, "Mock rate limit exceeded", { "retry-after": "1" })
+    })
+    .default(() =>
+      fixtureReply(spec.behaviour, prompt).fold(
+        (error) => {
+          throw new Error(error)
+        },
+        (text) => text,
+      ),
+    )
+
+const mockModel = (modelId: string, spec: MockSpec): LanguageModelV3 => ({
+  specificationVersion: "v3",
+  provider: "mock",
+  modelId,
+  supportedUrls: {},
+  doGenerate: async (options): Promise<GenerateResult> => {
+    if (spec.latencyMs > 0) await sleep(spec.latencyMs, undefined, { signal: options.abortSignal })
+    options.abortSignal?.throwIfAborted()
+
+    const lastUser = [...options.prompt].reverse().find((message) => message.role === "user")
+    const prompt = lastUser ? textOf(lastUser.content) : ""
+    const text = reply(modelId, spec, options, prompt)
+    const inputText = options.prompt
+      .map((message) => (typeof message.content === "string" ? message.content : textOf(message.content)))
+      .join("\n")
+    const inputTokens = estimateTokens(inputText)
+    const outputTokens = estimateTokens(text)
+
+    return {
+      content: [{ type: "text", text }],
+      finishReason: { unified: "stop", raw: "stop" },
+      usage: {
+        inputTokens: { total: inputTokens, noCache: inputTokens, cacheRead: undefined, cacheWrite: undefined },
+        outputTokens: { total: outputTokens, text: outputTokens, reasoning: undefined },
+      },
+      response: { modelId, timestamp: new Date() },
+      warnings: [],
+    }
+  },
+  doStream: () => Promise.reject(new Error("The mock provider does not support streaming")),
+})
+
+/**
+ * Resolve the part of a mock model string after "mock/", e.g. "echo?latency=500"
+ */
+export const resolveMockModel = (model: string): Either<string, LanguageModel> => {
+  const [behaviour = "", query = ""] = model.split("?", 2)
+  const params = new URLSearchParams(query)
+  const unknown = [...params.keys()].filter((key) => key !== "latency" && key !== "status")
+  const latencyMs = Number(params.get("latency") ?? 0)
+  const status = Number(params.get("status") ?? 500)
+
+  if (behaviour.length === 0) return Left("Mock model name is empty. Use e.g. mock/echo.")
+  if (unknown.length > 0) return Left(`Unknown mock option: ${unknown.join(", ")} (supported: latency, status)`)
+  if (!Number.isInteger(latencyMs) || latencyMs < 0) return Left(`Invalid mock latency: ${params.get("latency")}`)
+  if (!Number.isInteger(status) || status < 400 || status > 599) {
+    return Left(`Invalid mock status: ${params.get("status")} (expected 400-599)`)
+  }
+
+  return Right<string, LanguageModel>(mockModel(model, { behaviour, latencyMs, status }))
+}
@@ -2,10 +2,12 @@
  * OpenRouter Models API
  *
  * Provides dynamic model discovery and search via OpenRouter's API.
- * Models are cached for 1 hour to minimize API calls.
+ * Models are cached for 1 hour to minimize API calls. Concurrent callers
+ * share one download, which is abandoned after a timeout; a failed download
+ * keeps whatever catalog was already loaded and is retried after a minute.
  */
 
-import { List, tryCatchAsync } from "functype"
+import { List, Option, tryCatchAsync } from "functype"
 
 import type { OpenRouterModel, SearchModelsOptions, SearchModelsResult } from "../types.js"
 
@@ -14,14 +16,31 @@ import type { OpenRouterModel, SearchModelsOptions, SearchModelsResult } from ".
  */
 const CACHE_TTL_MS = 60 * 60 * 1000
 
+/**
+ * How long to wait before retrying a failed download
+ */
+const FAILURE_TTL_MS = 60 * 1000
+
+/**
+ * Time limit for downloading the catalog
+ */
+const FETCH_TIMEOUT_MS = 10 * 1000
+
 /**
  * Cache state using a mutable object pattern
  * eslint-disable-next-line functional/no-let
  */
 
-const cache: { models: List<OpenRouterModel> | null; timestamp: number } = {
+const cache: {
+  models: List<OpenRouterModel> | null
+  timestamp: number
+  ttlMs: number
+  pending: Promise<List<OpenRouterModel>> | null
+} = {
   models: null,
   timestamp: 0,
+  ttlMs: CACHE_TTL_MS,
+  pending: null,
 }
 
 /**
@@ -36,20 +55,22 @@ type RawOpenRouterModel = {
     readonly prompt?: string
     readonly completion?: string
   }
+  readonly architecture?: {
+    readonly input_modalities?: readonly string[]
+  }
 }
 
+const isFresh = (): boolean => cache.models !== null && Date.now() - cache.timestamp < cache.ttlMs
+
 /**
- * Fetch all models from OpenRouter API (no API key required)
+ * Download the catalog and cache it; on failure keep the previous catalog, if any, and retry soon
  */
-export const fetchOpenRouterModels = async (): Promise<List<OpenRouterModel>> => {
-  // Return cached if fresh
-  if (cache.models && Date.now() - cache.timestamp < CACHE_TTL_MS) {
-    return cache.models
-  }
-
+const downloadModels = async (): Promise<List<OpenRouterModel>> => {
   const result = await tryCatchAsync(
     async () => {
-      const response = await fetch("https://openrouter.ai/api/v1/models")
+      const response = await fetch("https://openrouter.ai/api/v1/models", {
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      })
       if (!response.ok) {
         return Promise.reject(new Error(`OpenRouter API error: ${response.status}`))
       }
@@ -60,7 +81,7 @@ export const fetchOpenRouterModels = async (): Promise<List<OpenRouterModel>> =>
   )
 
   const models = result.fold(
-    () => List.empty<OpenRouterModel>(),
+    () => cache.models ?? List.empty<OpenRouterModel>(),
     (data) =>
       List(data).map(
         (m): OpenRouterModel => ({
@@ -73,6 +94,7 @@ export const fetchOpenRouterModels = async (): Promise<List<OpenRouterModel>> =>
             completion: m.pricing?.completion ?? "0",
           },
           provider: m.id.split("/")[0] ?? "unknown",
+          ...(m.architecture?.input_modalities && { inputModalities: m.architecture.input_modalities }),
         }),
       ),
   )
@@ -82,10 +104,68 @@ export const fetchOpenRouterModels = async (): Promise<List<OpenRouterModel>> =>
   cache.models = models
   // eslint-disable-next-line functional/immutable-data
   cache.timestamp = Date.now()
+  // eslint-disable-next-line functional/immutable-data
+  cache.ttlMs = result.isLeft() ? FAILURE_TTL_MS : CACHE_TTL_MS
 
   return models
 }
 
+/**
+ * Fetch all models from OpenRouter API (no API key required)
+ */
+export const fetchOpenRouterModels = (): Promise<List<OpenRouterModel>> => {
+  // Return cached if fresh
+  if (cache.models && isFresh()) {
+    return Promise.resolve(cache.models)
+  }
+
+  // Callers arriving while a download runs share it
+  if (!cache.pending) {
+    // eslint-disable-next-line functional/immutable-data
+    cache.pending = downloadModels().finally(() => {
+      // eslint-disable-next-line functional/immutable-data
+      cache.pending = null
+    })
+  }
+  return cache.pending
+}
+
+/**
+ * Start downloading the catalog in the background unless a fresh one is loaded
+ */
+export const warmModelCache = (): void => {
+  if (!isFresh()) void fetchOpenRouterModels()
+}
+
+const matchCatalogModel = (catalog: List<OpenRouterModel>, catalogIds: List<string>): Option<OpenRouterModel> =>
+  catalogIds.foldLeft(Option.none<OpenRouterModel>())((found, id) =>
+    found.isEmpty ? catalog.find((m) => m.id === id) : found,
+  )
+
+/**
+ * Look up the catalog entry for the first matching candidate ID
+ */
+export const findCatalogModel = async (catalogIds: List<string>): Promise<Option<OpenRouterModel>> => {
+  if (catalogIds.isEmpty) return Option.none()
+  return matchCatalogModel(await fetchOpenRouterModels(), catalogIds)
+}
+
+/**
+ * Look up a catalog entry in the catalog already loaded, without waiting on a download.
+ * A missing or stale catalog is refreshed in the background for later lookups.
+ */
+export const findCachedCatalogModel = (catalogIds: List<string>): Option<OpenRouterModel> => {
+  if (catalogIds.isEmpty) return Option.none()
+  warmModelCache()
+  return matchCatalogModel(cache.models ?? List.empty(), catalogIds)
+}
+
+/**
+ * Context window of the first matching catalog model, when the catalog knows it
+ */
+export const findContextLength = async (catalogIds: List<string>): Promise<Option<number>> =>
+  (await findCatalogModel(catalogIds)).map((m) => m.contextLength).filter((length) => length > 0)
+
 /**
  * Check if a model matches a search query
  */
@@ -153,6 +233,10 @@ export const clearModelCache = (): void => {
   cache.models = null
   // eslint-disable-next-line functional/immutable-data
   cache.timestamp = 0
+  // eslint-disable-next-line functional/immutable-data
+  cache.ttlMs = CACHE_TTL_MS
+  // eslint-disable-next-line functional/immutable-data
+  cache.pending = null
 }
 
 /**
@@ -0,0 +1,149 @@
+/**
+ * Token usage and cost accounting
+ *
+ * Costs are computed from OpenRouter's model catalog, which publishes
+ * per-token USD pricing for both OpenRouter and most direct-provider models.
+ */
+
+import type { LanguageModelUsage } from "ai"
+import { List, Option } from "functype"
+
+import { CHARS_PER_TOKEN_ESTIMATE, IMAGE_TOKEN_ESTIMATE, PDF_BYTES_PER_TOKEN } from "../constants.js"
+import type { Attachment, ModelResponse, OpenRouterModel, ProviderType, TokenUsage, UsageSummary } from "../types.js"
+import { findCachedCatalogModel, findCatalogModel } from "./openrouter-models.js"
+
+/**
+ * OpenRouter catalog namespace for each direct provider
+ */
+const CATALOG_NAMESPACES: Record<Exclude<ProviderType, "openrouter" | "local" | "mock">, string> = {
+  openai: "openai",
+  anthropic: "anthropic",
+  google: "google",
+  mistral: "mistralai",
+}
+
+/**
+ * Trailing date stamp on versioned model IDs (e.g. "-20250514")
+ */
+const DATE_SUFFIX = /-\d{8}$/
+
+/**
+ * Candidate OpenRouter catalog IDs for a resolved model, most specific first
+ *
+ * Examples:
+ * - ("openrouter", "anthropic/claude-sonnet-4") -> ["anthropic/claude-sonnet-4"]
+ * - ("anthropic", "claude-sonnet-4-20250514") -> ["anthropic/claude-sonnet-4-20250514", "anthropic/claude-sonnet-4"]
+ * - ("mistral", "mistral-large-latest") -> ["mistralai/mistral-large-latest"]
+ * - ("local", "ollama/llama3.1") -> [] (self-hosted and mock models are not in the catalog)
+ */
+export const toCatalogIds = (provider: ProviderType, model: string): List<string> => {
+  if (provider === "local" || provider === "mock") return List.empty()
+  const id = provider === "openrouter" ? model : `${CATALOG_NAMESPACES[provider]}/${model}`
+  const undated = id.replace(DATE_SUFFIX, "")
+  return undated === id ? List.of(id) : List.of(id, undated)
+}
+
+/**
+ * Rough token count for a piece of text
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN_ESTIMATE)
+
+/**
+ * Rough token count for attachments: a fixed amount per image, and PDFs by size
+ */
+export const estimateAttachmentTokens = (attachments: ReadonlyArray<Attachment>): number =>
+  attachments.reduce(
+    (sum, a) =>
+      sum +
+      (a.mediaType.startsWith("image/")
+        ? IMAGE_TOKEN_ESTIMATE
+        : Math.ceil(Buffer.byteLength(a.data, "base64") / PDF_BYTES_PER_TOKEN)),
+    0,
+  )
+
+/**
+ * Normalize the AI SDK usage shape into our token counts
+ */
+export const toTokenUsage = (usage: LanguageModelUsage): TokenUsage => {
+  const promptTokens = usage.inputTokens ?? 0
+  const completionTokens = usage.outputTokens ?? 0
+  return {
+    promptTokens,
+    completionTokens,
+    reasoningTokens: usage.outputTokenDetails?.reasoningTokens ?? usage.reasoningTokens ?? 0,
+    totalTokens: usage.totalTokens ?? promptTokens + completionTokens,
+  }
+}
+
+/**
+ * Compute the USD cost of a generation given catalog pricing
+ */
+export const calculateCost = (usage: TokenUsage, pricing: OpenRouterModel["pricing"]): number =>
+  usage.promptTokens * parseFloat(pricing.prompt) + usage.completionTokens * parseFloat(pricing.completion)
+
+/**
+ * Catalog pricing, unless a price is negative or not a number. The catalog lists
+ * routers such as openrouter/auto at "-1", meaning the price depends on the model picked.
+ */
+const usablePricing = (pricing: OpenRouterModel["pricing"]): Option<OpenRouterModel["pricing"]> =>
+  Option(pricing).filter((p) =>
+    [p.prompt, p.completion].every((price) => Number.isFinite(parseFloat(price)) && parseFloat(price) >= 0),
+  )
+
+/**
+ * Look up catalog pricing for the first matching candidate ID
+ */
+export const findModelPricing = async (catalogIds: List<string>): Promise<Option<OpenRouterModel["pricing"]>> =>
+  (await findCatalogModel(catalogIds)).flatMap((m) => usablePricing(m.pricing))
+
+/**
+ * Price a generation from the catalog already loaded, so a response never waits on a download.
+ * Returns undefined when no usable pricing is known (yet).
+ */
+export const priceUsage = (catalogIds: List<string>, usage: TokenUsage): number | undefined =>
+  findCachedCatalogModel(catalogIds)
+    .flatMap((m) => usablePricing(m.pricing))
+    .map((pricing) => calculateCost(usage, pricing))
+    .orUndefined()
+
+/**
+ * An empty usage summary
+ */
+export const EMPTY_USAGE: UsageSummary = {
+  promptTokens: 0,
+  completionTokens: 0,
+  reasoningTokens: 0,
+  totalTokens: 0,
+  costUsd: 0,
+  unpricedModels: List.empty(),
+}
+
+/**
+ * Sum usage and cost across responses
+ */
+export const summarizeUsage = (responses: List<ModelResponse>): UsageSummary =>
+  responses.foldLeft(EMPTY_USAGE)(
+    (acc, r): UsageSummary => ({
+      promptTokens: acc.promptTokens + r.usage.promptTokens,
+      completionTokens: acc.completionTokens + r.usage.completionTokens,
+      reasoningTokens: acc.reasoningTokens + r.usage.reasoningTokens,
+      totalTokens: acc.totalTokens + r.usage.totalTokens,
+      costUsd: acc.costUsd + (r.costUsd ?? 0),
+      unpricedModels:
+        r.costUsd === undefined && !acc.unpricedModels.contains(r.model)
+          ? acc.unpricedModels.add(r.model)
+          : acc.unpricedModels,
+    }),
+  )
+
+/**
+ * Add two usage summaries
+ */
+export const combineUsage = (a: UsageSummary, b: UsageSummary): UsageSummary => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  completionTokens: a.completionTokens + b.completionTokens,
+  reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+  costUsd: a.costUsd + b.costUsd,
+  unpricedModels: a.unpricedModels.concat(b.unpricedModels).distinct(),
+})
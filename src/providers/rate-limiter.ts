@@ -1,8 +1,18 @@
 /**
- * Semaphore-based rate limiter for concurrent request management
+ * Per-provider rate limiting for concurrent request management
+ *
+ * Each provider gets its own concurrency semaphore plus optional
+ * requests-per-minute and tokens-per-minute token buckets, so a burst
+ * against one provider never starves calls to another. A call waits for the
+ * buckets before it takes a concurrency permit, so a call held back by a rate
+ * limit never blocks one that could run, and a cancelled or timed-out call
+ * leaves whichever queue it is waiting in.
  */
 
-import { getMaxConcurrent } from "../constants.js"
+import { Option } from "functype"
+
+import { getProviderMaxConcurrent, getProviderRpm, getProviderTpm } from "../constants.js"
+import type { ProviderType } from "../types.js"
 
 /**
  * Simple semaphore for limiting concurrent operations
@@ -16,16 +26,28 @@ export class Semaphore {
   }
 
   /**
-   * Acquire a permit, waiting if necessary
+   * Acquire a permit, waiting if necessary. Rejects with the signal's reason if it aborts first.
    */
-  async acquire(): Promise<void> {
+  async acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted()
     if (this.permits > 0) {
       this.permits--
       return
     }
 
-    return new Promise<void>((resolve) => {
-      this.waitQueue.push(resolve)
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => {
+        const index = this.waitQueue.indexOf(grant)
+        if (index === -1) return
+        this.waitQueue.splice(index, 1)
+        reject(signal?.reason)
+      }
+      const grant = (): void => {
+        signal?.removeEventListener("abort", onAbort)
+        resolve()
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+      this.waitQueue.push(grant)
     })
   }
 
@@ -55,22 +77,210 @@ export class Semaphore {
 }
 
 /**
- * Global rate limiter instance
- * Shared across all providers for overall concurrency control
+ * Token bucket refilling continuously at a per-minute rate.
+ * Waiters are served strictly in arrival order so large requests are not starved.
  */
-const rateLimiterHolder: { instance?: Semaphore } = {}
+export class TokenBucket {
+  private tokens: number
+  private lastRefill: number
+  private timer?: ReturnType<typeof setTimeout>
+  private readonly waitQueue: Array<{ amount: number; resolve: () => void }> = []
+
+  constructor(
+    private readonly capacity: number,
+    private readonly perMinute: number = capacity,
+  ) {
+    this.tokens = capacity
+    this.lastRefill = Date.now()
+  }
+
+  /**
+   * Tokens currently available (may be negative after over-consumption)
+   */
+  get available(): number {
+    this.refill()
+    return this.tokens
+  }
+
+  /**
+   * Take tokens, waiting in line until enough have refilled.
+   * Requests larger than the bucket are clamped to its capacity.
+   * If the signal aborts first, the caller leaves the line and the reason is thrown.
+   */
+  async take(amount: number, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted()
+    const needed = Math.min(amount, this.capacity)
+    this.refill()
+
+    if (this.waitQueue.length === 0 && this.tokens >= needed) {
+      this.tokens -= needed
+      return
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => {
+        const index = this.waitQueue.indexOf(waiter)
+        if (index === -1) return
+        this.waitQueue.splice(index, 1)
+        // The next in line may be served sooner than the one that left
+        if (index === 0) this.restartDrain()
+        reject(signal?.reason)
+      }
+      const waiter = {
+        amount: needed,
+        resolve: (): void => {
+          signal?.removeEventListener("abort", onAbort)
+          resolve()
+        },
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+      this.waitQueue.push(waiter)
+      if (!this.timer) this.drain()
+    })
+  }
+
+  /**
+   * Give back tokens taken for a call that never ran
+   */
+  refund(amount: number): void {
+    this.refill()
+    this.tokens = Math.min(this.capacity, this.tokens + amount)
+    if (this.waitQueue.length > 0) this.restartDrain()
+  }
+
+  /**
+   * Consume tokens without waiting, e.g. to account for actual usage after a call.
+   * The balance may go negative, delaying subsequent takers.
+   */
+  consume(amount: number): void {
+    this.refill()
+    this.tokens -= amount
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) * this.perMinute) / 60_000)
+    this.lastRefill = now
+  }
+
+  private restartDrain(): void {
+    clearTimeout(this.timer)
+    this.drain()
+  }
+
+  private drain(): void {
+    this.timer = undefined
+    this.refill()
+
+    const head = this.waitQueue[0]
+    if (!head) return
+
+    if (this.tokens >= head.amount) {
+      this.waitQueue.shift()
+      this.tokens -= head.amount
+      head.resolve()
+      this.drain()
+      return
+    }
+
+    const waitMs = Math.ceil(((head.amount - this.tokens) * 60_000) / this.perMinute)
+    this.timer = setTimeout(() => this.drain(), waitMs)
+  }
+}
 
 /**
- * Get or create the global rate limiter
+ * Limits applied to a single provider
  */
-export const getRateLimiter = (): Semaphore => {
-  rateLimiterHolder.instance ??= new Semaphore(getMaxConcurrent())
-  return rateLimiterHolder.instance
+type ProviderLimiter = {
+  readonly concurrency: Semaphore
+  readonly requests: Option<TokenBucket>
+  readonly tokens: Option<TokenBucket>
 }
 
 /**
- * Execute a function with rate limiting
+ * Options for a rate-limited call
  */
-export const withRateLimit = <T>(fn: () => Promise<T>): Promise<T> => {
-  return getRateLimiter().withPermit(fn)
+export type RateLimitOptions<T> = {
+  /**
+   * Tokens reserved from the TPM bucket before the call starts
+   */
+  readonly estimatedTokens?: number
+  /**
+   * Actual tokens used, read from the result; any excess over the estimate is debited afterwards
+   */
+  readonly actualTokens?: (result: T) => number
+  /**
+   * Stops waiting in the queues when it aborts, e.g. on cancellation or timeout
+   */
+  readonly signal?: AbortSignal
+}
+
+/**
+ * Per-provider limiter instances, created lazily from configuration
+ */
+const limiters = new Map<ProviderType, ProviderLimiter>()
+
+/**
+ * Get or create the limiter for a provider
+ */
+export const getProviderLimiter = (provider: ProviderType): ProviderLimiter => {
+  const existing = limiters.get(provider)
+  if (existing) return existing
+
+  const limiter: ProviderLimiter = {
+    concurrency: new Semaphore(getProviderMaxConcurrent(provider)),
+    requests: getProviderRpm(provider).map((rpm) => new TokenBucket(rpm)),
+    tokens: getProviderTpm(provider).map((tpm) => new TokenBucket(tpm)),
+  }
+  limiters.set(provider, limiter)
+  return limiter
+}
+
+/**
+ * Reset all limiters so configuration is re-read (useful for testing)
+ */
+export const resetRateLimiters = (): void => {
+  limiters.clear()
+}
+
+/**
+ * Execute a function under a provider's concurrency, RPM and TPM limits.
+ * The buckets are waited on before the permit is taken; if the signal aborts
+ * while the call is still queued, whatever it already took is given back.
+ */
+export const withRateLimit = async <T>(
+  provider: ProviderType,
+  fn: () => Promise<T>,
+  options: RateLimitOptions<T> = {},
+): Promise<T> => {
+  const limiter = getProviderLimiter(provider)
+  const estimated = options.estimatedTokens ?? 0
+  const { signal } = options
+
+  await limiter.requests.map((bucket) => bucket.take(1, signal)).orElse(Promise.resolve())
+  try {
+    await limiter.tokens.map((bucket) => bucket.take(estimated, signal)).orElse(Promise.resolve())
+  } catch (error) {
+    limiter.requests.forEach((bucket) => bucket.refund(1))
+    throw error
+  }
+
+  try {
+    await limiter.concurrency.acquire(signal)
+  } catch (error) {
+    limiter.requests.forEach((bucket) => bucket.refund(1))
+    limiter.tokens.forEach((bucket) => bucket.refund(estimated))
+    throw error
+  }
+
+  try {
+    const result = await fn()
+
+    const actual = options.actualTokens?.(result) ?? estimated
+    limiter.tokens.forEach((bucket) => bucket.consume(Math.max(0, actual - estimated)))
+
+    return result
+  } finally {
+    limiter.concurrency.release()
+  }
 }
@@ -0,0 +1,145 @@
+/**
+ * Record and replay of model traffic
+ *
+ * In record mode every model query is saved to the recording directory: the
+ * request (model slot, prompts, history, parameters, schema, attachment
+ * summaries) and what came back, whether a response or an error. In replay
+ * mode queries are answered from those files and never reach a provider, so a
+ * reported council run can be reproduced, or prompt changes checked against
+ * real past outputs.
+ *
+ * Files are named by the same content hash as the response cache, one per
+ * distinct request. Repeating a request while recording appends another
+ * result; replay serves them in recorded order, the last one repeating.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+
+import { Option, tryCatchAsync } from "functype"
+
+import { ENV_KEYS, getRecordingDir } from "../constants.js"
+import type { Attachment, ChatMessage, GenerationParams, QueryResult } from "../types.js"
+import { isModelError } from "../types.js"
+
+/**
+ * The request part of a recording, as sent to the model slot
+ */
+export type RecordedRequest = {
+  readonly model: string
+  readonly prompt: string
+  readonly systemPrompt?: string
+  readonly params: GenerationParams
+  readonly history?: ReadonlyArray<ChatMessage>
+  readonly responseSchema?: unknown
+  readonly attachments?: ReadonlyArray<{
+    readonly mediaType: string
+    readonly filename?: string
+    readonly bytes: number
+  }>
+}
+
+/**
+ * A recording file: one request and every result it produced
+ */
+export type Recording = {
+  readonly key: string
+  readonly request: RecordedRequest
+  readonly results: ReadonlyArray<{ readonly recordedAt: string; readonly result: QueryResult }>
+}
+
+/**
+ * Pending writes per key, so concurrent identical requests append in turn.
+ * Replay positions per key, so repeated requests walk through their results.
+ */
+const writes = new Map<string, Promise<void>>()
+const replayPositions = new Map<string, number>()
+
+/**
+ * Forget replay positions (useful for testing)
+ */
+export const resetReplay = (): void => {
+  replayPositions.clear()
+}
+
+const recordingPath = (key: string): string => join(getRecordingDir(), `${key}.json`)
+
+const readRecording = async (key: string): Promise<Option<Recording>> =>
+  (
+    await tryCatchAsync(
+      async () => JSON.parse(await readFile(recordingPath(key), "utf8")) as Recording,
+      (error) => error,
+    )
+  ).toOption()
+
+/**
+ * Summarize attachments for a recording; their content is already covered by the key
+ */
+export const summarizeAttachments = (
+  attachments: ReadonlyArray<Attachment> | undefined,
+): RecordedRequest["attachments"] =>
+  attachments?.length
+    ? attachments.map((a) => ({
+        mediaType: a.mediaType,
+        ...(a.filename !== undefined && { filename: a.filename }),
+        bytes: Buffer.byteLength(a.data, "base64"),
+      }))
+    : undefined
+
+/**
+ * Append a result to the recording for a request. Failures to write are reported on stderr, never thrown.
+ */
+export const recordResult = (key: string, request: RecordedRequest, result: QueryResult): Promise<void> => {
+  const write = (writes.get(key) ?? Promise.resolve()).then(async () => {
+    const written = await tryCatchAsync(
+      async () => {
+        const existing = await readRecording(key)
+        const recording: Recording = {
+          key,
+          request,
+          results: [
+            ...existing.fold(
+              () => [],
+              (r) => r.results,
+            ),
+            { recordedAt: new Date().toISOString(), result },
+          ],
+        }
+        await mkdir(getRecordingDir(), { recursive: true })
+        await writeFile(recordingPath(key), JSON.stringify(recording, null, 2), "utf8")
+      },
+      (error) => (error instanceof Error ? error.message : String(error)),
+    )
+    written.fold(
+      (error) => console.error(`Failed to record ${request.model}: ${error}`),
+      () => undefined,
+    )
+  })
+  writes.set(key, write)
+  // Forget the key once its last write is done, unless another write has queued behind it
+  void write.finally(() => {
+    if (writes.get(key) === write) writes.delete(key)
+  })
+  return write
+}
+
+/**
+ * Answer a request from its recording. A request that was never recorded is an error.
+ */
+export const replayResult = async (key: string, model: string): Promise<QueryResult> => {
+  const recording = await readRecording(key)
+  return recording.fold(
+    (): QueryResult => ({
+      model,
+      error: `No recording for this request to ${model} in ${getRecordingDir()} (${ENV_KEYS.RECORDING_MODE}=replay)`,
+    }),
+    ({ results }) => {
+      const position = replayPositions.get(key) ?? 0
+      replayPositions.set(key, position + 1)
+      const entry = results[Math.min(position, results.length - 1)]
+      if (entry === undefined) return { model, error: `Recording for ${model} has no results` }
+
+      return isModelError(entry.result) ? entry.result : { ...entry.result, costUsd: 0, replayed: true }
+    },
+  )
+}
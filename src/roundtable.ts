@@ -0,0 +1,317 @@
+/**
+ * Moderated roundtable discussions
+ *
+ * Several participants, each holding an assigned stance or persona, speak in
+ * turn over a number of rounds, each seeing the discussion so far. Between
+ * rounds a moderator model summarizes where the discussion stands and poses
+ * follow-up questions for the next round; after the last round it gives a
+ * closing summary. Turns are taken through ./turns.ts, so a failing
+ * participant is retried and may hand its seat to a fallback model. A
+ * participant that fails for good leaves the table, and the discussion ends
+ * early once fewer than two remain. A failed moderator call is recorded and
+ * the next round goes ahead without questions.
+ */
+
+import { List, Option } from "functype"
+import { z } from "zod"
+
+import { queryStructured } from "./structured.js"
+import { takeTurn, type TurnOptions } from "./turns.js"
+import type {
+  ModelError,
+  ModelResponse,
+  ModeratorNote,
+  RoundtableDeparture,
+  RoundtableParticipant,
+  RoundtableSubstitution,
+  RoundtableTurn,
+} from "./types.js"
+
+export const ModeratorSchema = z.object({
+  summary: z.string().describe("Where the discussion stands: agreements, disagreements and open threads"),
+  followUpQuestions: z.array(z.string()).describe("Questions for the participants to take up next round"),
+})
+
+export type ModeratorReply = z.infer<typeof ModeratorSchema>
+
+/**
+ * A discussion to run
+ */
+export type RoundtableSetup = {
+  readonly topic: string
+  readonly participants: List<RoundtableParticipant>
+  readonly moderatorModel: string
+  readonly rounds: number
+  readonly turnOptions: TurnOptions
+  readonly onStep?: (text: string) => Promise<void> // Called after every turn and moderator note
+}
+
+/**
+ * A finished discussion, with every response paid for
+ */
+export type RoundtableOutcome = {
+  readonly turns: List<RoundtableTurn>
+  readonly moderatorNotes: List<ModeratorNote>
+  readonly substitutions: List<RoundtableSubstitution>
+  readonly departures: List<RoundtableDeparture>
+  readonly errors: List<ModelError>
+  readonly stoppedEarly: boolean
+  readonly roundsHeld: number
+  readonly responses: List<ModelResponse> // Participant turns and moderator attempts, for usage
+}
+
+/**
+ * Format the discussion so far, round by round, with the moderator's notes
+ */
+export const formatTranscript = (turns: List<RoundtableTurn>, notes: List<ModeratorNote>): string => {
+  const rounds = [...new Set(turns.toArray().map((turn) => turn.round))]
+
+  return rounds
+    .map((round) => {
+      const spoken = turns
+        .toArray()
+        .filter((turn) => turn.round === round)
+        .map((turn) => `${turn.participant}:\n${turn.text}`)
+      const note = notes
+        .find((n) => n.round === round)
+        .fold(
+          () => [],
+          (n) => [`Moderator:\n${n.summary}`],
+        )
+      return [`--- Round ${round} ---`, ...spoken, ...note].join("\n\n")
+    })
+    .join("\n\n")
+}
+
+/**
+ * Prompt for a participant's turn
+ */
+export const participantPrompt = (
+  topic: string,
+  participant: RoundtableParticipant,
+  transcript: string,
+  round: number,
+  rounds: number,
+  questions: List<string>,
+): string => {
+  const discussion = transcript ? `\n\nThe discussion so far:\n\n${transcript}` : ""
+  const asked = questions.isEmpty
+    ? ""
+    : `\n\nThe moderator asks:\n${questions
+        .toArray()
+        .map((q) => `- ${q}`)
+        .join("\n")}`
+  const instruction =
+    round === 1 && !transcript
+      ? "Open with your position on the topic."
+      : "Respond to specific points the other participants made, saying where you agree as well as where you differ, and take up the moderator's questions."
+
+  return `You are ${participant.name}, a participant in a moderated roundtable discussion.
+
+Your stance: ${participant.stance}
+
+Topic:
+"${topic}"
+
+This is round ${round} of ${rounds}.${discussion}${asked}
+
+Speak from your stance, in your own voice. ${instruction} Be concise; others are waiting to speak.`
+}
+
+/**
+ * Prompt for the moderator after a round; after the final one it asks only for a closing summary
+ */
+export const moderatorPrompt = (topic: string, transcript: string, round: number, final: boolean): string => {
+  const task = final
+    ? "The discussion is over. Give a closing summary: where the participants converged, where they still disagree, and what remains unresolved. Leave followUpQuestions empty."
+    : `Summarize where the discussion stands after round ${round}, then pose one to three follow-up questions that would move it forward: probe disagreements, challenge weak claims, or draw out participants who have been vague.`
+
+  return `You are the neutral moderator of a roundtable discussion. Do not take sides.
+
+Topic:
+"${topic}"
+
+${transcript}
+
+${task}
+
+Provide your response in the following JSON format:
+{
+  "summary": "where the discussion stands",
+  "followUpQuestions": ["question for the next round"]
+}
+
+Respond ONLY with the JSON object, no additional text.`
+}
+
+type Seat = {
+  readonly participant: RoundtableParticipant
+  readonly model: string // Current model, after any substitution
+}
+
+type RoundtableState = {
+  readonly seats: List<Seat>
+  readonly turns: List<RoundtableTurn>
+  readonly notes: List<ModeratorNote>
+  readonly substitutions: List<RoundtableSubstitution>
+  readonly departures: List<RoundtableDeparture>
+  readonly errors: List<ModelError>
+  readonly responses: List<ModelResponse>
+  readonly roundsHeld: number
+}
+
+/**
+ * One participant speaks; a participant whose turn fails for good leaves the table
+ */
+const speak = async (setup: RoundtableSetup, state: RoundtableState, seat: Seat, round: number) => {
+  const step = setup.onStep ?? (() => Promise.resolve())
+  const questions = state.notes
+    .find((note) => note.round === round - 1)
+    .fold(
+      () => List.empty<string>(),
+      (note) => note.followUpQuestions,
+    )
+  const prompt = participantPrompt(
+    setup.topic,
+    seat.participant,
+    formatTranscript(state.turns, state.notes),
+    round,
+    setup.rounds,
+    questions,
+  )
+  const name = seat.participant.name
+
+  const turn = await takeTurn(seat.model, prompt, setup.turnOptions)
+  return turn.fold<Promise<RoundtableState>>(
+    async (failure) => {
+      await step(
+        `[Round ${round}/${setup.rounds}] ${name} left the discussion: ${failure.model} failed: ${failure.error.error}`,
+      )
+      return {
+        ...state,
+        seats: state.seats.filter((s) => s.participant.name !== name),
+        departures: state.departures.add({
+          round,
+          participant: name,
+          model: failure.model,
+          error: failure.error.error,
+          attempts: failure.attempts,
+        }),
+      }
+    },
+    async (result) => {
+      await step(`[Round ${round}/${setup.rounds}] ${name} (${result.model}):\n${result.response.text}`)
+      return {
+        ...state,
+        seats: state.seats.map((s) => (s.participant.name === name ? { ...s, model: result.model } : s)),
+        turns: state.turns.add({ round, participant: name, model: result.model, text: result.response.text }),
+        responses: state.responses.add(result.response),
+        substitutions: Option(result.replaced).fold(
+          () => state.substitutions,
+          (replaced) =>
+            state.substitutions.add({
+              round,
+              participant: name,
+              from: replaced.model,
+              to: result.model,
+              error: replaced.error,
+            }),
+        ),
+      }
+    },
+  )
+}
+
+/**
+ * The moderator sums up the round; a failed call is recorded and the discussion goes on
+ */
+const moderate = async (setup: RoundtableSetup, state: RoundtableState, round: number, final: boolean) => {
+  const step = setup.onStep ?? (() => Promise.resolve())
+  const outcome = await queryStructured(
+    setup.moderatorModel,
+    moderatorPrompt(setup.topic, formatTranscript(state.turns, state.notes), round, final),
+    ModeratorSchema,
+    undefined,
+    setup.turnOptions,
+  )
+
+  return outcome.fold<Promise<RoundtableState>>(
+    async (error) => {
+      await step(`[Round ${round}/${setup.rounds}] Moderator failed: ${error.error}`)
+      return { ...state, errors: state.errors.add({ ...error, error: `Moderator failed: ${error.error}` }) }
+    },
+    async (result) => {
+      const responses = state.responses.concat(result.attempts)
+      return result.value.fold(
+        async (failure) => {
+          await step(`[Round ${round}/${setup.rounds}] Moderator returned an invalid note: ${failure.error}`)
+          return {
+            ...state,
+            responses,
+            errors: state.errors.add({
+              model: setup.moderatorModel,
+              error: `Invalid moderator note: ${failure.error}`,
+            }),
+          }
+        },
+        async (reply) => {
+          const note: ModeratorNote = {
+            round,
+            summary: reply.summary,
+            followUpQuestions: List(final ? [] : reply.followUpQuestions),
+          }
+          await step(`[Round ${round}/${setup.rounds}] Moderator:\n${note.summary}`)
+          return { ...state, responses, notes: state.notes.add(note) }
+        },
+      )
+    },
+  )
+}
+
+/**
+ * Hold a round: every remaining participant speaks in order, then the moderator sums up
+ */
+const holdRound = async (setup: RoundtableSetup, state: RoundtableState, round: number): Promise<RoundtableState> => {
+  // Fewer than two participants is no longer a discussion; later rounds are skipped
+  if (state.seats.size < 2) return state
+
+  const spoken = await state.seats
+    .toArray()
+    .reduce(async (accPromise, seat) => speak(setup, await accPromise, seat, round), Promise.resolve(state))
+  if (spoken.turns.size === state.turns.size) return spoken
+
+  const final = round === setup.rounds || spoken.seats.size < 2
+  return moderate(setup, { ...spoken, roundsHeld: round }, round, final)
+}
+
+/**
+ * Run a roundtable discussion to the end, or until fewer than two participants remain
+ */
+export const runRoundtable = async (setup: RoundtableSetup): Promise<RoundtableOutcome> => {
+  const initialState: RoundtableState = {
+    seats: setup.participants.map((participant) => ({ participant, model: participant.model })),
+    turns: List.empty(),
+    notes: List.empty(),
+    substitutions: List.empty(),
+    departures: List.empty(),
+    errors: List.empty(),
+    responses: List.empty(),
+    roundsHeld: 0,
+  }
+
+  const finalState = await Array.from({ length: setup.rounds }, (_, i) => i + 1).reduce(
+    async (accPromise, round) => holdRound(setup, await accPromise, round),
+    Promise.resolve(initialState),
+  )
+
+  return {
+    turns: finalState.turns,
+    moderatorNotes: finalState.notes,
+    substitutions: finalState.substitutions,
+    departures: finalState.departures,
+    errors: finalState.errors,
+    stoppedEarly: finalState.roundsHeld < setup.rounds,
+    roundsHeld: finalState.roundsHeld,
+    responses: finalState.responses,
+  }
+}
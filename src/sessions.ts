@@ -0,0 +1,141 @@
+/**
+ * Multi-turn sessions with a fixed panel of models
+ *
+ * A session pins a set of models, a system prompt and generation settings, and
+ * keeps a separate message history for each model. Follow-up prompts are sent
+ * to every model together with its own earlier turns, so "now revise your
+ * answer given X" reaches each model with the context it answered in.
+ *
+ * Sessions live in memory and are discarded after sitting idle for the session
+ * TTL. A model that fails a turn does not get that turn added to its history,
+ * so it can answer the next prompt without a dangling question.
+ */
+
+import { randomUUID } from "node:crypto"
+
+import { List, Option } from "functype"
+
+import { getOutputCap, type PlannedQuery } from "./budget.js"
+import { getSessionTtl } from "./constants.js"
+import { combineUsage, EMPTY_USAGE, estimateTokens, summarizeUsage } from "./providers/pricing.js"
+import type { ChatMessage, GenerationParams, ModelResponse, UsageSummary } from "./types.js"
+
+/**
+ * An open session
+ */
+export type PanelSession = {
+  readonly id: string
+  readonly models: List<string>
+  readonly systemPrompt?: string
+  readonly params: GenerationParams
+  readonly histories: ReadonlyMap<string, ReadonlyArray<ChatMessage>>
+  readonly turns: number
+  readonly usage: UsageSummary
+  readonly createdAt: number
+  readonly lastActiveAt: number
+}
+
+/**
+ * Open sessions by ID
+ */
+const sessions = new Map<string, PanelSession>()
+
+/**
+ * Drop sessions that have been idle longer than the TTL
+ */
+const pruneExpired = (now: number): void => {
+  const ttl = getSessionTtl()
+  sessions.forEach((session, id) => {
+    if (now - session.lastActiveAt > ttl) sessions.delete(id)
+  })
+}
+
+/**
+ * Open a session for a resolved set of models
+ */
+export const createSession = (
+  models: List<string>,
+  systemPrompt: string | undefined,
+  params: GenerationParams,
+): PanelSession => {
+  const now = Date.now()
+  pruneExpired(now)
+
+  const session: PanelSession = {
+    id: randomUUID(),
+    models,
+    ...(systemPrompt !== undefined && { systemPrompt }),
+    params,
+    histories: new Map(models.toArray().map((model) => [model, []])),
+    turns: 0,
+    usage: EMPTY_USAGE,
+    createdAt: now,
+    lastActiveAt: now,
+  }
+  sessions.set(session.id, session)
+  return session
+}
+
+/**
+ * Look up an open session
+ */
+export const getSession = (id: string): Option<PanelSession> => {
+  pruneExpired(Date.now())
+  return Option(sessions.get(id))
+}
+
+/**
+ * Plan the next turn, counting each model's history towards its prompt size
+ */
+export const planSessionTurn = (session: PanelSession, prompt: string, maxTokens?: number): List<PlannedQuery> =>
+  session.models.map((model) => ({
+    model,
+    promptTokens:
+      estimateTokens(prompt) +
+      estimateTokens(session.systemPrompt ?? "") +
+      (session.histories.get(model) ?? []).reduce((sum, m) => sum + estimateTokens(m.content), 0),
+    maxOutputTokens: getOutputCap(model, maxTokens ?? session.params.maxTokens),
+  }))
+
+/**
+ * Append a completed turn to the histories of the models that answered it
+ */
+export const recordTurn = (id: string, prompt: string, responses: List<ModelResponse>): Option<PanelSession> =>
+  getSession(id).map((session) => {
+    const answers = new Map(responses.toArray().map((r) => [r.model, r.text]))
+    const updated: PanelSession = {
+      ...session,
+      histories: new Map(
+        [...session.histories].map(([model, history]) => {
+          const answer = answers.get(model)
+          return [
+            model,
+            answer === undefined
+              ? history
+              : [...history, { role: "user", content: prompt }, { role: "assistant", content: answer }],
+          ]
+        }),
+      ),
+      turns: session.turns + 1,
+      usage: combineUsage(session.usage, summarizeUsage(responses)),
+      lastActiveAt: Date.now(),
+    }
+    sessions.set(id, updated)
+    return updated
+  })
+
+/**
+ * Close a session, returning its final state
+ */
+export const endSession = (id: string): Option<PanelSession> =>
+  getSession(id).map((session) => {
+    sessions.delete(id)
+    return session
+  })
+
+/**
+ * Close all sessions (useful for testing)
+ */
+export const clearSessions = (): void => {
+  sessions.clear()
+}
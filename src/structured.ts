@@ -0,0 +1,219 @@
+/**
+ * Schema-validated structured replies
+ *
+ * Tools that need structured answers (critiques, challenges, caller-supplied
+ * schemas) describe the expected shape with a zod schema. The schema is sent to providers that have
+ * a JSON mode and is always used to validate the reply. When a reply does not
+ * match, the model is shown its reply and the validation errors once and asked
+ * to correct it. If that also fails, the caller gets an explicit parse failure
+ * rather than an empty result, so "found nothing" and "returned malformed JSON"
+ * can be told apart.
+ */
+
+import { type Either, Left, List, Right, Try } from "functype"
+import { z } from "zod"
+
+import type { PlannedQuery } from "./budget.js"
+import { ALL_CHALLENGE_TYPES } from "./constants.js"
+import { estimateTokens, queryModel, type QueryModelsOptions, type QueryOptions } from "./providers/index.js"
+import { isModelError, type ModelError, type ModelResponse, type ParseFailure, type QueryResult } from "./types.js"
+
+/**
+ * Longest raw reply kept in a parse failure report
+ */
+const MAX_RAW_TEXT_CHARS = 2000
+
+export const CritiqueSchema = z.object({
+  strengths: z.array(z.string()).describe("Strong points of the response"),
+  weaknesses: z.array(z.string()).describe("Weak points or issues"),
+  suggestions: z.array(z.string()).describe("Specific improvements"),
+  overallAssessment: z.string().describe("Brief overall assessment"),
+})
+
+export const ChallengeItemSchema = z.object({
+  challengeType: z.enum(ALL_CHALLENGE_TYPES),
+  challenge: z.string().describe("Description of the weakness"),
+  severity: z.enum(["minor", "moderate", "significant"]),
+  reasoning: z.string().describe("Why this matters"),
+})
+
+/**
+ * Challenges are wrapped in an object because JSON modes require an object at the
+ * top level. A bare array, as models without a JSON mode sometimes return, is accepted too.
+ */
+export const ChallengeListSchema = z.preprocess(
+  (value) => (Array.isArray(value) ? { challenges: value } : value),
+  z.object({ challenges: z.array(ChallengeItemSchema) }),
+)
+
+export type ChallengeList = z.infer<typeof ChallengeListSchema>
+
+/**
+ * Outcome of a structured query. All attempts are kept so their usage can be counted.
+ */
+export type StructuredResult<T> = {
+  readonly response: ModelResponse // The last reply
+  readonly attempts: List<ModelResponse>
+  readonly value: Either<ParseFailure, T>
+  readonly repaired: boolean // The first reply was invalid and the correction was accepted
+}
+
+/**
+ * A structured result tagged with the model slot that produced it
+ */
+export type StructuredAnswer<T> = StructuredResult<T> & { readonly model: string }
+
+/**
+ * Pull the JSON payload out of a reply: the contents of a code fence if there is one,
+ * otherwise the span from the first opening bracket to the last closing one
+ */
+export const extractJson = (text: string): string => {
+  const fenced = /```(?:json)?\s*\n?([\s\S]*?)```/i.exec(text)
+  if (fenced?.[1] !== undefined) return fenced[1].trim()
+
+  const start = text.search(/[[{]/)
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"))
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text.trim()
+}
+
+/**
+ * Parse and validate a reply against a schema
+ */
+export const parseStructured = <T>(text: string, schema: z.ZodType<T>): Either<string, T> =>
+  Try(() => JSON.parse(extractJson(text)) as unknown).fold(
+    (error) => Left<string, T>(`Invalid JSON: ${error.message}`),
+    (json) => {
+      const parsed = schema.safeParse(json)
+      return parsed.success ? Right<string, T>(parsed.data) : Left<string, T>(z.prettifyError(parsed.error))
+    },
+  )
+
+/**
+ * Build a validator from a caller-supplied JSON Schema. The schema must describe
+ * an object, since JSON modes require an object at the top level.
+ */
+export const fromJsonSchema = (schema: Readonly<Record<string, unknown>>): Either<string, z.ZodType> =>
+  schema.type !== "object"
+    ? Left<string, z.ZodType>('Schema must describe an object ("type": "object")')
+    : Try(() => z.fromJSONSchema(schema as z.core.JSONSchema.JSONSchema)).fold(
+        (error) => Left<string, z.ZodType>(`Unsupported JSON Schema: ${error.message}`),
+        (validator) => Right<string, z.ZodType>(validator),
+      )
+
+const toParseFailure = (response: ModelResponse, error: string, attempts: number): ParseFailure => ({
+  model: response.model,
+  error,
+  rawText: response.text.length > MAX_RAW_TEXT_CHARS ? `${response.text.slice(0, MAX_RAW_TEXT_CHARS)}…` : response.text,
+  attempts,
+})
+
+const repairPrompt = (error: string): string =>
+  `Your reply did not match the required JSON format:
+
+${error}
+
+Reply again with only the corrected JSON, no additional text.`
+
+/**
+ * Plan structured calls for a budget check. Each may be followed by a repair call, which
+ * re-sends the prompt with the first reply and asks for up to the output cap again.
+ */
+export const planStructured = (queries: List<PlannedQuery>): List<PlannedQuery> =>
+  queries.flatMap((q) =>
+    List.of(q, {
+      model: q.model,
+      promptTokens: q.promptTokens + q.maxOutputTokens + estimateTokens(repairPrompt("")),
+      maxOutputTokens: q.maxOutputTokens,
+    }),
+  )
+
+/**
+ * Query a model for a reply matching a schema, asking once for a correction if it doesn't
+ */
+export const queryStructured = async <T>(
+  model: string,
+  prompt: string,
+  schema: z.ZodType<T>,
+  systemPrompt?: string,
+  options: QueryOptions = {},
+): Promise<Either<ModelError, StructuredResult<T>>> => {
+  const structuredOptions: QueryOptions = {
+    ...options,
+    responseSchema: options.responseSchema ?? z.toJSONSchema(schema),
+  }
+
+  const first = await queryModel(model, prompt, systemPrompt, structuredOptions)
+  if (isModelError(first)) return Left(first)
+
+  const result = await parseStructured(first.text, schema).fold(
+    async (error): Promise<StructuredResult<T>> => {
+      const second = await queryModel(model, repairPrompt(error), systemPrompt, {
+        ...structuredOptions,
+        history: [
+          ...(options.history ?? []),
+          { role: "user", content: prompt },
+          { role: "assistant", content: first.text },
+        ],
+      })
+      if (isModelError(second)) {
+        return {
+          response: first,
+          attempts: List.of(first),
+          value: Left(toParseFailure(first, error, 1)),
+          repaired: false,
+        }
+      }
+
+      const repaired = parseStructured(second.text, schema)
+      return {
+        response: second,
+        attempts: List.of(first, second),
+        value: repaired.mapLeft((repairError) => toParseFailure(second, repairError, 2)),
+        repaired: repaired.isRight(),
+      }
+    },
+    (value) => Promise.resolve({ response: first, attempts: List.of(first), value: Right(value), repaired: false }),
+  )
+  return Right(result)
+}
+
+/**
+ * Query models in parallel for replies matching a schema
+ */
+export const queryStructuredModels = async <T>(
+  models: List<string>,
+  prompt: string,
+  schema: z.ZodType<T>,
+  systemPrompt?: string,
+  options: QueryModelsOptions = {},
+): Promise<{ answers: List<StructuredAnswer<T>>; errors: List<ModelError> }> => {
+  const outcomes = List(
+    await Promise.all(
+      models.toArray().map(async (model) => {
+        const outcome = await queryStructured(model, prompt, schema, systemPrompt, options)
+        await options.onResult?.(
+          outcome.fold<QueryResult>(
+            (error) => error,
+            (result) => result.response,
+          ),
+        )
+        return outcome.map((result): StructuredAnswer<T> => ({ model, ...result }))
+      }),
+    ),
+  )
+
+  return {
+    answers: outcomes.flatMap((o) =>
+      o.fold(
+        () => List.empty<StructuredAnswer<T>>(),
+        (answer) => List.of(answer),
+      ),
+    ),
+    errors: outcomes.flatMap((o) =>
+      o.fold(
+        (error) => List.of(error),
+        () => List.empty<ModelError>(),
+      ),
+    ),
+  }
+}
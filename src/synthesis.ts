@@ -0,0 +1,133 @@
+/**
+ * Chairman synthesis of council responses
+ *
+ * The council's responses are shown to a chairman model under neutral labels
+ * (Response A, Response B, ...) so it weighs arguments rather than model
+ * names. It replies with one synthesized answer plus the points of consensus,
+ * the disputed points with the labels holding each side, and insights only
+ * one response raised. Labels are mapped back to model slots afterwards;
+ * labels the chairman invents are dropped.
+ */
+
+import { List, Option } from "functype"
+import { z } from "zod"
+
+import type { ModelResponse, Synthesis, UniqueInsight } from "./types.js"
+
+export const SynthesisSchema = z.object({
+  answer: z.string().describe("The synthesized answer to the question"),
+  consensus: z.array(z.string()).describe("Points most or all responses agree on"),
+  disputed: z
+    .array(
+      z.object({
+        point: z.string().describe("What the responses disagree about"),
+        positions: z.array(
+          z.object({
+            position: z.string().describe("One side of the disagreement"),
+            responses: z.array(z.string()).describe("Labels of the responses taking this side, e.g. ['A', 'C']"),
+          }),
+        ),
+      }),
+    )
+    .describe("Points the responses disagree on"),
+  uniqueInsights: z
+    .array(
+      z.object({
+        response: z.string().describe("Label of the response, e.g. 'B'"),
+        insight: z.string().describe("A point no other response made"),
+      }),
+    )
+    .describe("Worthwhile points raised by only one response"),
+})
+
+export type ChairmanReply = z.infer<typeof SynthesisSchema>
+
+/**
+ * Neutral label for the response at an index: A, B, ..., Z, AA, AB, ...
+ */
+export const responseLabel = (index: number): string =>
+  index < 26
+    ? String.fromCharCode(65 + index)
+    : `${responseLabel(Math.floor(index / 26) - 1)}${String.fromCharCode(65 + (index % 26))}`
+
+/**
+ * Prompt asking the chairman to synthesize the labelled responses
+ */
+export const synthesisPrompt = (question: string, responses: List<ModelResponse>): string => {
+  const labelled = responses
+    .toArray()
+    .map((response, index) => `--- Response ${responseLabel(index)} ---\n${response.text}`)
+    .join("\n\n")
+
+  return `You are the chairman of a council of experts. Each member answered the question below independently. Combine their responses into the single best answer, and report where they agree and disagree.
+
+Question:
+"${question}"
+
+${labelled}
+
+Provide your synthesis in the following JSON format:
+{
+  "answer": "the synthesized answer, drawing on the strongest points of every response",
+  "consensus": ["points most or all responses agree on"],
+  "disputed": [
+    {
+      "point": "what the responses disagree about",
+      "positions": [{ "position": "one side", "responses": ["A", "C"] }]
+    }
+  ],
+  "uniqueInsights": [{ "response": "B", "insight": "a worthwhile point no other response made" }]
+}
+
+Refer to responses only by their letters. Where the responses disagree, weigh their reasoning rather than counting votes, and say so in the answer if the question remains open.
+
+Respond ONLY with the JSON object, no additional text.`
+}
+
+/**
+ * Look up the model behind a label as a model wrote it, e.g. "b" or "Response B"
+ */
+export const labelResolver = (responses: List<ModelResponse>): ((label: string) => Option<string>) => {
+  const models = new Map(responses.toArray().map((response, index) => [responseLabel(index), response.model]))
+  return (label) =>
+    Option(
+      models.get(
+        label
+          .trim()
+          .replace(/^Response\s+/i, "")
+          .toUpperCase(),
+      ),
+    )
+}
+
+/**
+ * Convert the chairman's reply, mapping response labels back to the models that gave them
+ */
+export const toSynthesis = (reply: ChairmanReply, responses: List<ModelResponse>): Synthesis => {
+  const modelFor = labelResolver(responses)
+
+  return {
+    answer: reply.answer,
+    consensus: List(reply.consensus),
+    disputed: List(reply.disputed).map(({ point, positions }) => ({
+      point,
+      positions: List(positions).map(({ position, responses: labels }) => ({
+        position,
+        models: List(labels)
+          .flatMap((label) =>
+            modelFor(label).fold(
+              () => List.empty<string>(),
+              (model) => List.of(model),
+            ),
+          )
+          .distinct(),
+      })),
+    })),
+    uniqueInsights: List(reply.uniqueInsights).flatMap(({ response, insight }) =>
+      modelFor(response).fold(
+        () => List.empty<UniqueInsight>(),
+        (model) => List.of<UniqueInsight>({ model, insight }),
+      ),
+    ),
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Bounded debate transcripts
+ *
+ * Every debate turn re-sends the transcript so far, so left alone the prompts
+ * grow with each turn and the cost of a debate grows quadratically. A
+ * transcript here keeps the latest turns verbatim and has a summarizer model
+ * fold older ones into a running summary: beyond the last keepTurns turns
+ * when that is set, and whenever the transcript would not otherwise fit the
+ * next speaker's context window as published in OpenRouter's catalog. A
+ * failed summary leaves the transcript whole for that turn.
+ */
+
+import { List, type Option } from "functype"
+
+import { MAX_TRANSCRIPT_SUMMARY_TOKENS } from "./constants.js"
+import { estimateTokens, findContextLength, getCatalogIds, queryModel, type QueryOptions } from "./providers/index.js"
+import { isModelError, type ModelError, type ModelResponse, type TranscriptCompression } from "./types.js"
+
+/**
+ * A transcript with its running summary and compression accounting
+ */
+export type Transcript = {
+  readonly entries: List<string> // Every turn, in order
+  readonly summary: string // Covers the first `summarized` entries
+  readonly summarized: number
+  readonly summaries: number
+  readonly fullTokens: number
+  readonly sentTokens: number
+  readonly responses: List<ModelResponse> // Summarizer replies, for usage
+  readonly errors: List<ModelError>
+}
+
+/**
+ * How a transcript is compressed
+ */
+export type CompressionSettings = {
+  readonly topic: string
+  readonly summarizerModel: string
+  readonly keepTurns: Option<number>
+  readonly options: QueryOptions
+}
+
+export const emptyTranscript: Transcript = {
+  entries: List.empty(),
+  summary: "",
+  summarized: 0,
+  summaries: 0,
+  fullTokens: 0,
+  sentTokens: 0,
+  responses: List.empty(),
+  errors: List.empty(),
+}
+
+const SEPARATOR = "\n\n"
+
+/**
+ * Append a turn
+ */
+export const addEntry = (transcript: Transcript, entry: string): Transcript => ({
+  ...transcript,
+  entries: transcript.entries.add(entry),
+})
+
+const recentEntries = (transcript: Transcript): ReadonlyArray<string> =>
+  transcript.entries.toArray().slice(transcript.summarized)
+
+/**
+ * The transcript as a speaker sees it: the running summary, if any, then the turns kept verbatim
+ */
+export const renderTranscript = (transcript: Transcript): string => {
+  const recent = recentEntries(transcript).join(SEPARATOR)
+  if (!transcript.summary) return recent
+  const summary = `Summary of the earlier turns:\n${transcript.summary}`
+  return recent ? `${summary}${SEPARATOR}${recent}` : summary
+}
+
+/**
+ * Longest summary to ask for: a quarter of the transcript's window, at most MAX_TRANSCRIPT_SUMMARY_TOKENS
+ */
+const summaryCap = (window: Option<number>): number =>
+  window.fold(
+    () => MAX_TRANSCRIPT_SUMMARY_TOKENS,
+    (available) => Math.max(1, Math.min(MAX_TRANSCRIPT_SUMMARY_TOKENS, Math.floor(available / 4))),
+  )
+
+/**
+ * How many of the oldest verbatim turns to fold into the summary so that at most keepTurns remain
+ * and the transcript fits the window (tokens left for it in the speaker's context)
+ */
+export const turnsToFold = (transcript: Transcript, keepTurns: Option<number>, window: Option<number>): number => {
+  const recent = recentEntries(transcript)
+  const byCount = keepTurns.fold(
+    () => 0,
+    (keep) => Math.max(0, recent.length - keep),
+  )
+  const byWindow = window.fold(
+    () => 0,
+    (available) => {
+      const fits = (fold: number): boolean =>
+        (fold > 0 ? summaryCap(window) : estimateTokens(transcript.summary)) +
+          estimateTokens(recent.slice(fold).join(SEPARATOR)) <=
+        available
+      const fold = recent.findIndex((_, index) => fits(index))
+      return fold === -1 ? recent.length : fold
+    },
+  )
+  return Math.max(byCount, byWindow)
+}
+
+/**
+ * Prompt asking the summarizer to fold turns into the running summary
+ */
+export const summaryPrompt = (
+  topic: string,
+  summary: string,
+  turns: ReadonlyArray<string>,
+  maxTokens: number,
+): string => `You keep the record of a formal debate on the proposition:
+
+"${topic}"
+
+Update the running summary of the debate with the turns below. Keep each side's main arguments, the evidence cited, questions asked and answered, and any concessions, each attributed to the side that made it. Do not judge the debate or add arguments of your own. Keep the summary under ${Math.floor(maxTokens * 0.75)} words.
+
+Summary so far:
+${summary || "(none yet)"}
+
+Turns to add:
+${turns.join(SEPARATOR)}
+
+Respond with the updated summary only.`
+
+/**
+ * Fold the oldest verbatim turns into the summary; a failed call is recorded and nothing is folded
+ */
+const foldTurns = async (
+  transcript: Transcript,
+  settings: CompressionSettings,
+  count: number,
+  maxTokens: number,
+): Promise<Transcript> => {
+  const turns = recentEntries(transcript).slice(0, count)
+  const result = await queryModel(
+    settings.summarizerModel,
+    summaryPrompt(settings.topic, transcript.summary, turns, maxTokens),
+    undefined,
+    { ...settings.options, params: { ...settings.options.params, temperature: 0, maxTokens } },
+  )
+
+  if (isModelError(result)) {
+    return { ...transcript, errors: transcript.errors.add({ ...result, error: `Summary failed: ${result.error}` }) }
+  }
+  return {
+    ...transcript,
+    summary: result.text.trim(),
+    summarized: transcript.summarized + count,
+    summaries: transcript.summaries + 1,
+    responses: transcript.responses.add(result),
+  }
+}
+
+/**
+ * Tokens a model's context window leaves for the transcript, when the catalog knows the window
+ */
+export const contextWindow = async (model: string, reservedTokens: number): Promise<Option<number>> =>
+  (await findContextLength(getCatalogIds(model))).map((length) => Math.max(0, length - reservedTokens))
+
+/**
+ * Compress the transcript as far as the next turn needs, and render it for that turn
+ */
+export const transcriptForTurn = async (
+  transcript: Transcript,
+  settings: CompressionSettings,
+  window: Option<number>,
+): Promise<{ readonly transcript: Transcript; readonly text: string }> => {
+  const fold = turnsToFold(transcript, settings.keepTurns, window)
+  const compressed = fold === 0 ? transcript : await foldTurns(transcript, settings, fold, summaryCap(window))
+  const text = renderTranscript(compressed)
+
+  return {
+    transcript: {
+      ...compressed,
+      fullTokens: compressed.fullTokens + estimateTokens(compressed.entries.toArray().join(SEPARATOR)),
+      sentTokens: compressed.sentTokens + estimateTokens(text),
+    },
+    text,
+  }
+}
+
+/**
+ * Compression stats for the result metadata
+ */
+export const compressionStats = (transcript: Transcript, settings: CompressionSettings): TranscriptCompression => ({
+  summarizerModel: settings.summarizerModel,
+  ...settings.keepTurns.fold(
+    () => ({}),
+    (keepTurns) => ({ keepTurns }),
+  ),
+  summaries: transcript.summaries,
+  turnsSummarized: transcript.summarized,
+  fullTranscriptTokens: transcript.fullTokens,
+  sentTranscriptTokens: transcript.sentTokens,
+  ratio: transcript.fullTokens === 0 ? 1 : transcript.sentTokens / transcript.fullTokens,
+  errors: transcript.errors,
+})
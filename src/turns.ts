@@ -0,0 +1,115 @@
+/**
+ * Resilient turns for sequential discussions (debates, roundtables)
+ *
+ * A turn that fails with a transient error (rate limit, timeout, server
+ * error, open circuit) is retried after a pause. If it still fails and a
+ * fallback model was given, the fallback takes the turn, and the caller hands
+ * it the seat for the rest of the discussion. Only when that fails too is the
+ * turn lost; the caller keeps every turn completed so far.
+ */
+
+import { setTimeout as sleep } from "node:timers/promises"
+
+import { type Either, Left, Option, Right } from "functype"
+
+import { getOutputCap, type PlannedQuery } from "./budget.js"
+import { getRequestSignal } from "./cancellation.js"
+import { FALLBACK_SEPARATOR, TURN_RETRY_DELAY_MS } from "./constants.js"
+import { queryModel, type QueryOptions } from "./providers/index.js"
+import { isModelError, type ModelError, type ModelResponse } from "./types.js"
+
+/**
+ * A turn that produced a reply, noting the model it replaced if the fallback took it
+ */
+export type TurnResult = {
+  readonly model: string // The model that took this turn
+  readonly response: ModelResponse
+  readonly replaced?: { readonly model: string; readonly error: string }
+}
+
+/**
+ * A turn that failed for good
+ */
+export type TurnFailure = {
+  readonly model: string
+  readonly error: ModelError
+  readonly attempts: number
+}
+
+/**
+ * How a turn is run
+ */
+export type TurnOptions = QueryOptions & {
+  readonly retries: number
+  readonly fallback: Option<string> // Model to substitute when the seat's model fails
+  readonly retryDelayMs?: number
+}
+
+/**
+ * Query a turn, retrying transient failures with a growing pause
+ */
+const attemptTurn = async (
+  model: string,
+  prompt: string,
+  options: TurnOptions,
+  attempt: number = 1,
+): Promise<Either<TurnFailure, ModelResponse>> => {
+  const result = await queryModel(model, prompt, undefined, options)
+  if (!isModelError(result)) return Right(result)
+  if (!result.retryable || attempt > options.retries) return Left({ model, error: result, attempts: attempt })
+
+  // A cancelled pause ends early; the next query then reports the cancellation
+  await sleep((options.retryDelayMs ?? TURN_RETRY_DELAY_MS) * attempt, undefined, {
+    signal: options.abortSignal ?? getRequestSignal().orUndefined(),
+  }).catch(() => undefined)
+  return attemptTurn(model, prompt, options, attempt + 1)
+}
+
+/**
+ * Take a turn, substituting the fallback model if the seat's model fails
+ */
+export const takeTurn = async (
+  model: string,
+  prompt: string,
+  options: TurnOptions,
+): Promise<Either<TurnFailure, TurnResult>> => {
+  const first = await attemptTurn(model, prompt, options)
+
+  return first.fold(
+    (failure) =>
+      options.fallback
+        .filter((fallback) => fallback !== model)
+        .fold(
+          () => Promise.resolve(Left<TurnFailure, TurnResult>(failure)),
+          async (fallback) => {
+            const substituted = await attemptTurn(fallback, prompt, options)
+            return substituted.map(
+              (response): TurnResult => ({
+                model: fallback,
+                response,
+                replaced: { model, error: failure.error.error },
+              }),
+            )
+          },
+        ),
+    (response) => Promise.resolve(Right<TurnFailure, TurnResult>({ model, response })),
+  )
+}
+
+/**
+ * A seat's turn as a budget check plans it. Once the fallback may take the turn it may be
+ * billed at either model, so it is planned as a chain of the two, which is estimated at the
+ * dearer of them, with the larger of their output caps.
+ */
+export const planTurn = (
+  model: string,
+  fallback: Option<string>,
+  maxTokens?: number,
+): Pick<PlannedQuery, "model" | "maxOutputTokens"> =>
+  fallback.fold(
+    () => ({ model, maxOutputTokens: getOutputCap(model, maxTokens) }),
+    (substitute) => ({
+      model: `${model} ${FALLBACK_SEPARATOR} ${substitute}`,
+      maxOutputTokens: Math.max(getOutputCap(model, maxTokens), getOutputCap(substitute, maxTokens)),
+    }),
+  )
@@ -22,6 +22,7 @@ export type OpenRouterModel = {
     readonly completion: string
   }
   readonly provider: string
+  readonly inputModalities?: readonly string[] // e.g. ["text", "image", "file"]; omitted when the catalog doesn't say
 }
 
 /**
@@ -44,6 +45,24 @@ export type SearchModelsResult = {
   readonly totalMatches: number
 }
 
+/**
+ * Token counts reported by a provider for a single generation
+ */
+export type TokenUsage = {
+  readonly promptTokens: number
+  readonly completionTokens: number
+  readonly reasoningTokens: number // Subset of completionTokens spent on reasoning
+  readonly totalTokens: number
+}
+
+/**
+ * Aggregated token usage and cost across all responses in a tool call
+ */
+export type UsageSummary = TokenUsage & {
+  readonly costUsd: number
+  readonly unpricedModels: List<string> // Models with no known pricing (excluded from costUsd)
+}
+
 /**
  * Result of a single model query
  */
@@ -52,6 +71,11 @@ export type ModelResponse = {
   readonly actualModel?: string // The actual model used (e.g., from OpenRouter's free router)
   readonly text: string
   readonly latencyMs: number
+  readonly usage: TokenUsage
+  readonly costUsd?: number // Omitted when the model has no known pricing
+  readonly cached?: boolean // Served from the response cache (costUsd is 0)
+  readonly replayed?: boolean // Served from a recording (costUsd is 0)
+  readonly servedBy?: string // Fallback chain entry that produced the response
 }
 
 /**
@@ -60,6 +84,7 @@ export type ModelResponse = {
 export type ModelError = {
   readonly model: string
   readonly error: string
+  readonly retryable?: boolean // Transient failure (rate limit, server error, timeout, open circuit)
 }
 
 /**
@@ -77,6 +102,24 @@ export const isModelResponse = (result: QueryResult): result is ModelResponse =>
  */
 export const isModelError = (result: QueryResult): result is ModelError => "error" in result
 
+/**
+ * How a call's attachments were distributed across the panel
+ */
+export type AttachmentReport = {
+  readonly count: number
+  readonly skippedModels: List<string> // Known text-only models that were not queried
+  readonly unverifiedModels: List<string> // Models queried without catalog confirmation that they accept attachments
+}
+
+/**
+ * Whether a council query's overall deadline cut any models off
+ */
+export type DeadlineReport = {
+  readonly deadlineMs: number
+  readonly reached: boolean
+  readonly timedOutModels: List<string> // Models abandoned when the deadline passed
+}
+
 /**
  * Result of a council query (parallel multi-model)
  */
@@ -87,29 +130,235 @@ export type CouncilQueryResult = {
     readonly totalLatencyMs: number
     readonly successCount: number
     readonly failedModels: List<string>
+    readonly usage: UsageSummary
+    readonly attachments?: AttachmentReport
+    readonly deadline?: DeadlineReport // Present when a deadline was set
   }
 }
 
+/**
+ * How a debate is structured:
+ * - classic: every round continues the debate with the same prompt
+ * - oxford: opening, rebuttal and closing speeches
+ * - lincoln-douglas: constructive cases, cross-examination of each side, then rebuttals
+ * - steelman: openings, then rebuttals that first restate the opponent's best case, then closings
+ */
+export type DebateFormat = "classic" | "oxford" | "lincoln-douglas" | "steelman"
+
+/**
+ * What a debate round is for, which decides the speakers' instructions
+ */
+export type DebatePhase =
+  | "argument"
+  | "opening"
+  | "constructive"
+  | "cross-examination"
+  | "rebuttal"
+  | "steelman"
+  | "closing"
+
 /**
  * A single round in a debate
  */
 export type DebateRound = {
   readonly round: number
+  readonly phase: DebatePhase
+  readonly firstSpeaker: DebateSide // In cross-examination, the side asking the questions
   readonly affirmative: string
   readonly negative: string
 }
 
+/**
+ * A judge's scores for one side in one round, each 1-10
+ */
+export type DebateScores = {
+  readonly argumentStrength: number
+  readonly rebuttalQuality: number
+  readonly evidence: number
+  readonly total: number // Sum of the three criteria
+}
+
+/**
+ * Both sides' scores for one round
+ */
+export type RoundScore = {
+  readonly round: number
+  readonly affirmative: DebateScores
+  readonly negative: DebateScores
+}
+
+/**
+ * Outcome a judge can give
+ */
+export type DebateWinner = "affirmative" | "negative" | "draw"
+
+/**
+ * One judge's scores and verdict
+ */
+export type JudgeScorecard = {
+  readonly judge: string
+  readonly rounds: List<RoundScore>
+  readonly winner: DebateWinner
+  readonly rationale: string
+}
+
+/**
+ * A round's scores averaged over the judges
+ */
+export type JudgedRound = RoundScore & {
+  readonly marginSpread: number // Range of the judges' affirmative-minus-negative totals; 0 when they agree exactly
+}
+
+/**
+ * The judges' verdicts combined
+ */
+export type DebateVerdict = {
+  readonly winner: DebateWinner // Majority verdict; a split without a majority is a draw
+  readonly votes: Readonly<Record<DebateWinner, number>>
+  readonly agreement: number // Share of judges giving the most common verdict (0-1)
+  readonly unanimous: boolean
+}
+
+/**
+ * Judging of a debate
+ */
+export type DebateJudging = {
+  readonly scorecards: List<JudgeScorecard>
+  readonly rounds: List<JudgedRound>
+  readonly verdict?: DebateVerdict // Omitted when no judge returned a valid scorecard
+  readonly parseFailures: List<ParseFailure>
+  readonly errors: List<ModelError>
+}
+
+/**
+ * A side of a debate
+ */
+export type DebateSide = "affirmative" | "negative"
+
+/**
+ * A debater replaced by the fallback debater after failing a turn
+ */
+export type DebaterSubstitution = {
+  readonly round: number
+  readonly side: DebateSide
+  readonly from: string
+  readonly to: string
+  readonly error: string // Why the original debater was replaced
+}
+
+/**
+ * Where a debate stopped when a turn failed for good
+ */
+export type DebateFailure = {
+  readonly round: number
+  readonly side: DebateSide
+  readonly model: string
+  readonly error: string
+  readonly attempts: number
+  readonly pendingArgument?: { readonly side: DebateSide; readonly text: string } // The first speaker's turn in the failed round, when the second speaker failed
+}
+
+/**
+ * How far a debate's transcript was compressed. Token counts are estimates summed over every turn.
+ */
+export type TranscriptCompression = {
+  readonly summarizerModel: string
+  readonly keepTurns?: number // Turns kept verbatim, when set
+  readonly summaries: number // Times the summarizer folded turns into the running summary
+  readonly turnsSummarized: number
+  readonly fullTranscriptTokens: number // What the turns would have re-sent uncompressed
+  readonly sentTranscriptTokens: number // What they actually sent
+  readonly ratio: number // sentTranscriptTokens / fullTranscriptTokens; 1 when nothing was compressed
+  readonly errors: List<ModelError> // Failed summarizer calls; those turns kept the full transcript
+}
+
 /**
  * Result of a debate
  */
 export type DebateResult = {
   readonly topic: string
+  readonly format: DebateFormat
   readonly affirmativeModel: string
   readonly negativeModel: string
-  readonly rounds: List<DebateRound>
+  readonly rounds: List<DebateRound> // Completed rounds only
+  readonly substitutions: List<DebaterSubstitution>
+  readonly failure?: DebateFailure // Present when the debate ended early
+  readonly judging?: DebateJudging // Present when judges were requested and at least one round completed
   readonly metadata: {
     readonly totalExchanges: number
     readonly totalLatencyMs: number
+    readonly usage: UsageSummary
+    readonly compression: TranscriptCompression
+  }
+}
+
+/**
+ * A seat at a roundtable: the model holding it and the stance or persona it argues from
+ */
+export type RoundtableParticipant = {
+  readonly name: string
+  readonly model: string
+  readonly stance: string
+}
+
+/**
+ * One participant's contribution in a roundtable round
+ */
+export type RoundtableTurn = {
+  readonly round: number
+  readonly participant: string // Participant name
+  readonly model: string // The model that spoke, after any substitution
+  readonly text: string
+}
+
+/**
+ * The moderator's summary after a round, with questions for the next one
+ */
+export type ModeratorNote = {
+  readonly round: number
+  readonly summary: string
+  readonly followUpQuestions: List<string> // Empty after the final round
+}
+
+/**
+ * A participant's model replaced by the fallback model after failing a turn
+ */
+export type RoundtableSubstitution = {
+  readonly round: number
+  readonly participant: string
+  readonly from: string
+  readonly to: string
+  readonly error: string // Why the original model was replaced
+}
+
+/**
+ * A participant who left the roundtable after failing a turn
+ */
+export type RoundtableDeparture = {
+  readonly round: number
+  readonly participant: string
+  readonly model: string
+  readonly error: string
+  readonly attempts: number
+}
+
+/**
+ * Result of a roundtable discussion
+ */
+export type RoundtableResult = {
+  readonly topic: string
+  readonly participants: List<RoundtableParticipant>
+  readonly moderatorModel: string
+  readonly turns: List<RoundtableTurn>
+  readonly moderatorNotes: List<ModeratorNote>
+  readonly substitutions: List<RoundtableSubstitution>
+  readonly departures: List<RoundtableDeparture>
+  readonly errors: List<ModelError> // Moderator calls that failed; the discussion continued without them
+  readonly stoppedEarly: boolean // Fewer than two participants remained
+  readonly metadata: {
+    readonly rounds: number // Rounds held
+    readonly totalLatencyMs: number
+    readonly usage: UsageSummary
   }
 }
 
@@ -123,32 +372,212 @@ export type Critique = {
   readonly overallAssessment: string
 }
 
+/**
+ * A reply that could not be parsed into the expected structure, even after asking for a correction
+ */
+export type ParseFailure = {
+  readonly model: string
+  readonly error: string // Validation errors for the last reply
+  readonly rawText: string // The last reply (truncated)
+  readonly attempts: number
+}
+
 /**
  * Result of a critique request
  */
 export type CritiqueResult = {
   readonly critique: Critique
+  readonly parseFailure?: ParseFailure // Set when the critic's reply was malformed; the critique is then empty
   readonly metadata: {
     readonly criticModel: string
     readonly latencyMs: number
+    readonly repaired: boolean // The critic's first reply was malformed and its correction was used
+    readonly usage: UsageSummary
+  }
+}
+
+/**
+ * One distinct value given for a field, with the models that gave it
+ */
+export type FieldChoice = {
+  readonly value: unknown
+  readonly models: List<string>
+}
+
+/**
+ * How closely the panel agreed on one field of a structured answer
+ */
+export type FieldAgreement = {
+  readonly field: string // Dotted path into the answer object, e.g. "address.city"
+  readonly unanimous: boolean // Every answer gave the same value
+  readonly agreement: number // Share of answers giving the most common value (0-1)
+  readonly choices: List<FieldChoice> // Distinct values, most common first
+  readonly missing: List<string> // Models whose answer omitted the field
+  readonly numeric?: {
+    // Present when every value given is a number
+    readonly min: number
+    readonly max: number
+    readonly mean: number
+    readonly spread: number // max - min
+  }
+}
+
+/**
+ * A model's validated answer to a structured council query
+ */
+export type CouncilAnswer = {
+  readonly model: string
+  readonly value: unknown
+  readonly repaired: boolean
+}
+
+/**
+ * Result of a structured council query
+ */
+export type StructuredCouncilResult = {
+  readonly answers: List<CouncilAnswer>
+  readonly fields: List<FieldAgreement>
+  readonly parseFailures: List<ParseFailure>
+  readonly errors: List<ModelError>
+  readonly metadata: {
+    readonly totalLatencyMs: number
+    readonly successCount: number // Models whose answer validated
+    readonly failedModels: List<string>
+    readonly usage: UsageSummary
+  }
+}
+
+/**
+ * A point the council disagreed on, with the models holding each position
+ */
+export type DisputedPoint = {
+  readonly point: string
+  readonly positions: List<{ readonly position: string; readonly models: List<string> }>
+}
+
+/**
+ * An insight only one model raised
+ */
+export type UniqueInsight = {
+  readonly model: string
+  readonly insight: string
+}
+
+/**
+ * A chairman model's synthesis of the council's responses
+ */
+export type Synthesis = {
+  readonly answer: string
+  readonly consensus: List<string>
+  readonly disputed: List<DisputedPoint>
+  readonly uniqueInsights: List<UniqueInsight>
+}
+
+/**
+ * Result of a synthesized council query
+ */
+export type SynthesisResult = {
+  readonly synthesis: Synthesis
+  readonly parseFailure?: ParseFailure // Set when the chairman's reply was malformed; the synthesis is then empty
+  readonly responses?: List<ModelResponse> // Only when the caller asks for the full responses
+  readonly errors: List<ModelError>
+  readonly metadata: {
+    readonly chairmanModel: string
+    readonly totalLatencyMs: number
+    readonly successCount: number
+    readonly failedModels: List<string>
+    readonly repaired: boolean // The chairman's first reply was malformed and its correction was used
+    readonly usage: UsageSummary // Council and chairman together
+    readonly attachments?: AttachmentReport
+    readonly deadline?: DeadlineReport
+  }
+}
+
+/**
+ * One reviewer's critique of another model's answer
+ */
+export type ResponseCritique = {
+  readonly model: string // The model whose answer was critiqued
+  readonly strengths: List<string>
+  readonly weaknesses: List<string>
+  readonly assessment: string
+}
+
+/**
+ * A council member's review of the other members' answers
+ */
+export type PeerReview = {
+  readonly reviewer: string
+  readonly critiques: List<ResponseCritique>
+  readonly ranking: List<string> // Models, best first
+}
+
+/**
+ * An answer's place in the aggregated ranking
+ */
+export type RankedAnswer = {
+  readonly rank: number
+  readonly model: string
+  readonly points: number // Borda points summed over all ballots
+  readonly ballots: number // Reviews that ranked this answer
+  readonly averagePosition?: number // Mean position on those ballots (1 = best); omitted when none ranked it
+}
+
+/**
+ * Result of a peer-reviewed council query
+ */
+export type PeerReviewResult = {
+  readonly responses: List<ModelResponse>
+  readonly ranking: List<RankedAnswer>
+  readonly reviews: List<PeerReview>
+  readonly parseFailures: List<ParseFailure>
+  readonly errors: List<ModelError> // Failed answers and failed reviews
+  readonly metadata: {
+    readonly totalLatencyMs: number
+    readonly successCount: number
+    readonly reviewCount: number // Reviews whose ranking was used
+    readonly failedModels: List<string>
+    readonly usage: UsageSummary // Answers and reviews together
+    readonly attachments?: AttachmentReport
+    readonly deadline?: DeadlineReport
   }
 }
 
 /**
  * Provider type for model resolution
  */
-export type ProviderType = "openrouter" | "openai" | "anthropic" | "google" | "mistral"
+export type ProviderType = "openrouter" | "openai" | "anthropic" | "google" | "mistral" | "local" | "mock"
+
+/**
+ * An OpenAI-compatible endpoint (Ollama, vLLM, LM Studio, llama.cpp, ...)
+ */
+export type LocalEndpoint = {
+  readonly name: string
+  readonly baseURL: string
+  readonly apiKey?: string
+}
 
 /**
  * Health check result for a provider
  */
 export type ProviderHealth = {
   readonly provider: ProviderType
-  readonly status: "healthy" | "unhealthy" | "unconfigured"
+  readonly status: "healthy" | "degraded" | "unhealthy" | "unconfigured"
+  readonly probed?: boolean // True when a real request was sent (deep check)
+  readonly model?: string // Model used for the probe
   readonly latencyMs?: number
   readonly error?: string
+  readonly failure?: ProbeFailure
+  readonly rateLimit?: Readonly<Record<string, string>> // Rate-limit response headers, when the provider sends them
+  readonly checkedAt?: string
+  readonly cached?: boolean
 }
 
+/**
+ * Why a connectivity probe failed
+ */
+export type ProbeFailure = "auth" | "quota" | "rate_limited" | "timeout" | "network" | "error"
+
 /**
  * Result of health_check tool
  */
@@ -158,6 +587,57 @@ export type HealthCheckResult = {
   readonly timestamp: string
 }
 
+/**
+ * An image or PDF sent to models alongside the prompt
+ */
+export type Attachment = {
+  readonly mediaType: string // e.g. "image/png", "application/pdf"
+  readonly data: string // Base64-encoded content
+  readonly filename?: string
+}
+
+/**
+ * A message in a multi-turn conversation with one model
+ */
+export type ChatMessage = {
+  readonly role: "user" | "assistant"
+  readonly content: string
+}
+
+/**
+ * Result of one turn in a multi-model session
+ */
+export type SessionMessageResult = {
+  readonly sessionId: string
+  readonly turn: number
+  readonly responses: List<ModelResponse>
+  readonly errors: List<ModelError>
+  readonly metadata: {
+    readonly totalLatencyMs: number
+    readonly successCount: number
+    readonly failedModels: List<string>
+    readonly usage: UsageSummary
+    readonly sessionUsage: UsageSummary // Running total for the whole session
+  }
+}
+
+/**
+ * How much effort reasoning models should spend thinking
+ */
+export type ReasoningEffort = "low" | "medium" | "high"
+
+/**
+ * Generation settings passed through to the model; unset fields use provider defaults
+ */
+export type GenerationParams = {
+  readonly temperature?: number
+  readonly maxTokens?: number // Output token cap
+  readonly topP?: number
+  readonly seed?: number
+  readonly stopSequences?: readonly string[]
+  readonly reasoningEffort?: ReasoningEffort
+}
+
 /**
  * Query parameters for a single model
  */
@@ -222,6 +702,7 @@ export type ChallengeResult = {
   readonly context?: string
   readonly challenges: List<Challenge>
   readonly errors: List<ModelError>
+  readonly parseFailures: List<ParseFailure> // Challengers whose replies were malformed, as opposed to finding nothing
   readonly summary: {
     readonly totalChallenges: number
     readonly bySeverity: Record<"minor" | "moderate" | "significant", number>
@@ -231,5 +712,7 @@ export type ChallengeResult = {
     readonly totalLatencyMs: number
     readonly successCount: number
     readonly challengerModels: List<string>
+    readonly repairedModels: List<string> // Challengers whose first reply was malformed but corrected
+    readonly usage: UsageSummary
   }
 }
@@ -0,0 +1,46 @@
+import { List } from "functype"
+import { describe, expect, it } from "vitest"
+
+import { compareAnswers } from "../src/agreement"
+import type { CouncilAnswer } from "../src/types"
+
+const answer = (model: string, value: unknown): CouncilAnswer => ({ model, value, repaired: false })
+
+describe("compareAnswers", () => {
+  const fields = compareAnswers(
+    List.of(
+      answer("a", { sentiment: "positive", score: 0.9, tags: ["x", "y"], address: { city: "Oslo" } }),
+      answer("b", { sentiment: "positive", score: 0.6, tags: ["x", "y"], address: { city: "Bergen" } }),
+      answer("c", { sentiment: "neutral", score: 0.75, tags: ["x", "y"] }),
+    ),
+  )
+  const byField = Object.fromEntries(fields.toArray().map((f) => [f.field, f]))
+
+  it("should list fields in first-seen order, flattening nested objects", () => {
+    expect(fields.map((f) => f.field).toArray()).toEqual(["sentiment", "score", "tags", "address.city"])
+  })
+
+  it("should group differing choices with the models that gave them", () => {
+    const sentiment = byField.sentiment
+    expect(sentiment?.unanimous).toBe(false)
+    expect(sentiment?.agreement).toBeCloseTo(2 / 3)
+    expect(sentiment?.choices.toArray().map((c) => [c.value, c.models.toArray()])).toEqual([
+      ["positive", ["a", "b"]],
+      ["neutral", ["c"]],
+    ])
+  })
+
+  it("should compare arrays as whole values", () => {
+    expect(byField.tags).toMatchObject({ unanimous: true, agreement: 1 })
+  })
+
+  it("should report numeric spread", () => {
+    expect(byField.score?.numeric).toEqual({ min: 0.6, max: 0.9, mean: 0.75, spread: expect.closeTo(0.3) as number })
+    expect(byField.sentiment?.numeric).toBeUndefined()
+  })
+
+  it("should list models that omitted a field", () => {
+    expect(byField["address.city"]?.missing.toArray()).toEqual(["c"])
+    expect(byField["address.city"]?.unanimous).toBe(false)
+  })
+})
@@ -0,0 +1,113 @@
+import { List } from "functype"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import { resetConfig, setConfig } from "../src/config"
+import { getDefaultCouncilModelsAsync } from "../src/constants"
+import { expandModels, listPanels, resolveAlias, resolvePanel } from "../src/providers/aliases"
+
+describe("aliases and panels", () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    delete process.env.PANEL_ALIASES
+    delete process.env.PANEL_DEFAULT_MODELS
+    setConfig({
+      aliases: {
+        smart: "anthropic/claude-sonnet-4-5",
+        "claude-sonnet-4-20250514": "smart",
+        loop: "loop2",
+        loop2: "loop",
+      },
+      panels: { deep: ["smart", "openai/gpt-4o"], fast: ["openai/gpt-4o-mini", "openai/gpt-4o"] },
+    })
+  })
+
+  afterEach(() => {
+    resetConfig()
+    process.env = originalEnv
+  })
+
+  describe("resolveAlias", () => {
+    it("should pass plain model IDs through", () => {
+      expect(resolveAlias("openai/gpt-4o").orThrow()).toBe("openai/gpt-4o")
+    })
+
+    it("should follow aliases, including aliases of aliases", () => {
+      expect(resolveAlias("smart").orThrow()).toBe("anthropic/claude-sonnet-4-5")
+      expect(resolveAlias("claude-sonnet-4-20250514").orThrow()).toBe("anthropic/claude-sonnet-4-5")
+    })
+
+    it("should resolve each entry of a fallback chain", () => {
+      expect(resolveAlias("smart -> openrouter/openrouter/free").orThrow()).toBe(
+        "anthropic/claude-sonnet-4-5 -> openrouter/openrouter/free",
+      )
+    })
+
+    it("should let PANEL_ALIASES override the config file", () => {
+      process.env.PANEL_ALIASES = "smart=openai/gpt-5, fast=openai/gpt-4o-mini"
+      expect(resolveAlias("smart").orThrow()).toBe("openai/gpt-5")
+      expect(resolveAlias("fast").orThrow()).toBe("openai/gpt-4o-mini")
+    })
+
+    it("should reject cycles and panels", () => {
+      expect(resolveAlias("loop").isLeft()).toBe(true)
+      expect(resolveAlias("@deep").isLeft()).toBe(true)
+    })
+  })
+
+  describe("expandModels", () => {
+    it("should expand panels, resolve aliases and drop duplicates", async () => {
+      const models = (await expandModels(List.of("@deep", "@fast"))).orThrow()
+      expect(models.toArray()).toEqual(["anthropic/claude-sonnet-4-5", "openai/gpt-4o", "openai/gpt-4o-mini"])
+    })
+
+    it("should expand the built-in default panel", async () => {
+      process.env.PANEL_DEFAULT_MODELS = "a/one,b/two"
+      expect((await expandModels(List.of("@default"))).orThrow().toArray()).toEqual(["a/one", "b/two"])
+    })
+
+    it("should keep every seat of a panel that repeats a model", async () => {
+      const free = ["openrouter/openrouter/free", "openrouter/openrouter/free", "openrouter/openrouter/free"]
+      expect((await expandModels(List.of("@free"))).orThrow().toArray()).toEqual(free)
+
+      process.env.PANEL_DEFAULT_MODELS = "free"
+      expect((await expandModels(List.of("@default"))).orThrow().toArray()).toEqual(free)
+      expect(
+        resolvePanel(await getDefaultCouncilModelsAsync())
+          .orThrow()
+          .toArray(),
+      ).toEqual(free)
+    })
+
+    it("should drop a model an earlier argument already brought in", async () => {
+      expect((await expandModels(List.of("openai/gpt-4o", "@fast", "openai/gpt-4o"))).orThrow().toArray()).toEqual([
+        "openai/gpt-4o",
+        "openai/gpt-4o-mini",
+      ])
+    })
+
+    it("should report unknown panels", async () => {
+      const result = await expandModels(List.of("@missing"))
+      expect(
+        result.fold(
+          (e) => e,
+          () => "",
+        ),
+      ).toContain("Unknown panel @missing")
+    })
+  })
+
+  describe("listPanels", () => {
+    it("should list config and built-in panels with their expansions", async () => {
+      process.env.PANEL_DEFAULT_MODELS = "a/one"
+      // Shadow the built-in free panel so the test does not hit the OpenRouter API
+      setConfig({ panels: { deep: ["openai/gpt-4o"], free: ["x/free"] } })
+      const panels = await listPanels()
+      const byName = Object.fromEntries(panels.map((p) => [p.name, p.models.toArray()]).toArray())
+      expect(byName.deep).toEqual(["openai/gpt-4o"])
+      expect(byName.free).toEqual(["x/free"])
+      expect(byName.default).toEqual(["a/one"])
+    })
+  })
+})
@@ -0,0 +1,130 @@
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import { List } from "functype"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { loadAttachments, prepareAttachments } from "../src/attachments"
+import { clearModelCache } from "../src/providers/openrouter-models"
+
+const PNG = Buffer.from("89504e470d0a1a0a", "hex").toString("base64")
+
+const loadError = async (inputs: Parameters<typeof loadAttachments>[0]): Promise<string> =>
+  (await loadAttachments(inputs)).fold(
+    (error) => error,
+    () => "",
+  )
+
+describe("attachments", () => {
+  const originalEnv = process.env
+  const root = mkdtempSync(join(tmpdir(), "panel-attachments-"))
+  const allowed = join(root, "allowed")
+
+  beforeAll(() => {
+    mkdirSync(allowed)
+    writeFileSync(join(allowed, "shot.png"), Buffer.from(PNG, "base64"))
+    writeFileSync(join(allowed, "notes.txt"), "hello")
+    writeFileSync(join(root, "secret.pdf"), "%PDF-1.4")
+    symlinkSync(join(root, "secret.pdf"), join(allowed, "link.pdf"))
+  })
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, PANEL_ATTACHMENT_DIR: allowed }
+    delete process.env.PANEL_MAX_ATTACHMENT_BYTES
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  describe("loadAttachments", () => {
+    it("should accept inline base64 and data URLs", async () => {
+      const loaded = (
+        await loadAttachments([{ data: PNG, mediaType: "image/png" }, { data: `data:application/pdf;base64,${PNG}` }])
+      ).orThrow()
+      expect(loaded.map((a) => a.mediaType).toArray()).toEqual(["image/png", "application/pdf"])
+      expect(loaded.head?.data).toBe(PNG)
+    })
+
+    it("should reject inline data without a usable media type or with invalid base64", async () => {
+      expect(await loadError([{ data: PNG }])).toContain("mediaType is required")
+      expect(await loadError([{ data: PNG, mediaType: "text/plain" }])).toContain("unsupported media type")
+      expect(await loadError([{ data: "not base64!", mediaType: "image/png" }])).toContain("not valid base64")
+    })
+
+    it("should read files inside the attachment directory", async () => {
+      const loaded = (await loadAttachments([{ path: "shot.png" }])).orThrow()
+      expect(loaded.head).toEqual({ mediaType: "image/png", data: PNG, filename: "shot.png" })
+    })
+
+    it("should refuse paths that escape the attachment directory", async () => {
+      expect(await loadError([{ path: "../secret.pdf" }])).toContain("outside the attachment directory")
+      expect(await loadError([{ path: join(root, "secret.pdf") }])).toContain("outside the attachment directory")
+      expect(await loadError([{ path: "link.pdf" }])).toContain("outside the attachment directory")
+    })
+
+    it("should refuse unsupported and oversized files", async () => {
+      expect(await loadError([{ path: "notes.txt" }])).toContain("unsupported media type")
+      process.env.PANEL_MAX_ATTACHMENT_BYTES = "4"
+      expect(await loadError([{ path: "shot.png" }])).toContain("exceeds")
+    })
+
+    it("should refuse file paths when no attachment directory is configured", async () => {
+      delete process.env.PANEL_ATTACHMENT_DIR
+      expect(await loadError([{ path: "shot.png" }])).toContain("file attachments are disabled")
+    })
+  })
+
+  describe("prepareAttachments", () => {
+    beforeEach(() => {
+      clearModelCache()
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(() =>
+          Promise.resolve(
+            new Response(
+              JSON.stringify({
+                data: [
+                  { id: "openai/gpt-4o", architecture: { input_modalities: ["text", "image", "file"] } },
+                  { id: "openai/gpt-3.5-turbo", architecture: { input_modalities: ["text"] } },
+                  { id: "mistralai/mistral-large-latest" },
+                ],
+              }),
+            ),
+          ),
+        ),
+      )
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      clearModelCache()
+    })
+
+    it("should skip text-only models and flag models the catalog doesn't describe", async () => {
+      const plan = (
+        await prepareAttachments(
+          [{ data: PNG, mediaType: "image/png" }],
+          List.of("openai/gpt-4o", "openai/gpt-3.5-turbo", "mistral/mistral-large-latest", "local/llava"),
+        )
+      ).orThrow()
+
+      expect(plan.models.toArray()).toEqual(["openai/gpt-4o", "mistral/mistral-large-latest", "local/llava"])
+      expect(plan.skipped.toArray()).toEqual([
+        { model: "openai/gpt-3.5-turbo", error: "Model does not accept image input" },
+      ])
+      expect(plan.unverified.toArray()).toEqual(["mistral/mistral-large-latest", "local/llava"])
+    })
+
+    it("should leave the panel untouched without attachments", async () => {
+      const plan = (await prepareAttachments(undefined, List.of("openai/gpt-3.5-turbo"))).orThrow()
+      expect(plan.models.toArray()).toEqual(["openai/gpt-3.5-turbo"])
+      expect(fetch).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { List } from "functype"
+
+import {
+  checkBudget,
+  clearSessionSpend,
+  enforceBudget,
+  getSessionReserved,
+  getSessionSpend,
+  planQueries,
+  recordSpend,
+  settleSpend,
+} from "../src/budget"
+import { clearModelCache } from "../src/providers/openrouter-models"
+
+describe("budget", () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    delete process.env.PANEL_MAX_COST_PER_CALL_USD
+    delete process.env.PANEL_MAX_SESSION_COST_USD
+    delete process.env.PANEL_ESTIMATE_MAX_TOKENS
+    delete process.env.PANEL_UNPRICED_PRICE_PER_MTOK_USD
+    clearSessionSpend()
+    clearModelCache()
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    vi.unstubAllGlobals()
+  })
+
+  describe("planQueries", () => {
+    it("should plan one query per model with the estimate output cap", () => {
+      process.env.PANEL_ESTIMATE_MAX_TOKENS = "100"
+      const planned = planQueries(List.of("a", "b"), "12345678", "1234")
+      expect(planned.toArray()).toEqual([
+        { model: "a", promptTokens: 3, maxOutputTokens: 100 },
+        { model: "b", promptTokens: 3, maxOutputTokens: 100 },
+      ])
+    })
+
+    it("should count attachments towards each prompt", () => {
+      const pdf = { mediaType: "application/pdf", data: Buffer.alloc(800).toString("base64") }
+      const png = { mediaType: "image/png", data: "iVBORw0KGgo=" }
+      const planned = planQueries(List.of("a"), "12345678", undefined, 100, List.of(pdf, png))
+      expect(planned.head?.promptTokens).toBe(2 + 100 + 1600)
+    })
+  })
+
+  describe("session spend", () => {
+    it("should accumulate per session", () => {
+      recordSpend(0.25, "s1")
+      recordSpend(0.5, "s1")
+      recordSpend(1)
+      expect(getSessionSpend("s1")).toBe(0.75)
+      expect(getSessionSpend()).toBe(1)
+      expect(getSessionSpend("other")).toBe(0)
+    })
+  })
+
+  describe("checkBudget", () => {
+    const estimate = { costUsd: 0.5, unpricedModels: List.empty<string>() }
+
+    it("should allow calls when no limits are configured", () => {
+      expect(checkBudget(estimate).isEmpty).toBe(true)
+    })
+
+    it("should refuse calls over the per-call limit", () => {
+      process.env.PANEL_MAX_COST_PER_CALL_USD = "0.1"
+      const violation = checkBudget(estimate).orThrow()
+      expect(violation.code).toBe("BUDGET_EXCEEDED")
+      expect(violation.scope).toBe("call")
+      expect(violation.limitUsd).toBe(0.1)
+    })
+
+    it("should refuse calls that would exceed the session limit", () => {
+      process.env.PANEL_MAX_SESSION_COST_USD = "1"
+      recordSpend(0.75, "s1")
+      const violation = checkBudget(estimate, "s1").orThrow()
+      expect(violation.scope).toBe("session")
+      expect(violation.sessionSpentUsd).toBe(0.75)
+      expect(checkBudget(estimate, "s2").isEmpty).toBe(true)
+    })
+  })
+
+  describe("enforceBudget", () => {
+    it("should skip the pricing lookup when no budget is configured", async () => {
+      const fetchMock = vi.fn()
+      vi.stubGlobal("fetch", fetchMock)
+      const result = await enforceBudget(planQueries(List.of("openai/gpt-4o"), "hello"))
+      expect(result.isRight()).toBe(true)
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    describe("with a budget", () => {
+      beforeEach(() => {
+        process.env.PANEL_ESTIMATE_MAX_TOKENS = "100000"
+        vi.stubGlobal(
+          "fetch",
+          vi.fn(() =>
+            Promise.resolve(
+              new Response(
+                JSON.stringify({ data: [{ id: "openai/gpt-4o", pricing: { prompt: "0", completion: "0.00001" } }] }),
+              ),
+            ),
+          ),
+        )
+      })
+
+      it("should hold passing estimates against the session until they are settled", async () => {
+        process.env.PANEL_MAX_SESSION_COST_USD = "1.5"
+        const planned = planQueries(List.of("openai/gpt-4o"), "hello")
+
+        const first = (await enforceBudget(planned, "s1")).orThrow()
+        expect(getSessionReserved("s1")).toBeCloseTo(1)
+
+        const concurrent = await enforceBudget(planned, "s1")
+        expect(concurrent.isLeft()).toBe(true)
+        concurrent.fold(
+          (violation) => expect(violation.sessionReservedUsd).toBeCloseTo(1),
+          () => undefined,
+        )
+
+        settleSpend(first, 0.2)
+        settleSpend(first, 0.2)
+        expect(getSessionReserved("s1")).toBe(0)
+        expect(getSessionSpend("s1")).toBe(0.2)
+        expect((await enforceBudget(planned, "s1")).isRight()).toBe(true)
+      })
+
+      it("should estimate a fallback chain at its most expensive entry", async () => {
+        process.env.PANEL_MAX_COST_PER_CALL_USD = "0.5"
+        const violation = (await enforceBudget(planQueries(List.of("mock/echo -> openai/gpt-4o"), "hello"))).fold(
+          (v) => v,
+          () => expect.unreachable(),
+        )
+        expect(violation.estimatedCostUsd).toBeCloseTo(1)
+      })
+
+      it("should refuse billed models without pricing unless a fallback price is set", async () => {
+        process.env.PANEL_MAX_COST_PER_CALL_USD = "5"
+        const planned = planQueries(List.of("openai/unknown", "mock/echo"), "hello")
+
+        const refused = await enforceBudget(planned)
+        refused.fold(
+          (violation) => {
+            expect(violation.code).toBe("BUDGET_UNPRICED")
+            expect(violation.unpricedModels.toArray()).toEqual(["openai/unknown"])
+          },
+          () => expect.unreachable(),
+        )
+
+        process.env.PANEL_UNPRICED_PRICE_PER_MTOK_USD = "60"
+        const fallbackPriced = await enforceBudget(planned)
+        expect(fallbackPriced.isLeft()).toBe(true)
+        fallbackPriced.fold(
+          (violation) => {
+            expect(violation.code).toBe("BUDGET_EXCEEDED")
+            expect(violation.estimatedCostUsd).toBeCloseTo(6, 1)
+          },
+          () => undefined,
+        )
+      })
+    })
+  })
+})
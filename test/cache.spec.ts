@@ -0,0 +1,85 @@
+import { mkdtempSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import { cacheKey, clearResponseCache, getCachedResponse, setCachedResponse } from "../src/providers/cache"
+
+const response = {
+  model: "openai/gpt-4o",
+  text: "cached answer",
+  latencyMs: 100,
+  usage: { promptTokens: 10, completionTokens: 20, reasoningTokens: 0, totalTokens: 30 },
+  costUsd: 0.01,
+}
+
+describe("response cache", () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, PANEL_CACHE_DIR: mkdtempSync(join(tmpdir(), "panel-cache-")) }
+  })
+
+  afterEach(async () => {
+    await clearResponseCache()
+    process.env = originalEnv
+  })
+
+  describe("cacheKey", () => {
+    it("should ignore parameter key order", () => {
+      const a = cacheKey({ model: "m", prompt: "p", params: { temperature: 0, seed: 1 } })
+      const b = cacheKey({ model: "m", prompt: "p", params: { seed: 1, temperature: 0 } })
+      expect(a).toBe(b)
+    })
+
+    it("should differ when any input differs", () => {
+      const base = cacheKey({ model: "m", prompt: "p" })
+      expect(cacheKey({ model: "m2", prompt: "p" })).not.toBe(base)
+      expect(cacheKey({ model: "m", prompt: "p2" })).not.toBe(base)
+      expect(cacheKey({ model: "m", prompt: "p", systemPrompt: "s" })).not.toBe(base)
+      expect(cacheKey({ model: "m", prompt: "p", params: { temperature: 1 } })).not.toBe(base)
+    })
+  })
+
+  it("should return none for a missing entry", async () => {
+    expect((await getCachedResponse("missing")).isEmpty).toBe(true)
+  })
+
+  it("should round-trip a stored response", async () => {
+    await setCachedResponse("key", response)
+    expect((await getCachedResponse("key")).orThrow()).toEqual(response)
+  })
+
+  it("should drop entries older than the TTL", async () => {
+    process.env.PANEL_CACHE_TTL_MS = "1"
+    await setCachedResponse("key", response)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    expect((await getCachedResponse("key")).isEmpty).toBe(true)
+  })
+
+  it("should evict the oldest entries over the size limit", async () => {
+    process.env.PANEL_CACHE_MAX_BYTES = "400"
+    await setCachedResponse("first", response)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    await setCachedResponse("second", response)
+
+    expect((await getCachedResponse("first")).isEmpty).toBe(true)
+    expect((await getCachedResponse("second")).isEmpty).toBe(false)
+  })
+
+  it("should keep recently read entries when evicting", async () => {
+    process.env.PANEL_CACHE_MAX_BYTES = "600"
+    await setCachedResponse("first", response)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    await setCachedResponse("second", response)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    await getCachedResponse("first")
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    await setCachedResponse("third", response)
+
+    expect((await getCachedResponse("first")).isEmpty).toBe(false)
+    expect((await getCachedResponse("second")).isEmpty).toBe(true)
+    expect((await getCachedResponse("third")).isEmpty).toBe(false)
+  })
+})
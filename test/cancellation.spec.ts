@@ -0,0 +1,129 @@
+import { createServer, type Server, type ServerResponse } from "node:http"
+import type { AddressInfo } from "node:net"
+
+import { List } from "functype"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest"
+
+import { getRequestSignal, propagateCancellation, withRequestSignal } from "../src/cancellation"
+import { resetConfig, setConfig } from "../src/config"
+import { getModelTimeout } from "../src/constants"
+import { queryModel, queryModels } from "../src/providers"
+import { resetCircuitBreakers } from "../src/providers/circuit-breaker"
+
+describe("cancellation", () => {
+  describe("propagateCancellation", () => {
+    it("should run tools/call handlers with the request's signal in scope", async () => {
+      const seen: Array<AbortSignal | undefined> = []
+      const handlers = new Map([["tools/call", async () => seen.push(getRequestSignal().orUndefined())]])
+      const controller = new AbortController()
+
+      expect(propagateCancellation({ _requestHandlers: handlers })).toBe(true)
+      await handlers.get("tools/call")?.(undefined, { signal: controller.signal })
+
+      expect(seen).toEqual([controller.signal])
+      expect(getRequestSignal().isEmpty).toBe(true)
+    })
+
+    it("should leave servers without a tools/call handler alone", () => {
+      expect(propagateCancellation({})).toBe(false)
+      expect(propagateCancellation({ _requestHandlers: new Map() })).toBe(false)
+    })
+  })
+
+  it("should prefer a model's own timeout over the default", () => {
+    setConfig({ timeouts: { requestMs: 90_000, models: { "openai/o3": 300_000 } } })
+    expect(getModelTimeout("openai/o3")).toBe(300_000)
+    expect(getModelTimeout("openai/gpt-4o")).toBe(90_000)
+    resetConfig()
+  })
+
+  describe("model queries", () => {
+    const originalEnv = process.env
+    const state = { requests: 0, abandoned: 0 }
+    const reply = (res: ServerResponse, model: string): void => {
+      res.writeHead(200, { "content-type": "application/json" })
+      res.end(
+        JSON.stringify({
+          id: "cmpl-1",
+          object: "chat.completion",
+          created: 0,
+          model,
+          choices: [{ index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" }],
+          usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+        }),
+      )
+    }
+    // "fast" answers immediately; "slow" only answers after 5 seconds
+    const server: Server = createServer((req, res) => {
+      const chunks: Buffer[] = []
+      req.on("data", (chunk: Buffer) => chunks.push(chunk))
+      req.on("end", () => {
+        state.requests++
+        const { model } = JSON.parse(Buffer.concat(chunks).toString("utf8")) as { model: string }
+        if (model === "fast") return reply(res, model)
+        const timer = setTimeout(() => reply(res, model), 5000)
+        res.on("close", () => {
+          if (!res.writableFinished) state.abandoned++
+          clearTimeout(timer)
+        })
+      })
+    })
+
+    beforeAll(() => new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve)))
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())))
+
+    beforeEach(() => {
+      state.requests = 0
+      state.abandoned = 0
+      resetCircuitBreakers()
+      process.env = { PANEL_LOCAL_BASE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1` }
+    })
+
+    afterEach(() => {
+      process.env = originalEnv
+    })
+
+    it("should not send anything once the call is cancelled", async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      const result = await withRequestSignal(controller.signal, () => queryModel("local/fast", "hi"))
+
+      expect(result).toEqual({ model: "local/fast", error: "Cancelled before the model responded" })
+      expect(state.requests).toBe(0)
+    })
+
+    it("should abort in-flight requests when the client cancels", async () => {
+      const controller = new AbortController()
+      setTimeout(() => controller.abort(), 100)
+
+      const result = await withRequestSignal(controller.signal, () => queryModel("local/slow", "hi"))
+
+      expect(result).toEqual({ model: "local/slow", error: "Cancelled before the model responded" })
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      expect(state.abandoned).toBe(1)
+    })
+
+    it("should return the responses received before the deadline", async () => {
+      const startTime = Date.now()
+      const { responses, errors, timedOut } = await queryModels(List.of("local/fast", "local/slow"), "hi", undefined, {
+        deadlineMs: 200,
+      })
+
+      expect(Date.now() - startTime).toBeLessThan(2000)
+      expect(responses.map((r) => r.model).toArray()).toEqual(["local/fast"])
+      expect(timedOut.toArray()).toEqual(["local/slow"])
+      expect(errors.toArray()).toEqual([
+        { model: "local/slow", error: "No response within the 200ms deadline", retryable: true },
+      ])
+    })
+
+    it("should time out slow models using their own timeout", async () => {
+      setConfig({ timeouts: { models: { "local/slow": 100 } } })
+      const result = await queryModel("local/slow", "hi")
+      resetConfig()
+
+      expect(result).toMatchObject({ model: "local/slow", retryable: true })
+    })
+  })
+})
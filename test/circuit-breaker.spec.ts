@@ -0,0 +1,93 @@
+import { APICallError, RetryError } from "ai"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { CircuitBreaker, isTransientError } from "../src/providers/circuit-breaker"
+
+const apiError = (statusCode?: number) =>
+  new APICallError({
+    message: `status ${statusCode}`,
+    url: "https://example.com",
+    requestBodyValues: {},
+    statusCode,
+  })
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("should stay closed below the failure threshold", () => {
+    const breaker = new CircuitBreaker(3, 1000)
+    breaker.recordFailure()
+    breaker.recordFailure()
+    expect(breaker.state).toBe("closed")
+    expect(breaker.tryAcquire()).toBe(true)
+  })
+
+  it("should open at the threshold and reject requests", () => {
+    const breaker = new CircuitBreaker(2, 1000)
+    breaker.recordFailure()
+    breaker.recordFailure()
+    expect(breaker.state).toBe("open")
+    expect(breaker.tryAcquire()).toBe(false)
+  })
+
+  it("should allow a single probe after the cooldown", () => {
+    const breaker = new CircuitBreaker(1, 1000)
+    breaker.recordFailure()
+    vi.advanceTimersByTime(1000)
+
+    expect(breaker.state).toBe("half-open")
+    expect(breaker.tryAcquire()).toBe(true)
+    expect(breaker.tryAcquire()).toBe(false)
+  })
+
+  it("should close after a successful probe", () => {
+    const breaker = new CircuitBreaker(1, 1000)
+    breaker.recordFailure()
+    vi.advanceTimersByTime(1000)
+    breaker.tryAcquire()
+    breaker.recordSuccess()
+    expect(breaker.state).toBe("closed")
+  })
+
+  it("should re-open after a failed probe", () => {
+    const breaker = new CircuitBreaker(1, 1000)
+    breaker.recordFailure()
+    vi.advanceTimersByTime(1000)
+    breaker.tryAcquire()
+    breaker.recordFailure()
+    expect(breaker.state).toBe("open")
+  })
+})
+
+describe("isTransientError", () => {
+  it("should treat rate limits, server errors and network failures as transient", () => {
+    expect(isTransientError(apiError(429))).toBe(true)
+    expect(isTransientError(apiError(503))).toBe(true)
+    expect(isTransientError(apiError(undefined))).toBe(true)
+  })
+
+  it("should not treat client errors as transient", () => {
+    expect(isTransientError(apiError(400))).toBe(false)
+    expect(isTransientError(apiError(401))).toBe(false)
+    expect(isTransientError(new Error("boom"))).toBe(false)
+  })
+
+  it("should treat timeouts as transient", () => {
+    expect(isTransientError(new DOMException("timed out", "TimeoutError"))).toBe(true)
+  })
+
+  it("should inspect the last error of a retry error", () => {
+    const error = new RetryError({
+      message: "retries exhausted",
+      reason: "maxRetriesExceeded",
+      errors: [apiError(502)],
+    })
+    expect(isTransientError(error)).toBe(true)
+  })
+})
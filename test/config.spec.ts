@@ -0,0 +1,160 @@
+import { mkdtempSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import { loadConfigFile, parseConfig, resetConfig, setConfig } from "../src/config"
+import {
+  DEFAULT_PANEL_MODELS,
+  getDefaultChallengerModels,
+  getDefaultDebateModelsAsync,
+  getDefaultModels,
+  getProviderRpm,
+  getRequestTimeout,
+} from "../src/constants"
+import { getLocalEndpoints, isProviderConfigured } from "../src/providers/config"
+
+const writeTemp = (name: string, contents: string): string => {
+  const path = join(mkdtempSync(join(tmpdir(), "panel-config-")), name)
+  writeFileSync(path, contents, "utf8")
+  return path
+}
+
+describe("config file", () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    delete process.env.PANEL_DEFAULT_MODELS
+    delete process.env.PANEL_REQUEST_TIMEOUT_MS
+    delete process.env.PANEL_LOCAL_BASE_URL
+    delete process.env.PANEL_LOCAL_ENDPOINTS
+    delete process.env.MISTRAL_API_KEY
+  })
+
+  afterEach(() => {
+    resetConfig()
+    process.env = originalEnv
+  })
+
+  describe("parseConfig", () => {
+    it("should accept a full configuration", () => {
+      const result = parseConfig({
+        providers: {
+          openrouter: { apiKey: "key", rpm: 60 },
+          local: { endpoints: { ollama: { baseURL: "http://x/v1" } } },
+        },
+        panels: { fast: ["openai/gpt-4o-mini"], deep: ["anthropic/claude-sonnet-4-20250514"] },
+        defaultPanel: "fast",
+        challengers: "deep",
+        tools: { debate: { affirmativeModel: "openai/gpt-4o" } },
+        timeouts: { requestMs: 90_000 },
+      })
+      expect(result.isRight()).toBe(true)
+    })
+
+    it("should reject unknown keys and invalid values", () => {
+      expect(parseConfig({ timeout: 5 }).isLeft()).toBe(true)
+      expect(parseConfig({ timeouts: { requestMs: -1 } }).isLeft()).toBe(true)
+      expect(parseConfig({ providers: { local: { baseURL: "not a url" } } }).isLeft()).toBe(true)
+    })
+
+    it("should reject references to undefined panels", () => {
+      const result = parseConfig({ panels: { fast: ["a/b"] }, defaultPanel: "deep" })
+      expect(
+        result.fold(
+          (e) => e,
+          () => "",
+        ),
+      ).toContain('Unknown panel "deep"')
+      expect(parseConfig({ defaultPanel: "free" }).isRight()).toBe(true)
+    })
+  })
+
+  describe("loadConfigFile", () => {
+    it("should load YAML", () => {
+      const path = writeTemp("panel.config.yaml", "panels:\n  fast: [openai/gpt-4o-mini]\ndefaultPanel: fast\n")
+      const config = loadConfigFile(path).orThrow()
+      expect(config.panels?.fast).toEqual(["openai/gpt-4o-mini"])
+    })
+
+    it("should load JSON", () => {
+      const path = writeTemp("panel.config.json", JSON.stringify({ timeouts: { requestMs: 1000 } }))
+      expect(loadConfigFile(path).orThrow().timeouts?.requestMs).toBe(1000)
+    })
+
+    it("should report missing files and invalid contents", () => {
+      expect(loadConfigFile("/nonexistent/panel.config.json").isLeft()).toBe(true)
+      const path = writeTemp("panel.config.json", "{ not json")
+      expect(
+        loadConfigFile(path).fold(
+          (e) => e,
+          () => "",
+        ),
+      ).toContain("Failed to read config file")
+    })
+  })
+
+  describe("precedence", () => {
+    it("should use file values when the environment is unset", () => {
+      setConfig({ timeouts: { requestMs: 90_000 }, providers: { openai: { rpm: 30 } } })
+      expect(getRequestTimeout()).toBe(90_000)
+      expect(getProviderRpm("openai").orUndefined()).toBe(30)
+    })
+
+    it("should let environment variables override the file", () => {
+      setConfig({ timeouts: { requestMs: 90_000 } })
+      process.env.PANEL_REQUEST_TIMEOUT_MS = "5000"
+      expect(getRequestTimeout()).toBe(5000)
+    })
+
+    it("should resolve default, challenger and debate models from panels", async () => {
+      setConfig({
+        panels: { fast: ["a/fast"], deep: ["b/deep-1", "b/deep-2"] },
+        defaultPanel: "fast",
+        challengers: "deep",
+        tools: { debate: { negativeModel: "c/negative" } },
+      })
+      expect(getDefaultModels().toArray()).toEqual(["a/fast"])
+      expect(getDefaultChallengerModels().toArray()).toEqual(["b/deep-1", "b/deep-2"])
+      expect(await getDefaultDebateModelsAsync()).toEqual({ affirmativeModel: "a/fast", negativeModel: "c/negative" })
+    })
+
+    it("should let PANEL_DEFAULT_MODELS override every file model default", () => {
+      setConfig({ panels: { deep: ["b/deep"] }, defaultPanel: "deep", challengers: "deep" })
+      process.env.PANEL_DEFAULT_MODELS = "x/env"
+      expect(getDefaultModels().toArray()).toEqual(["x/env"])
+      expect(getDefaultChallengerModels().toArray()).toEqual(["x/env"])
+    })
+
+    it("should fall back to built-in defaults without a file", () => {
+      expect(getDefaultModels().toArray()).toEqual(DEFAULT_PANEL_MODELS.toArray())
+    })
+  })
+
+  describe("providers", () => {
+    it("should configure providers from file API keys", () => {
+      expect(isProviderConfigured("mistral")).toBe(false)
+      setConfig({ providers: { mistral: { apiKey: "from-file" } } })
+      expect(isProviderConfigured("mistral")).toBe(true)
+    })
+
+    it("should merge local endpoints, preferring the environment", () => {
+      process.env.PANEL_LOCAL_ENDPOINTS = "ollama=http://env-host:11434/v1"
+      setConfig({
+        providers: {
+          local: {
+            baseURL: "http://file-default/v1",
+            endpoints: { ollama: { baseURL: "http://file-host:11434/v1" }, vllm: { baseURL: "http://gpu:8000/v1" } },
+          },
+        },
+      })
+      expect(
+        getLocalEndpoints()
+          .map((e) => `${e.name}=${e.baseURL}`)
+          .toArray(),
+      ).toEqual(["default=http://file-default/v1", "ollama=http://env-host:11434/v1", "vllm=http://gpu:8000/v1"])
+    })
+  })
+})
@@ -9,6 +9,8 @@ import {
   SERVER_VERSION,
   getDefaultModels,
   getMaxConcurrent,
+  getProviderMaxConcurrent,
+  getProviderRpm,
   getRequestTimeout,
 } from "../src/constants"
 
@@ -85,6 +87,37 @@ describe("constants", () => {
     })
   })
 
+  describe("per-provider limits", () => {
+    const originalEnv = process.env
+
+    beforeEach(() => {
+      process.env = { ...originalEnv }
+    })
+
+    afterEach(() => {
+      process.env = originalEnv
+    })
+
+    it("should fall back to the global concurrency limit", () => {
+      process.env.PANEL_MAX_CONCURRENT = "7"
+      delete process.env.PANEL_MAX_CONCURRENT_OPENAI
+      expect(getProviderMaxConcurrent("openai")).toBe(7)
+    })
+
+    it("should prefer the provider-specific concurrency limit", () => {
+      process.env.PANEL_MAX_CONCURRENT = "7"
+      process.env.PANEL_MAX_CONCURRENT_OPENAI = "2"
+      expect(getProviderMaxConcurrent("openai")).toBe(2)
+    })
+
+    it("should leave RPM unset unless configured", () => {
+      delete process.env.PANEL_RPM_ANTHROPIC
+      expect(getProviderRpm("anthropic").isEmpty).toBe(true)
+      process.env.PANEL_RPM_ANTHROPIC = "50"
+      expect(getProviderRpm("anthropic").orElse(0)).toBe(50)
+    })
+  })
+
   describe("getRequestTimeout", () => {
     const originalEnv = process.env
 
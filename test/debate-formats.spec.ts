@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest"
+
+import { debatePhases, speechPrompt, transcriptEntry } from "../src/debate-formats"
+import type { DebateFormat } from "../src/types"
+
+const phasesOf = (format: DebateFormat, rounds: number = 2) =>
+  debatePhases(format, rounds)
+    .map((spec) => `${spec.phase}:${spec.firstSpeaker}`)
+    .toArray()
+
+describe("debate formats", () => {
+  it("should give each format its own phases", () => {
+    expect(phasesOf("classic", 3)).toEqual(["argument:affirmative", "argument:affirmative", "argument:affirmative"])
+    expect(phasesOf("oxford")).toEqual(["opening:affirmative", "rebuttal:affirmative", "closing:affirmative"])
+    expect(phasesOf("lincoln-douglas")).toEqual([
+      "constructive:affirmative",
+      "cross-examination:negative",
+      "cross-examination:affirmative",
+      "rebuttal:affirmative",
+    ])
+    expect(phasesOf("steelman")).toEqual(["opening:affirmative", "steelman:affirmative", "closing:affirmative"])
+  })
+
+  it("should have the examiner ask and the other side answer in cross-examination", () => {
+    const spec = debatePhases("lincoln-douglas", 0).get(1).orThrow()
+    const context = {
+      topic: "Tabs beat spaces",
+      format: "lincoln-douglas" as const,
+      spec,
+      round: 2,
+      totalRounds: 4,
+      transcript: "Round 1, Constructive case - Affirmative (a):\nTabs are semantic",
+      thoughtContext: "",
+    }
+
+    const questions = speechPrompt({ ...context, side: "negative" })
+    expect(questions).toContain("arguing AGAINST")
+    expect(questions).toContain("This is round 2 of 4: cross-examination questions.")
+    expect(questions).toContain("Ask only questions")
+
+    const answers = speechPrompt({ ...context, side: "affirmative" })
+    expect(answers).toContain("Answer every question directly")
+    expect(transcriptEntry(2, spec, "negative", "b", "Why?")).toBe(
+      "Round 2, Cross-examination questions - Negative (b):\nWhy?",
+    )
+  })
+
+  it("should ask for a steelman before the rebuttal", () => {
+    const spec = debatePhases("steelman", 0).get(1).orThrow()
+    const prompt = speechPrompt({
+      topic: "Tabs beat spaces",
+      format: "steelman",
+      spec,
+      side: "affirmative",
+      round: 2,
+      totalRounds: 3,
+      transcript: "earlier turns",
+      thoughtContext: "\n\nA proposed thought",
+    })
+
+    expect(prompt).toContain("restate your opponent's case in its strongest form")
+    expect(prompt).toContain("The debate so far:\nearlier turns")
+    expect(prompt).not.toContain("A proposed thought")
+  })
+
+  it("should keep the classic prompts", () => {
+    const spec = debatePhases("classic", 2).get(0).orThrow()
+    const context = { topic: "Tabs beat spaces", format: "classic" as const, spec, totalRounds: 2, thoughtContext: "" }
+
+    expect(speechPrompt({ ...context, side: "affirmative", round: 1, transcript: "" })).toContain(
+      "Make your opening argument.",
+    )
+    expect(speechPrompt({ ...context, side: "affirmative", round: 2, transcript: "earlier" })).toContain(
+      "Continue the debate, responding to the opponent's latest points.",
+    )
+    expect(transcriptEntry(1, spec, "affirmative", "a", "Tabs")).toBe("Round 1 - Affirmative (a):\nTabs")
+  })
+})
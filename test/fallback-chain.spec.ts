@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import { getCatalogIds, isUnbilledModel, parseFallbackChain, queryModel } from "../src/providers"
+import { isModelError } from "../src/types"
+
+describe("fallback chains", () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    delete process.env.OPENROUTER_API_KEY
+    delete process.env.OPENAI_API_KEY
+    delete process.env.ANTHROPIC_API_KEY
+    delete process.env.PANEL_CACHE_ENABLED
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  describe("parseFallbackChain", () => {
+    it("should return a single entry for a plain model", () => {
+      expect(parseFallbackChain("openai/gpt-4o").toArray()).toEqual(["openai/gpt-4o"])
+    })
+
+    it("should split and trim chain entries", () => {
+      expect(
+        parseFallbackChain(
+          "anthropic/claude-sonnet-4 -> openrouter/anthropic/claude-sonnet-4->openrouter/free",
+        ).toArray(),
+      ).toEqual(["anthropic/claude-sonnet-4", "openrouter/anthropic/claude-sonnet-4", "openrouter/free"])
+    })
+  })
+
+  it("should look a chain up in the catalog by its primary model", () => {
+    expect(getCatalogIds("openai/gpt-4o -> openrouter/openrouter/free").toArray()).toEqual(["openai/gpt-4o"])
+  })
+
+  it("should treat a chain as unbilled only when every entry is", () => {
+    expect(isUnbilledModel("mock/echo -> local/ollama/llama3.1")).toBe(true)
+    expect(isUnbilledModel("mock/echo -> openai/gpt-4o")).toBe(false)
+    expect(isUnbilledModel("openai/gpt-4o -> mock/echo")).toBe(false)
+  })
+
+  it("should skip unresolvable entries and report every failure", async () => {
+    const result = await queryModel("openai/gpt-4o -> anthropic/claude-sonnet-4", "hello")
+
+    expect(isModelError(result)).toBe(true)
+    if (!isModelError(result)) return
+    expect(result.model).toBe("openai/gpt-4o -> anthropic/claude-sonnet-4")
+    expect(result.error).toContain("All fallbacks failed")
+    expect(result.error).toContain("openai/gpt-4o: OpenAI API key not configured")
+    expect(result.error).toContain("anthropic/claude-sonnet-4: Anthropic API key not configured")
+  })
+})
@@ -0,0 +1,12 @@
+import type { ModelResponse } from "../src/types"
+
+/**
+ * A model reply with small fixed usage
+ */
+export const response = (model: string, text: string, costUsd = 0.01): ModelResponse => ({
+  model,
+  text,
+  latencyMs: 1,
+  usage: { promptTokens: 10, completionTokens: 5, reasoningTokens: 0, totalTokens: 15 },
+  costUsd,
+})
@@ -0,0 +1,134 @@
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+
+import { List } from "functype"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest"
+
+import { planQueries } from "../src/budget"
+import { resetConfig, setConfig } from "../src/config"
+import { queryModel } from "../src/providers"
+import { getModelParams } from "../src/providers/aliases"
+import { mergeParams, toCallSettings } from "../src/providers/generation"
+import { isModelError } from "../src/types"
+
+describe("generation params", () => {
+  describe("toCallSettings", () => {
+    it("should map common settings and omit unset ones", () => {
+      expect(toCallSettings("openai", { temperature: 0, maxTokens: 200, stopSequences: ["END"] })).toEqual({
+        temperature: 0,
+        maxOutputTokens: 200,
+        stopSequences: ["END"],
+      })
+      expect(toCallSettings("openai", {})).toEqual({})
+    })
+
+    it("should translate reasoning effort per provider", () => {
+      expect(toCallSettings("openai", { reasoningEffort: "high" }).providerOptions).toEqual({
+        openai: { reasoningEffort: "high" },
+      })
+      expect(toCallSettings("openrouter", { reasoningEffort: "low" }).providerOptions).toEqual({
+        openrouter: { reasoning: { effort: "low" } },
+      })
+      expect(toCallSettings("anthropic", { reasoningEffort: "medium" }).providerOptions).toEqual({
+        anthropic: { thinking: { type: "enabled", budgetTokens: 4096 } },
+      })
+      expect(toCallSettings("mistral", { reasoningEffort: "high" }).providerOptions).toBeUndefined()
+    })
+  })
+
+  it("should merge layers with later values winning and undefined ignored", () => {
+    expect(mergeParams({ temperature: 1, maxTokens: 100 }, { temperature: 0, maxTokens: undefined })).toEqual({
+      temperature: 0,
+      maxTokens: 100,
+    })
+  })
+
+  describe("panel settings", () => {
+    beforeEach(() => {
+      setConfig({
+        aliases: { thinker: "openai/o3" },
+        panels: { deep: [{ model: "thinker", reasoningEffort: "high", maxTokens: 8000 }, "openai/gpt-4o"] },
+      })
+    })
+
+    afterEach(() => {
+      resetConfig()
+    })
+
+    it("should attach panel entry settings to the resolved model", () => {
+      expect(getModelParams("openai/o3")).toEqual({ reasoningEffort: "high", maxTokens: 8000 })
+      expect(getModelParams("openai/gpt-4o")).toEqual({})
+    })
+
+    it("should use maxTokens as the budget output cap", () => {
+      const planned = planQueries(List.of("openai/o3", "openai/gpt-4o"), "hi", undefined, undefined)
+      expect(planned.map((q) => q.maxOutputTokens).toArray()).toEqual([8000, 4096])
+      expect(planQueries(List.of("openai/o3"), "hi", undefined, 50).head?.maxOutputTokens).toBe(50)
+    })
+  })
+
+  describe("queryModel", () => {
+    const originalEnv = process.env
+    const requests: Array<Record<string, unknown>> = []
+    const server: Server = createServer((req, res) => {
+      const chunks: Buffer[] = []
+      req.on("data", (chunk: Buffer) => chunks.push(chunk))
+      req.on("end", () => {
+        requests.push(JSON.parse(Buffer.concat(chunks).toString("utf8")) as Record<string, unknown>)
+        res.writeHead(200, { "content-type": "application/json" })
+        res.end(
+          JSON.stringify({
+            id: "cmpl-1",
+            object: "chat.completion",
+            created: 0,
+            model: "test-model",
+            choices: [{ index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" }],
+            usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+          }),
+        )
+      })
+    })
+
+    beforeAll(() => new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve)))
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())))
+
+    beforeEach(() => {
+      requests.length = 0
+      process.env = {
+        PANEL_LOCAL_BASE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+      }
+    })
+
+    afterEach(() => {
+      resetConfig()
+      process.env = originalEnv
+    })
+
+    it("should send generation settings to the provider", async () => {
+      setConfig({ panels: { p: [{ model: "local/test-model", temperature: 0.7, seed: 7 }] } })
+
+      const result = await queryModel("local/test-model", "hello", undefined, {
+        params: { temperature: 0, maxTokens: 64, topP: 0.9, stopSequences: ["END"] },
+      })
+
+      expect(isModelError(result)).toBe(false)
+      expect(requests[0]).toMatchObject({ temperature: 0, max_tokens: 64, top_p: 0.9, seed: 7, stop: ["END"] })
+    })
+
+    it("should send attachments as content parts", async () => {
+      await queryModel("local/test-model", "describe this", undefined, {
+        attachments: [{ mediaType: "image/png", data: "iVBORw0KGgo=" }],
+      })
+
+      expect(requests[0]?.messages).toEqual([
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "describe this" },
+            { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+          ],
+        },
+      ])
+    })
+  })
+})
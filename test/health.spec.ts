@@ -0,0 +1,100 @@
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+
+import { APICallError } from "ai"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest"
+
+import { checkHealth, classifyProbeError, clearHealthCache } from "../src/providers/health"
+
+const apiError = (statusCode: number, responseBody = "", responseHeaders?: Record<string, string>): APICallError =>
+  new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: "https://api.example.com",
+    requestBodyValues: {},
+    statusCode,
+    responseBody,
+    responseHeaders,
+  })
+
+describe("health checks", () => {
+  describe("classifyProbeError", () => {
+    it("should classify auth and quota failures as unhealthy", () => {
+      expect(classifyProbeError(apiError(401))).toMatchObject({ status: "unhealthy", failure: "auth" })
+      expect(classifyProbeError(apiError(402))).toMatchObject({ status: "unhealthy", failure: "quota" })
+      expect(classifyProbeError(apiError(429, '{"error":{"code":"insufficient_quota"}}'))).toMatchObject({
+        status: "unhealthy",
+        failure: "quota",
+      })
+    })
+
+    it("should classify rate limiting as degraded and keep rate-limit headers", () => {
+      const result = classifyProbeError(
+        apiError(429, "slow down", { "retry-after": "12", "x-ratelimit-remaining-requests": "0", "content-type": "x" }),
+      )
+      expect(result).toMatchObject({ status: "degraded", failure: "rate_limited" })
+      expect(result.rateLimit).toEqual({ "retry-after": "12", "x-ratelimit-remaining-requests": "0" })
+    })
+
+    it("should classify timeouts and network errors", () => {
+      expect(classifyProbeError(new DOMException("timed out", "TimeoutError")).failure).toBe("timeout")
+      expect(classifyProbeError(new TypeError("fetch failed")).failure).toBe("network")
+      expect(classifyProbeError(new Error("boom")).failure).toBe("error")
+    })
+  })
+
+  describe("checkHealth", () => {
+    const originalEnv = process.env
+    const state = { status: 200, requests: 0 }
+    const server: Server = createServer((_req, res) => {
+      state.requests++
+      res.writeHead(state.status, { "content-type": "application/json" })
+      res.end(JSON.stringify({ data: [] }))
+    })
+
+    beforeAll(() => new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve)))
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())))
+
+    beforeEach(() => {
+      clearHealthCache()
+      state.status = 200
+      state.requests = 0
+      process.env = { OPENAI_API_KEY: "test" }
+      process.env.PANEL_LOCAL_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+    })
+
+    afterEach(() => {
+      process.env = originalEnv
+    })
+
+    it("should report configured providers without probing by default", async () => {
+      const result = await checkHealth()
+      const openai = result.providers.find((p) => p.provider === "openai").orThrow()
+      expect(openai).toEqual({ provider: "openai", status: "healthy", probed: false })
+      expect(result.providers.find((p) => p.provider === "mistral").orThrow().status).toBe("unconfigured")
+      expect(state.requests).toBe(0)
+    })
+
+    it("should probe local endpoints and cache the result", async () => {
+      delete process.env.OPENAI_API_KEY
+
+      const first = await checkHealth({ deep: true })
+      const local = first.providers.find((p) => p.provider === "local").orThrow()
+      expect(local).toMatchObject({ status: "healthy", probed: true })
+      expect(first.status).toBe("healthy")
+
+      const second = await checkHealth({ deep: true })
+      expect(second.providers.find((p) => p.provider === "local").orThrow().cached).toBe(true)
+      expect(state.requests).toBe(1)
+    })
+
+    it("should report auth failures from local endpoints", async () => {
+      delete process.env.OPENAI_API_KEY
+      state.status = 401
+
+      const result = await checkHealth({ deep: true, refresh: true })
+      const local = result.providers.find((p) => p.provider === "local").orThrow()
+      expect(local).toMatchObject({ status: "unhealthy", failure: "auth", error: "default: HTTP 401" })
+      expect(result.status).toBe("unhealthy")
+    })
+  })
+})
@@ -0,0 +1,116 @@
+import { List } from "functype"
+import { describe, expect, it } from "vitest"
+
+import { combineScorecards, type JudgeReply, judgePrompt, scorecardSchema, toScorecard } from "../src/judging"
+import { parseStructured } from "../src/structured"
+
+const side = (argumentStrength: number, rebuttalQuality: number, evidence: number) => ({
+  argumentStrength,
+  rebuttalQuality,
+  evidence,
+})
+
+const reply = (winner: JudgeReply["winner"], affirmative: number): JudgeReply => ({
+  rounds: [
+    { round: 2, affirmative: side(affirmative, affirmative, affirmative), negative: side(5, 5, 5) },
+    { round: 1, affirmative: side(6, 6, 6), negative: side(6, 6, 6) },
+  ],
+  winner,
+  rationale: `${winner} was stronger`,
+})
+
+describe("debate judging", () => {
+  it("should show judges the transcript by side only", () => {
+    const prompt = judgePrompt(
+      "Tabs beat spaces",
+      List.of({
+        round: 1,
+        phase: "argument" as const,
+        firstSpeaker: "affirmative" as const,
+        affirmative: "Tabs are semantic",
+        negative: "Spaces are predictable",
+      }),
+    )
+
+    expect(prompt).toContain("--- Round 1: Affirmative ---\nTabs are semantic")
+    expect(prompt).toContain("--- Round 1: Negative ---\nSpaces are predictable")
+    expect(prompt).toContain("Score all 1 rounds")
+  })
+
+  it("should show cross-examination in speaking order", () => {
+    const prompt = judgePrompt(
+      "Tabs beat spaces",
+      List.of({
+        round: 2,
+        phase: "cross-examination" as const,
+        firstSpeaker: "negative" as const,
+        affirmative: "Because they are",
+        negative: "Why are tabs semantic?",
+      }),
+    )
+
+    expect(prompt).toContain(
+      "--- Round 2: Negative (cross-examination questions) ---\nWhy are tabs semantic?\n\n--- Round 2: Affirmative (cross-examination answers) ---",
+    )
+    expect(prompt).toContain("score the questioner")
+  })
+
+  it("should require every round to be scored exactly once", () => {
+    const schema = scorecardSchema(2)
+
+    expect(parseStructured(JSON.stringify(reply("affirmative", 8)), schema).isRight()).toBe(true)
+    expect(parseStructured(JSON.stringify({ ...reply("affirmative", 8), rounds: [] }), schema).isLeft()).toBe(true)
+
+    const valid = reply("affirmative", 8)
+    const [second, first] = valid.rounds
+    const outOfRange = { ...first, affirmative: side(11, 5, 5) }
+    expect(parseStructured(JSON.stringify({ ...valid, rounds: [second, second] }), schema).isLeft()).toBe(true)
+    expect(parseStructured(JSON.stringify({ ...valid, rounds: [second, outOfRange] }), schema).isLeft()).toBe(true)
+  })
+
+  it("should total the scores and order rounds", () => {
+    const card = toScorecard("judge-a", reply("affirmative", 8))
+
+    expect(card.rounds.map((r) => [r.round, r.affirmative.total, r.negative.total]).toArray()).toEqual([
+      [1, 18, 18],
+      [2, 24, 15],
+    ])
+  })
+
+  it("should average scores and report how far the judges agree", () => {
+    const judging = combineScorecards(
+      List.of(
+        toScorecard("judge-a", reply("affirmative", 8)),
+        toScorecard("judge-b", reply("affirmative", 6)),
+        toScorecard("judge-c", reply("negative", 4)),
+      ),
+      List.empty(),
+      List.empty(),
+    )
+
+    const round2 = judging.rounds.get(1).orThrow()
+    expect(round2.affirmative.total).toBe(18)
+    expect(round2.marginSpread).toBe(12)
+    expect(judging.rounds.get(0).orThrow().marginSpread).toBe(0)
+    expect(judging.verdict).toEqual({
+      winner: "affirmative",
+      votes: { affirmative: 2, negative: 1, draw: 0 },
+      agreement: 2 / 3,
+      unanimous: false,
+    })
+  })
+
+  it("should call a split without a majority a draw, and give no verdict without scorecards", () => {
+    const split = combineScorecards(
+      List.of(toScorecard("a", reply("affirmative", 8)), toScorecard("b", reply("negative", 4))),
+      List.empty(),
+      List.empty(),
+    )
+    expect(split.verdict?.winner).toBe("draw")
+    expect(split.verdict?.agreement).toBe(0.5)
+
+    const none = combineScorecards(List.empty(), List.empty(), List.of({ model: "a", error: "down" }))
+    expect(none.verdict).toBeUndefined()
+    expect(none.rounds.isEmpty).toBe(true)
+  })
+})
@@ -0,0 +1,127 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import { List } from "functype"
+import { afterAll, afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import { isProviderConfigured, queryModel, queryModels } from "../src/providers"
+import { resetCircuitBreakers } from "../src/providers/circuit-breaker"
+import { exampleValue, resetMockProvider } from "../src/providers/mock"
+import { ChallengeListSchema, CritiqueSchema, queryStructured } from "../src/structured"
+import { isModelError } from "../src/types"
+
+const critique = { strengths: ["clear"], weaknesses: [], suggestions: [], overallAssessment: "Good" }
+
+describe("mock provider", () => {
+  const originalEnv = process.env
+  const root = mkdtempSync(join(tmpdir(), "panel-mock-"))
+  const fixtures = join(root, "fixtures.yaml")
+
+  writeFileSync(
+    fixtures,
+    [
+      "critic:",
+      "  - match: /evaluate/i",
+      "    reply:",
+      "      - 'Looks fine to me'",
+      `      - '${JSON.stringify(critique)}'`,
+      "  - reply: 'No comment'",
+      "reviewer:",
+      "  - reply:",
+      "      - 'Looks fine to me'",
+      `      - '${JSON.stringify(critique)}'`,
+    ].join("\n"),
+  )
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  beforeEach(() => {
+    resetMockProvider()
+    resetCircuitBreakers()
+    process.env = { PANEL_MOCK_FIXTURES: fixtures }
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  it("should be available without any configuration", () => {
+    expect(isProviderConfigured("mock")).toBe(true)
+  })
+
+  it("should echo the prompt for free", async () => {
+    const result = await queryModel("mock/echo", "Hello, panel", "Be brief")
+
+    expect(result).toMatchObject({ model: "mock/echo", text: "Hello, panel", costUsd: 0 })
+    expect(isModelError(result) ? 0 : result.usage.promptTokens).toBeGreaterThan(0)
+  })
+
+  it("should reply from fixtures, serving sequenced replies in turn", async () => {
+    const replies = [
+      await queryModel("mock/critic", "Please evaluate this"),
+      await queryModel("mock/critic", "Evaluate again"),
+      await queryModel("mock/critic", "Evaluate once more"),
+      await queryModel("mock/critic", "Anything else?"),
+    ]
+    expect(replies.map((r) => (isModelError(r) ? r.error : r.text))).toEqual([
+      "Looks fine to me",
+      JSON.stringify(critique),
+      JSON.stringify(critique),
+      "No comment",
+    ])
+
+    const unknown = await queryModel("mock/nobody", "hi")
+    expect(isModelError(unknown) && unknown.error).toContain('No mock fixtures named "nobody"')
+  })
+
+  it("should exercise the structured repair pass", async () => {
+    const result = (await queryStructured("mock/reviewer", "Evaluate this answer", CritiqueSchema)).orThrow()
+
+    expect(result.repaired).toBe(true)
+    expect(result.value.orThrow()).toEqual(critique)
+  })
+
+  it("should answer with a value matching the requested schema", async () => {
+    const result = (await queryStructured("mock/json", "Find weaknesses", ChallengeListSchema)).orThrow()
+
+    expect(result.repaired).toBe(false)
+    expect(result.value.orThrow().challenges).toEqual([
+      { challengeType: "logical", challenge: "mock", severity: "minor", reasoning: "mock" },
+    ])
+    expect(exampleValue({ type: ["integer", "null"], minimum: 3 })).toBe(3)
+  })
+
+  it("should report malformed JSON as a parse failure once the correction fails too", async () => {
+    const result = (await queryStructured("mock/malformed-json", "Review", CritiqueSchema)).orThrow()
+
+    expect(result.value.isLeft()).toBe(true)
+    expect(result.attempts.size).toBe(2)
+  })
+
+  it("should script failures, rate limits and latency", async () => {
+    expect(await queryModel("mock/fail", "hi")).toMatchObject({ model: "mock/fail", retryable: true })
+    expect(await queryModel("mock/fail?status=400", "hi")).toEqual({
+      model: "mock/fail?status=400",
+      error: "Mock failure (HTTP 400)",
+    })
+    expect(await queryModel("mock/rate-limit -> mock/echo", "hi")).toMatchObject({
+      text: "hi",
+      servedBy: "mock/echo",
+    })
+
+    const { responses, timedOut } = await queryModels(List.of("mock/echo", "mock/echo?latency=5000"), "hi", undefined, {
+      deadlineMs: 100,
+    })
+    expect(responses.size).toBe(1)
+    expect(timedOut.toArray()).toEqual(["mock/echo?latency=5000"])
+  })
+
+  it("should reject invalid options", async () => {
+    const result = await queryModel("mock/echo?latency=soon", "hi")
+    expect(isModelError(result) && result.error).toBe("Invalid mock latency: soon")
+    expect(isModelError(await queryModel("mock/echo?colour=red", "hi"))).toBe(true)
+  })
+})
@@ -0,0 +1,72 @@
+import { List } from "functype"
+import { describe, expect, it } from "vitest"
+
+import { bordaCount, reviewPrompt, toPeerReview } from "../src/peer-review"
+import type { PeerReview } from "../src/types"
+import { response } from "./fixtures"
+
+const responses = List.of(
+  response("a", "Answer from a"),
+  response("b", "Answer from b"),
+  response("c", "Answer from c"),
+)
+
+const ballot = (reviewer: string, ranking: string[]): PeerReview => ({
+  reviewer,
+  critiques: List.empty(),
+  ranking: List(ranking),
+})
+
+describe("peer review", () => {
+  it("should show each reviewer the other answers under their labels", () => {
+    const prompt = reviewPrompt("Question?", responses, "b")
+
+    expect(prompt).toContain("--- Response A ---\nAnswer from a")
+    expect(prompt).toContain("--- Response C ---\nAnswer from c")
+    expect(prompt).not.toContain("Answer from b")
+    expect(prompt).toContain('"ranking": ["A", "C"]')
+  })
+
+  it("should map labels to models, ignoring the reviewer's own answer, unknown labels and repeats", () => {
+    const review = toPeerReview(
+      "a",
+      {
+        critiques: [
+          { response: "Response B", strengths: ["clear"], weaknesses: [], assessment: "Good" },
+          { response: "A", strengths: [], weaknesses: [], assessment: "Mine" },
+        ],
+        ranking: ["c", "A", "B", "C", "Z"],
+      },
+      responses,
+    )
+
+    expect(review.critiques.map((c) => c.model).toArray()).toEqual(["b"])
+    expect(review.ranking.toArray()).toEqual(["c", "b"])
+  })
+
+  describe("bordaCount", () => {
+    it("should order answers by points, breaking ties by average position", () => {
+      const ranking = bordaCount(
+        List.of("a", "b", "c", "d"),
+        List.of(ballot("a", ["c", "b", "d"]), ballot("b", ["c", "a", "d"]), ballot("c", ["b", "d"])),
+      )
+
+      expect(ranking.toArray()).toEqual([
+        { rank: 1, model: "c", points: 4, ballots: 2, averagePosition: 1 },
+        { rank: 2, model: "b", points: 2, ballots: 2, averagePosition: 1.5 },
+        { rank: 3, model: "a", points: 1, ballots: 1, averagePosition: 2 },
+        { rank: 4, model: "d", points: 0, ballots: 3, averagePosition: 2.6666666666666665 },
+      ])
+    })
+
+    it("should rank answers no ballot mentions last, in council order", () => {
+      const ranking = bordaCount(List.of("a", "b", "c"), List.of(ballot("a", ["c"])))
+
+      expect(ranking.map((r) => [r.model, r.points, r.ballots]).toArray()).toEqual([
+        ["c", 0, 1],
+        ["a", 0, 0],
+        ["b", 0, 0],
+      ])
+    })
+  })
+})
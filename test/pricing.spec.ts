@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { List } from "functype"
+
+import { clearModelCache, fetchOpenRouterModels } from "../src/providers/openrouter-models"
+import {
+  calculateCost,
+  estimateTokens,
+  findModelPricing,
+  priceUsage,
+  summarizeUsage,
+  toCatalogIds,
+  toTokenUsage,
+} from "../src/providers/pricing"
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  promptTokens,
+  completionTokens,
+  reasoningTokens: 0,
+  totalTokens: promptTokens + completionTokens,
+})
+
+describe("pricing", () => {
+  describe("toCatalogIds", () => {
+    it("should pass OpenRouter model paths through", () => {
+      expect(toCatalogIds("openrouter", "anthropic/claude-sonnet-4").toArray()).toEqual(["anthropic/claude-sonnet-4"])
+    })
+
+    it("should add an undated fallback for versioned models", () => {
+      expect(toCatalogIds("anthropic", "claude-sonnet-4-20250514").toArray()).toEqual([
+        "anthropic/claude-sonnet-4-20250514",
+        "anthropic/claude-sonnet-4",
+      ])
+    })
+
+    it("should map Mistral to its catalog namespace", () => {
+      expect(toCatalogIds("mistral", "mistral-large-latest").toArray()).toEqual(["mistralai/mistral-large-latest"])
+    })
+  })
+
+  describe("estimateTokens", () => {
+    it("should round up at four characters per token", () => {
+      expect(estimateTokens("")).toBe(0)
+      expect(estimateTokens("abcde")).toBe(2)
+    })
+  })
+
+  describe("toTokenUsage", () => {
+    it("should normalize SDK usage and default missing counts to zero", () => {
+      const result = toTokenUsage({
+        inputTokens: 10,
+        outputTokens: 20,
+        totalTokens: undefined,
+        inputTokenDetails: { noCacheTokens: undefined, cacheReadTokens: undefined, cacheWriteTokens: undefined },
+        outputTokenDetails: { textTokens: 15, reasoningTokens: 5 },
+      })
+      expect(result).toEqual({ promptTokens: 10, completionTokens: 20, reasoningTokens: 5, totalTokens: 30 })
+    })
+  })
+
+  describe("calculateCost", () => {
+    it("should multiply token counts by per-token prices", () => {
+      expect(calculateCost(usage(1000, 500), { prompt: "0.000003", completion: "0.000015" })).toBeCloseTo(0.0105)
+    })
+  })
+
+  describe("priceUsage", () => {
+    beforeEach(() => {
+      clearModelCache()
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(() =>
+          Promise.resolve(
+            new Response(
+              JSON.stringify({
+                data: [
+                  { id: "openai/gpt-4o", pricing: { prompt: "0.0000025", completion: "0.00001" } },
+                  { id: "openrouter/auto", pricing: { prompt: "-1", completion: "-1" } },
+                ],
+              }),
+            ),
+          ),
+        ),
+      )
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      clearModelCache()
+    })
+
+    it("should price models found in the catalog", async () => {
+      await fetchOpenRouterModels()
+      expect(priceUsage(List.of("openai/gpt-4o"), usage(1000, 1000))).toBeCloseTo(0.0125)
+    })
+
+    it("should return undefined for unknown models", async () => {
+      await fetchOpenRouterModels()
+      expect(priceUsage(List.of("unknown/model"), usage(1000, 1000))).toBeUndefined()
+    })
+
+    it("should treat negative catalog prices as unpriced", async () => {
+      await fetchOpenRouterModels()
+      expect(priceUsage(List.of("openrouter/auto"), usage(1000, 1000))).toBeUndefined()
+      expect((await findModelPricing(List.of("openrouter/auto"))).isEmpty).toBe(true)
+    })
+
+    it("should not wait on the catalog, loading it for later calls instead", async () => {
+      expect(priceUsage(List.of("openai/gpt-4o"), usage(1000, 1000))).toBeUndefined()
+      await fetchOpenRouterModels()
+      expect(priceUsage(List.of("openai/gpt-4o"), usage(1000, 1000))).toBeCloseTo(0.0125)
+      expect(fetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe("fetchOpenRouterModels", () => {
+    beforeEach(() => {
+      clearModelCache()
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      vi.useRealTimers()
+      clearModelCache()
+    })
+
+    it("should share one download between concurrent callers", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(() => Promise.resolve(new Response(JSON.stringify({ data: [{ id: "openai/gpt-4o" }] })))),
+      )
+      const [first, second] = await Promise.all([fetchOpenRouterModels(), fetchOpenRouterModels()])
+      expect(first.size).toBe(1)
+      expect(second.size).toBe(1)
+      expect(fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it("should retry a failed download after a minute rather than an hour", async () => {
+      vi.useFakeTimers()
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(() => Promise.reject(new Error("offline"))),
+      )
+      expect((await fetchOpenRouterModels()).isEmpty).toBe(true)
+      await fetchOpenRouterModels()
+      expect(fetch).toHaveBeenCalledTimes(1)
+
+      vi.advanceTimersByTime(61_000)
+      await fetchOpenRouterModels()
+      expect(fetch).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe("summarizeUsage", () => {
+    it("should total tokens and cost and list unpriced models once", () => {
+      const summary = summarizeUsage(
+        List.of(
+          { model: "a", text: "", latencyMs: 0, usage: usage(10, 5), costUsd: 0.5 },
+          { model: "b", text: "", latencyMs: 0, usage: usage(20, 10) },
+          { model: "b", text: "", latencyMs: 0, usage: usage(1, 1) },
+        ),
+      )
+      expect(summary.promptTokens).toBe(31)
+      expect(summary.completionTokens).toBe(16)
+      expect(summary.totalTokens).toBe(47)
+      expect(summary.costUsd).toBe(0.5)
+      expect(summary.unpricedModels.toArray()).toEqual(["b"])
+    })
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { createProgressReporter, formatModelProgress } from "../src/progress"
+
+const usage = { promptTokens: 0, completionTokens: 0, reasoningTokens: 0, totalTokens: 0 }
+
+describe("progress", () => {
+  describe("formatModelProgress", () => {
+    it("should format a successful response with its text", () => {
+      const text = formatModelProgress({ model: "openai/gpt-4o", text: "Hello", latencyMs: 42, usage }, 1, 3)
+      expect(text).toBe("[1/3] openai/gpt-4o responded (42ms):\n\nHello")
+    })
+
+    it("should format a failed response with its error", () => {
+      const text = formatModelProgress({ model: "openai/gpt-4o", error: "boom" }, 2, 3)
+      expect(text).toBe("[2/3] openai/gpt-4o failed: boom")
+    })
+  })
+
+  describe("createProgressReporter", () => {
+    it("should report increasing progress and stream each result", async () => {
+      const context = {
+        reportProgress: vi.fn(() => Promise.resolve()),
+        streamContent: vi.fn(() => Promise.resolve()),
+      }
+      const reporter = createProgressReporter(context, 2)
+
+      await reporter.modelCompleted({ model: "a", text: "first", latencyMs: 1, usage })
+      await reporter.step("second")
+
+      expect(context.reportProgress.mock.calls).toEqual([[{ progress: 1, total: 2 }], [{ progress: 2, total: 2 }]])
+      expect(context.streamContent).toHaveBeenNthCalledWith(1, {
+        type: "text",
+        text: "[1/2] a responded (1ms):\n\nfirst",
+      })
+      expect(context.streamContent).toHaveBeenNthCalledWith(2, { type: "text", text: "second" })
+    })
+  })
+})
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi, beforeEach, afterEach } from "vitest"
 
-import { isProviderConfigured, getConfiguredProviders } from "../src/providers/config"
+import { isProviderConfigured, getConfiguredProviders, getLocalEndpoints } from "../src/providers/config"
+import { resolveModel } from "../src/providers"
 
 describe("provider config", () => {
   const originalEnv = process.env
@@ -49,6 +50,8 @@ describe("provider config", () => {
       delete process.env.ANTHROPIC_API_KEY
       delete process.env.GOOGLE_GENERATIVE_AI_API_KEY
       delete process.env.MISTRAL_API_KEY
+      delete process.env.PANEL_LOCAL_BASE_URL
+      delete process.env.PANEL_LOCAL_ENDPOINTS
 
       const providers = getConfiguredProviders()
       expect(providers.isEmpty).toBe(true)
@@ -64,4 +67,47 @@ describe("provider config", () => {
       expect(providers.contains("google")).toBe(false)
     })
   })
+
+  describe("local endpoints", () => {
+    beforeEach(() => {
+      delete process.env.PANEL_LOCAL_BASE_URL
+      delete process.env.PANEL_LOCAL_API_KEY
+      delete process.env.PANEL_LOCAL_ENDPOINTS
+    })
+
+    it("should be unconfigured without endpoints", () => {
+      expect(getLocalEndpoints().isEmpty).toBe(true)
+      expect(isProviderConfigured("local")).toBe(false)
+    })
+
+    it("should parse default and named endpoints", () => {
+      process.env.PANEL_LOCAL_BASE_URL = "http://localhost:8000/v1"
+      process.env.PANEL_LOCAL_ENDPOINTS = "ollama=http://localhost:11434/v1, lm-studio=http://localhost:1234/v1"
+      process.env.PANEL_LOCAL_LM_STUDIO_API_KEY = "secret"
+
+      expect(getLocalEndpoints().toArray()).toEqual([
+        { name: "default", baseURL: "http://localhost:8000/v1", apiKey: undefined },
+        { name: "ollama", baseURL: "http://localhost:11434/v1", apiKey: undefined },
+        { name: "lm-studio", baseURL: "http://localhost:1234/v1", apiKey: "secret" },
+      ])
+      expect(isProviderConfigured("local")).toBe(true)
+    })
+
+    it("should resolve named and default local models", () => {
+      process.env.PANEL_LOCAL_BASE_URL = "http://localhost:8000/v1"
+      process.env.PANEL_LOCAL_ENDPOINTS = "ollama=http://localhost:11434/v1"
+
+      const named = resolveModel("local/ollama/llama3.1").orThrow()
+      expect(typeof named !== "string" && named.modelId).toBe("llama3.1")
+
+      const fallback = resolveModel("local/meta-llama/Llama-3.1-8B").orThrow()
+      expect(typeof fallback !== "string" && fallback.modelId).toBe("meta-llama/Llama-3.1-8B")
+    })
+
+    it("should explain when no endpoint matches", () => {
+      process.env.PANEL_LOCAL_ENDPOINTS = "ollama=http://localhost:11434/v1"
+      const result = resolveModel("local/unknown-model")
+      expect(result.isLeft()).toBe(true)
+    })
+  })
 })
@@ -1,6 +1,6 @@
-import { describe, expect, it } from "vitest"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
 
-import { Semaphore } from "../src/providers/rate-limiter"
+import { resetRateLimiters, Semaphore, TokenBucket, withRateLimit } from "../src/providers/rate-limiter"
 
 describe("Semaphore", () => {
   it("should allow operations up to permit count", async () => {
@@ -56,3 +56,121 @@ describe("Semaphore", () => {
     expect(result).toBe("success")
   })
 })
+
+describe("TokenBucket", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("should grant tokens immediately while capacity remains", async () => {
+    const bucket = new TokenBucket(10)
+    await bucket.take(4)
+    await bucket.take(6)
+    expect(bucket.available).toBe(0)
+  })
+
+  it("should wait for tokens to refill", async () => {
+    const bucket = new TokenBucket(60) // 1 token per second
+    await bucket.take(60)
+
+    let granted = false
+    const pending = bucket.take(1).then(() => {
+      granted = true
+    })
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(granted).toBe(false)
+
+    await vi.advanceTimersByTimeAsync(600)
+    await pending
+    expect(granted).toBe(true)
+  })
+
+  it("should serve waiters in arrival order", async () => {
+    const bucket = new TokenBucket(60)
+    await bucket.take(60)
+
+    const order: string[] = []
+    const large = bucket.take(10).then(() => order.push("large"))
+    const small = bucket.take(1).then(() => order.push("small"))
+
+    await vi.advanceTimersByTimeAsync(12_000)
+    await Promise.all([large, small])
+    expect(order).toEqual(["large", "small"])
+  })
+
+  it("should drop a waiter whose signal aborts and serve the next in line", async () => {
+    const bucket = new TokenBucket(60)
+    await bucket.take(60)
+
+    const controller = new AbortController()
+    const large = bucket.take(30, controller.signal)
+    let granted = false
+    const small = bucket.take(1).then(() => {
+      granted = true
+    })
+
+    controller.abort(new Error("cancelled"))
+    await expect(large).rejects.toThrow("cancelled")
+
+    await vi.advanceTimersByTimeAsync(1100)
+    await small
+    expect(granted).toBe(true)
+  })
+
+  it("should delay later takers after over-consumption", async () => {
+    const bucket = new TokenBucket(60)
+    bucket.consume(70)
+    expect(bucket.available).toBe(-10)
+  })
+})
+
+describe("withRateLimit", () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, PANEL_MAX_CONCURRENT_OPENROUTER: "1" }
+    resetRateLimiters()
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    resetRateLimiters()
+  })
+
+  it("should limit concurrency per provider without blocking other providers", async () => {
+    const release: { fn?: () => void } = {}
+    const blocker = withRateLimit("openrouter", () => new Promise<void>((resolve) => (release.fn = resolve)))
+
+    let queuedRan = false
+    const queued = withRateLimit("openrouter", async () => {
+      queuedRan = true
+    })
+
+    const other = await withRateLimit("anthropic", async () => "direct")
+    expect(other).toBe("direct")
+    expect(queuedRan).toBe(false)
+
+    release.fn?.()
+    await Promise.all([blocker, queued])
+    expect(queuedRan).toBe(true)
+  })
+
+  it("should give back what a call took when it is cancelled while queued", async () => {
+    process.env.PANEL_TPM_OPENROUTER = "100"
+    resetRateLimiters()
+    await withRateLimit("openrouter", async () => "first", { estimatedTokens: 100 })
+
+    const controller = new AbortController()
+    const fn = vi.fn(async () => "second")
+    const queued = withRateLimit("openrouter", fn, { estimatedTokens: 50, signal: controller.signal })
+    controller.abort(new Error("cancelled"))
+
+    await expect(queued).rejects.toThrow("cancelled")
+    expect(fn).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,106 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+import { List } from "functype"
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { enforceBudget, planQueries } from "../src/budget"
+import { queryModel } from "../src/providers"
+import { resetCircuitBreakers } from "../src/providers/circuit-breaker"
+import { resetMockProvider } from "../src/providers/mock"
+import { type Recording, resetReplay } from "../src/providers/recording"
+import { contextWindow } from "../src/transcript"
+import { isModelError } from "../src/types"
+
+describe("record and replay", () => {
+  const originalEnv = process.env
+  const root = mkdtempSync(join(tmpdir(), "panel-recordings-"))
+  const dir = join(root, "recordings")
+  const fixtures = join(root, "fixtures.yaml")
+
+  writeFileSync(fixtures, ["counter:", "  - reply: [one, two]"].join("\n"))
+
+  const useMode = (mode: string): void => {
+    process.env = { PANEL_RECORDING_MODE: mode, PANEL_RECORDING_DIR: dir, PANEL_MOCK_FIXTURES: fixtures }
+  }
+
+  const recordings = (): Recording[] =>
+    readdirSync(dir).map((file) => JSON.parse(readFileSync(join(dir, file), "utf8")) as Recording)
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  beforeEach(() => {
+    resetReplay()
+    resetMockProvider()
+    resetCircuitBreakers()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    vi.unstubAllGlobals()
+  })
+
+  it("should record responses and errors with their requests", async () => {
+    useMode("record")
+    await queryModel("mock/echo", "Hello", "Be brief", { params: { temperature: 0.2 } })
+    await queryModel("mock/fail?status=400", "Hello")
+
+    const saved = recordings().sort((a, b) => a.request.model.localeCompare(b.request.model))
+    expect(saved.map((r) => r.request)).toEqual([
+      { model: "mock/echo", prompt: "Hello", systemPrompt: "Be brief", params: { temperature: 0.2 } },
+      { model: "mock/fail?status=400", prompt: "Hello", params: {} },
+    ])
+    expect(saved[0]?.results[0]?.result).toMatchObject({ model: "mock/echo", text: "Hello" })
+    expect(saved[1]?.results[0]?.result).toEqual({ model: "mock/fail?status=400", error: "Mock failure (HTTP 400)" })
+  })
+
+  it("should replay recorded results without querying the model", async () => {
+    useMode("record")
+    const recorded = await queryModel("mock/echo?latency=50", "Hello")
+
+    useMode("replay")
+    const replayed = await queryModel("mock/echo?latency=50", "Hello")
+
+    expect(isModelError(recorded) || isModelError(replayed)).toBe(false)
+    expect(replayed).toMatchObject({ model: "mock/echo?latency=50", text: "Hello", costUsd: 0, replayed: true })
+    expect(isModelError(replayed) ? undefined : replayed.usage).toEqual(isModelError(recorded) ? {} : recorded.usage)
+  })
+
+  it("should replay repeated requests in recorded order, the last one repeating", async () => {
+    useMode("record")
+    await queryModel("mock/counter", "Count")
+    await queryModel("mock/counter", "Count")
+    expect(recordings()[0]?.results).toHaveLength(2)
+
+    useMode("replay")
+    resetMockProvider()
+    const replies = [
+      await queryModel("mock/counter", "Count"),
+      await queryModel("mock/counter", "Count"),
+      await queryModel("mock/counter", "Count"),
+    ]
+    expect(replies.map((r) => (isModelError(r) ? r.error : r.text))).toEqual(["one", "two", "two"])
+  })
+
+  it("should fail requests that were never recorded", async () => {
+    useMode("replay")
+    const result = await queryModel("mock/echo", "Never asked")
+
+    expect(isModelError(result) && result.error).toContain("No recording for this request to mock/echo")
+  })
+  it("should neither download the catalog nor bill anything in replay mode", async () => {
+    useMode("replay")
+    process.env.PANEL_MAX_COST_PER_CALL_USD = "0.01"
+    const fetchMock = vi.fn()
+    vi.stubGlobal("fetch", fetchMock)
+
+    const reserved = await enforceBudget(planQueries(List.of("openai/gpt-4o", "openai/unknown"), "Hello"))
+    expect(reserved.isRight()).toBe(true)
+    expect((await contextWindow("openai/gpt-4o", 100)).isEmpty).toBe(true)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,137 @@
+import { List, Option } from "functype"
+import { beforeEach, describe, expect, it } from "vitest"
+
+import { resetCircuitBreakers } from "../src/providers/circuit-breaker"
+import { formatTranscript, moderatorPrompt, participantPrompt, runRoundtable } from "../src/roundtable"
+import type { TurnOptions } from "../src/turns"
+
+const options = (fallback?: string): TurnOptions => ({
+  bypassCache: true,
+  retries: 0,
+  fallback: Option(fallback),
+  retryDelayMs: 0,
+})
+
+const participant = (name: string, model: string = "mock/echo") => ({ name, model, stance: `${name}'s view` })
+
+describe("roundtable", () => {
+  beforeEach(() => {
+    resetCircuitBreakers()
+  })
+
+  it("should show participants the discussion so far and the moderator's questions", () => {
+    const transcript = formatTranscript(
+      List.of({ round: 1, participant: "Ada", model: "m", text: "Types first" }),
+      List.of({ round: 1, summary: "Ada favours types", followUpQuestions: List.of("What about tests?") }),
+    )
+    expect(transcript).toBe("--- Round 1 ---\n\nAda:\nTypes first\n\nModerator:\nAda favours types")
+
+    const prompt = participantPrompt(
+      "Types or tests?",
+      participant("Bo"),
+      transcript,
+      2,
+      3,
+      List.of("What about tests?"),
+    )
+    expect(prompt).toContain("You are Bo")
+    expect(prompt).toContain("Your stance: Bo's view")
+    expect(prompt).toContain("This is round 2 of 3")
+    expect(prompt).toContain("The moderator asks:\n- What about tests?")
+
+    const opening = participantPrompt("Types or tests?", participant("Bo"), "", 1, 3, List.empty())
+    expect(opening).toContain("Open with your position")
+    expect(opening).not.toContain("The discussion so far")
+  })
+
+  it("should ask the moderator for questions between rounds, and only a summary at the end", () => {
+    expect(moderatorPrompt("Topic", "transcript", 1, false)).toContain("follow-up questions")
+    expect(moderatorPrompt("Topic", "transcript", 2, true)).toContain("closing summary")
+  })
+
+  it("should hold every round with a moderator note after each", async () => {
+    const steps: Array<string> = []
+    const outcome = await runRoundtable({
+      topic: "Types or tests?",
+      participants: List.of(participant("Ada"), participant("Bo"), participant("Cy")),
+      moderatorModel: "mock/json",
+      rounds: 2,
+      turnOptions: options(),
+      onStep: async (text) => {
+        steps.push(text)
+      },
+    })
+
+    expect(outcome.turns.map((t) => `${t.round}:${t.participant}`).toArray()).toEqual([
+      "1:Ada",
+      "1:Bo",
+      "1:Cy",
+      "2:Ada",
+      "2:Bo",
+      "2:Cy",
+    ])
+    expect(outcome.moderatorNotes.map((n) => n.round).toArray()).toEqual([1, 2])
+    expect(outcome.turns.get(3).orThrow().text).toContain("--- Round 1 ---")
+    expect(outcome.stoppedEarly).toBe(false)
+    expect(outcome.roundsHeld).toBe(2)
+    expect(outcome.responses.size).toBe(8)
+    expect(steps).toHaveLength(8)
+  })
+
+  it("should hand a failing seat to the fallback, or let the participant leave", async () => {
+    const substituted = await runRoundtable({
+      topic: "Topic",
+      participants: List.of(participant("Ada"), participant("Bo", "mock/fail?status=400")),
+      moderatorModel: "mock/json",
+      rounds: 2,
+      turnOptions: options("mock/echo"),
+    })
+    expect(substituted.substitutions.toArray()).toEqual([
+      { round: 1, participant: "Bo", from: "mock/fail?status=400", to: "mock/echo", error: "Mock failure (HTTP 400)" },
+    ])
+    expect(substituted.turns.filter((t) => t.participant === "Bo").size).toBe(2)
+
+    const departed = await runRoundtable({
+      topic: "Topic",
+      participants: List.of(participant("Ada"), participant("Bo"), participant("Cy", "mock/fail?status=400")),
+      moderatorModel: "mock/json",
+      rounds: 2,
+      turnOptions: options(),
+    })
+    expect(departed.departures.map((d) => `${d.round}:${d.participant}`).toArray()).toEqual(["1:Cy"])
+    expect(departed.turns.size).toBe(4)
+    expect(departed.stoppedEarly).toBe(false)
+  })
+
+  it("should stop early once fewer than two participants remain", async () => {
+    const outcome = await runRoundtable({
+      topic: "Topic",
+      participants: List.of(participant("Ada"), participant("Bo", "mock/fail?status=400")),
+      moderatorModel: "mock/json",
+      rounds: 3,
+      turnOptions: options(),
+    })
+
+    expect(outcome.turns.size).toBe(1)
+    expect(outcome.roundsHeld).toBe(1)
+    expect(outcome.stoppedEarly).toBe(true)
+    expect(outcome.moderatorNotes.size).toBe(1)
+  })
+
+  it("should carry on without questions when the moderator fails", async () => {
+    const outcome = await runRoundtable({
+      topic: "Topic",
+      participants: List.of(participant("Ada"), participant("Bo")),
+      moderatorModel: "mock/fail?status=400",
+      rounds: 2,
+      turnOptions: options(),
+    })
+
+    expect(outcome.turns.size).toBe(4)
+    expect(outcome.moderatorNotes.isEmpty).toBe(true)
+    expect(outcome.errors.map((e) => e.error).toArray()).toEqual([
+      "Moderator failed: Mock failure (HTTP 400)",
+      "Moderator failed: Mock failure (HTTP 400)",
+    ])
+  })
+})
@@ -0,0 +1,123 @@
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+
+import { List } from "functype"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { queryModels } from "../src/providers"
+import { clearSessions, createSession, endSession, getSession, planSessionTurn, recordTurn } from "../src/sessions"
+import { response } from "./fixtures"
+
+describe("sessions", () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    clearSessions()
+    process.env = { ...originalEnv }
+    delete process.env.PANEL_SESSION_TTL_MS
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  it("should keep a separate history per model", () => {
+    const session = createSession(List.of("a/one", "b/two"), "Be brief", {})
+
+    recordTurn(session.id, "Q1", List.of(response("a/one", "A1"), response("b/two", "B1")))
+    const updated = recordTurn(session.id, "Q2", List.of(response("a/one", "A2"))).orThrow()
+
+    expect(updated.turns).toBe(2)
+    expect(updated.histories.get("a/one")).toEqual([
+      { role: "user", content: "Q1" },
+      { role: "assistant", content: "A1" },
+      { role: "user", content: "Q2" },
+      { role: "assistant", content: "A2" },
+    ])
+    // b/two failed the second turn, so its history stops at the first
+    expect(updated.histories.get("b/two")).toEqual([
+      { role: "user", content: "Q1" },
+      { role: "assistant", content: "B1" },
+    ])
+    expect(updated.usage.costUsd).toBeCloseTo(0.03)
+  })
+
+  it("should count history towards the planned prompt size", () => {
+    const session = createSession(List.of("a/one", "b/two"), undefined, { maxTokens: 100 })
+    recordTurn(session.id, "x".repeat(400), List.of(response("a/one", "y".repeat(400))))
+
+    const planned = planSessionTurn(getSession(session.id).orThrow(), "hi")
+    const [first, second] = planned.toArray()
+    expect(first.promptTokens).toBeGreaterThan(second.promptTokens + 150)
+    expect(first.maxOutputTokens).toBe(100)
+  })
+
+  it("should close sessions and expire idle ones", () => {
+    const closed = createSession(List.of("a/one"), undefined, {})
+    expect(endSession(closed.id).isSome()).toBe(true)
+    expect(getSession(closed.id).isEmpty).toBe(true)
+
+    vi.useFakeTimers()
+    process.env.PANEL_SESSION_TTL_MS = "1000"
+    const idle = createSession(List.of("a/one"), undefined, {})
+    vi.advanceTimersByTime(500)
+    expect(getSession(idle.id).isSome()).toBe(true)
+    vi.advanceTimersByTime(1000)
+    expect(getSession(idle.id).isEmpty).toBe(true)
+    vi.useRealTimers()
+  })
+
+  describe("queryModels with histories", () => {
+    const requests: Array<{ model: string; messages: unknown[] }> = []
+    const server: Server = createServer((req, res) => {
+      const chunks: Buffer[] = []
+      req.on("data", (chunk: Buffer) => chunks.push(chunk))
+      req.on("end", () => {
+        const body = JSON.parse(Buffer.concat(chunks).toString("utf8")) as { model: string; messages: unknown[] }
+        requests.push(body)
+        res.writeHead(200, { "content-type": "application/json" })
+        res.end(
+          JSON.stringify({
+            id: "cmpl-1",
+            object: "chat.completion",
+            created: 0,
+            model: body.model,
+            choices: [{ index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" }],
+            usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+          }),
+        )
+      })
+    })
+
+    beforeAll(() => new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve)))
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())))
+
+    beforeEach(() => {
+      requests.length = 0
+      process.env = { PANEL_LOCAL_BASE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1` }
+    })
+
+    it("should send each model its own earlier turns", async () => {
+      const session = createSession(List.of("local/one", "local/two"), "Be brief", {})
+      recordTurn(session.id, "Q1", List.of(response("local/one", "A1")))
+      const current = getSession(session.id).orThrow()
+
+      const { responses } = await queryModels(current.models, "Q2", current.systemPrompt, {
+        histories: current.histories,
+      })
+
+      expect(responses.size).toBe(2)
+      const byModel = Object.fromEntries(requests.map((r) => [r.model, r.messages]))
+      expect(byModel.one).toEqual([
+        { role: "system", content: "Be brief" },
+        { role: "user", content: "Q1" },
+        { role: "assistant", content: "A1" },
+        { role: "user", content: "Q2" },
+      ])
+      expect(byModel.two).toEqual([
+        { role: "system", content: "Be brief" },
+        { role: "user", content: "Q2" },
+      ])
+    })
+  })
+})
@@ -0,0 +1,155 @@
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+
+import { List } from "functype"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest"
+
+import { jsonOutput } from "../src/providers/generation"
+import {
+  ChallengeListSchema,
+  CritiqueSchema,
+  extractJson,
+  fromJsonSchema,
+  parseStructured,
+  planStructured,
+  queryStructured,
+} from "../src/structured"
+
+const critique = { strengths: ["clear"], weaknesses: [], suggestions: ["cite sources"], overallAssessment: "Good" }
+
+describe("structured output", () => {
+  describe("extractJson", () => {
+    it("should unwrap code fences and surrounding prose", () => {
+      expect(extractJson('```json\n{"a":1}\n```')).toBe('{"a":1}')
+      expect(extractJson("Here you go:\n```\n[1]\n```\nHope that helps")).toBe("[1]")
+      expect(extractJson('Sure! {"a": {"b": 2}} Anything else?')).toBe('{"a": {"b": 2}}')
+    })
+  })
+
+  describe("parseStructured", () => {
+    it("should accept replies matching the schema", () => {
+      expect(parseStructured(JSON.stringify(critique), CritiqueSchema).orThrow()).toEqual(critique)
+    })
+
+    it("should accept a bare challenge array", () => {
+      const challenge = { challengeType: "logical", challenge: "c", severity: "minor", reasoning: "r" }
+      expect(parseStructured(JSON.stringify([challenge]), ChallengeListSchema).orThrow()).toEqual({
+        challenges: [challenge],
+      })
+      expect(parseStructured('{"challenges": []}', ChallengeListSchema).orThrow()).toEqual({ challenges: [] })
+    })
+
+    it("should report invalid JSON and schema violations", () => {
+      const invalid = parseStructured("not json at all", CritiqueSchema)
+      expect(invalid.isLeft() && invalid.value).toContain("Invalid JSON")
+
+      const mismatch = parseStructured('{"challenges":[{"challengeType":"vibes"}]}', ChallengeListSchema)
+      expect(mismatch.isLeft() && mismatch.value).toContain("challengeType")
+    })
+  })
+
+  describe("fromJsonSchema", () => {
+    it("should validate answers against a caller-supplied schema", () => {
+      const validator = fromJsonSchema({
+        type: "object",
+        properties: { label: { type: "string", enum: ["spam", "ham"] }, confidence: { type: "number" } },
+        required: ["label"],
+      }).orThrow()
+      expect(parseStructured('{"label":"spam","confidence":0.8}', validator).isRight()).toBe(true)
+      expect(parseStructured('{"label":"eggs"}', validator).isLeft()).toBe(true)
+    })
+
+    it("should reject schemas that don't describe an object", () => {
+      expect(fromJsonSchema({ type: "array", items: { type: "string" } }).isLeft()).toBe(true)
+    })
+  })
+
+  it("should only request a JSON response format from providers with a JSON mode", () => {
+    expect(jsonOutput("openai", { type: "object" }).isSome()).toBe(true)
+    expect(jsonOutput("local", { type: "object" }).isEmpty).toBe(true)
+  })
+
+  describe("planStructured", () => {
+    it("should plan a repair call that re-sends the prompt and the first reply", () => {
+      const planned = planStructured(List.of({ model: "m", promptTokens: 100, maxOutputTokens: 50 })).toArray()
+      expect(planned).toHaveLength(2)
+      expect(planned[1]?.promptTokens).toBeGreaterThan(150)
+      expect(planned[1]?.maxOutputTokens).toBe(50)
+    })
+  })
+
+  describe("queryStructured", () => {
+    const originalEnv = process.env
+    const state: { replies: string[]; requests: Array<{ messages: Array<{ role: string; content: string }> }> } = {
+      replies: [],
+      requests: [],
+    }
+    const server: Server = createServer((req, res) => {
+      const chunks: Buffer[] = []
+      req.on("data", (chunk: Buffer) => chunks.push(chunk))
+      req.on("end", () => {
+        state.requests.push(JSON.parse(Buffer.concat(chunks).toString("utf8")) as (typeof state.requests)[number])
+        res.writeHead(200, { "content-type": "application/json" })
+        res.end(
+          JSON.stringify({
+            id: "cmpl-1",
+            object: "chat.completion",
+            created: 0,
+            model: "critic",
+            choices: [
+              { index: 0, message: { role: "assistant", content: state.replies.shift() ?? "" }, finish_reason: "stop" },
+            ],
+            usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+          }),
+        )
+      })
+    })
+
+    beforeAll(() => new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve)))
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())))
+
+    beforeEach(() => {
+      state.replies = []
+      state.requests = []
+      process.env = { PANEL_LOCAL_BASE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1` }
+    })
+
+    afterEach(() => {
+      process.env = originalEnv
+    })
+
+    it("should return a valid reply without repairing", async () => {
+      state.replies = [JSON.stringify(critique)]
+      const result = (await queryStructured("local/critic", "review this", CritiqueSchema)).orThrow()
+      expect(result.value.orThrow()).toEqual(critique)
+      expect(result.repaired).toBe(false)
+      expect(result.attempts.size).toBe(1)
+    })
+
+    it("should ask for a correction when the reply is malformed", async () => {
+      state.replies = ['{"strengths": "clear"}', JSON.stringify(critique)]
+      const result = (await queryStructured("local/critic", "review this", CritiqueSchema)).orThrow()
+
+      expect(result.value.orThrow()).toEqual(critique)
+      expect(result.repaired).toBe(true)
+      expect(result.attempts.size).toBe(2)
+      // The correction request replays the original exchange
+      expect(state.requests[1]?.messages.map((m) => m.role)).toEqual(["user", "assistant", "user"])
+      expect(state.requests[1]?.messages[2]?.content).toContain("strengths")
+    })
+
+    it("should report a parse failure when the correction is malformed too", async () => {
+      state.replies = ["I think it's fine", "Still fine"]
+      const result = (await queryStructured("local/critic", "review this", CritiqueSchema)).orThrow()
+
+      expect(result.value.isLeft()).toBe(true)
+      expect(
+        result.value.fold(
+          (failure) => failure,
+          () => undefined,
+        ),
+      ).toMatchObject({ model: "local/critic", rawText: "Still fine", attempts: 2 })
+      expect(result.repaired).toBe(false)
+    })
+  })
+})
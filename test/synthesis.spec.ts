@@ -0,0 +1,62 @@
+import { List } from "functype"
+import { describe, expect, it } from "vitest"
+
+import { parseStructured } from "../src/structured"
+import { responseLabel, SynthesisSchema, synthesisPrompt, toSynthesis } from "../src/synthesis"
+import { response } from "./fixtures"
+
+const responses = List.of(
+  response("openai/gpt-4o", "Use PostgreSQL."),
+  response("anthropic/claude-sonnet-4-20250514", "Use PostgreSQL, with read replicas."),
+  response("google/gemini-2.5-pro", "Use DynamoDB."),
+)
+
+describe("synthesis", () => {
+  it("should label responses A to Z, then AA onwards", () => {
+    expect([0, 1, 25, 26, 27, 52].map(responseLabel)).toEqual(["A", "B", "Z", "AA", "AB", "BA"])
+  })
+
+  it("should show the chairman labelled responses without model names", () => {
+    const prompt = synthesisPrompt("Which database?", responses)
+
+    expect(prompt).toContain("--- Response A ---\nUse PostgreSQL.")
+    expect(prompt).toContain("--- Response C ---\nUse DynamoDB.")
+    expect(prompt).not.toContain("openai/gpt-4o")
+  })
+
+  it("should map labels back to models, dropping labels no response has", () => {
+    const reply = parseStructured(
+      JSON.stringify({
+        answer: "PostgreSQL, unless the access pattern is pure key-value",
+        consensus: ["A managed service is preferable"],
+        disputed: [
+          {
+            point: "Relational or key-value",
+            positions: [
+              { position: "PostgreSQL", responses: ["A", "Response B", "b"] },
+              { position: "DynamoDB", responses: ["C", "D"] },
+            ],
+          },
+        ],
+        uniqueInsights: [
+          { response: "B", insight: "Read replicas" },
+          { response: "E", insight: "Invented" },
+        ],
+      }),
+      SynthesisSchema,
+    ).orThrow()
+
+    const synthesis = toSynthesis(reply, responses)
+
+    expect(synthesis.consensus.toArray()).toEqual(["A managed service is preferable"])
+    expect(
+      synthesis.disputed.toArray().flatMap((d) => d.positions.toArray().map((p) => [p.position, p.models.toArray()])),
+    ).toEqual([
+      ["PostgreSQL", ["openai/gpt-4o", "anthropic/claude-sonnet-4-20250514"]],
+      ["DynamoDB", ["google/gemini-2.5-pro"]],
+    ])
+    expect(synthesis.uniqueInsights.toArray()).toEqual([
+      { model: "anthropic/claude-sonnet-4-20250514", insight: "Read replicas" },
+    ])
+  })
+})
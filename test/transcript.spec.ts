@@ -0,0 +1,89 @@
+import { Option } from "functype"
+import { beforeEach, describe, expect, it } from "vitest"
+
+import { resetCircuitBreakers } from "../src/providers/circuit-breaker"
+import {
+  addEntry,
+  type CompressionSettings,
+  compressionStats,
+  emptyTranscript,
+  renderTranscript,
+  type Transcript,
+  transcriptForTurn,
+  turnsToFold,
+} from "../src/transcript"
+
+const transcriptOf = (...entries: ReadonlyArray<string>): Transcript => entries.reduce(addEntry, emptyTranscript)
+
+const settings = (summarizerModel: string, keepTurns?: number): CompressionSettings => ({
+  topic: "Tabs beat spaces",
+  summarizerModel,
+  keepTurns: Option(keepTurns),
+  options: { bypassCache: true },
+})
+
+describe("debate transcripts", () => {
+  beforeEach(() => {
+    resetCircuitBreakers()
+  })
+
+  it("should fold turns beyond keepTurns, and as many as the context window needs", () => {
+    const transcript = transcriptOf("a".repeat(400), "b".repeat(400), "c".repeat(400), "d".repeat(400))
+
+    expect(turnsToFold(transcript, Option.none(), Option.none())).toBe(0)
+    expect(turnsToFold(transcript, Option(3), Option.none())).toBe(1)
+    expect(turnsToFold(transcript, Option(10), Option.none())).toBe(0)
+    // Each turn is ~100 tokens; a 300-token window holds a 75-token summary and two turns
+    expect(turnsToFold(transcript, Option.none(), Option(300))).toBe(2)
+    expect(turnsToFold(transcript, Option(3), Option(300))).toBe(2)
+    expect(turnsToFold(transcript, Option.none(), Option(10))).toBe(4)
+  })
+
+  it("should send the whole transcript while nothing needs folding", async () => {
+    const { transcript, text } = await transcriptForTurn(
+      transcriptOf("first", "second"),
+      settings("mock/fail"),
+      Option.none(),
+    )
+
+    expect(text).toBe("first\n\nsecond")
+    expect(transcript.summaries).toBe(0)
+    expect(compressionStats(transcript, settings("mock/fail")).ratio).toBe(1)
+  })
+
+  it("should keep the last turns verbatim after the running summary", async () => {
+    const { transcript, text } = await transcriptForTurn(
+      transcriptOf("first", "second", "third"),
+      settings("mock/echo", 1),
+      Option.none(),
+    )
+
+    expect(transcript.summarized).toBe(2)
+    expect(transcript.summary).toContain("Turns to add:\nfirst\n\nsecond")
+    expect(text).toBe(`Summary of the earlier turns:\n${transcript.summary}\n\nthird`)
+    expect(renderTranscript(addEntry(transcript, "fourth"))).toMatch(/third\n\nfourth$/)
+
+    const stats = compressionStats(transcript, settings("mock/echo", 1))
+    expect(stats).toMatchObject({ summarizerModel: "mock/echo", keepTurns: 1, summaries: 1, turnsSummarized: 2 })
+    expect(transcript.responses.size).toBe(1)
+  })
+
+  it("should keep the whole transcript when the summarizer fails", async () => {
+    const { transcript, text } = await transcriptForTurn(
+      transcriptOf("first", "second"),
+      settings("mock/fail?status=400", 1),
+      Option.none(),
+    )
+
+    expect(text).toBe("first\n\nsecond")
+    expect(transcript.summarized).toBe(0)
+    expect(transcript.errors.map((e) => e.error).toArray()).toEqual(["Summary failed: Mock failure (HTTP 400)"])
+  })
+
+  it("should compare what was sent with the full transcript", () => {
+    const transcript: Transcript = { ...transcriptOf("x"), fullTokens: 400, sentTokens: 100 }
+
+    expect(compressionStats(transcript, settings("mock/echo")).ratio).toBe(0.25)
+    expect(compressionStats(transcript, settings("mock/echo"))).not.toHaveProperty("keepTurns")
+  })
+})
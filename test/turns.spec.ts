@@ -0,0 +1,58 @@
+import { Option } from "functype"
+import { beforeEach, describe, expect, it } from "vitest"
+
+import { planTurn, takeTurn, type TurnOptions } from "../src/turns"
+import { resetCircuitBreakers } from "../src/providers/circuit-breaker"
+
+const options = (retries: number, fallback?: string): TurnOptions => ({
+  retries,
+  fallback: Option(fallback),
+  retryDelayMs: 0,
+})
+
+describe("discussion turns", () => {
+  beforeEach(() => {
+    resetCircuitBreakers()
+  })
+
+  it("should return the debater's argument", async () => {
+    const turn = (await takeTurn("mock/echo", "Argue for", options(1))).orThrow()
+
+    expect(turn.model).toBe("mock/echo")
+    expect(turn.response.text).toBe("Argue for")
+    expect(turn.replaced).toBeUndefined()
+  })
+
+  it("should retry transient failures, but not permanent ones", async () => {
+    const transient = await takeTurn("mock/fail", "Argue against", options(2))
+    expect(transient.isLeft() && transient.value).toMatchObject({
+      model: "mock/fail",
+      attempts: 3,
+      error: { retryable: true },
+    })
+
+    const permanent = await takeTurn("mock/fail?status=400", "Argue against", options(2))
+    expect(permanent.isLeft() && permanent.value.attempts).toBe(1)
+  })
+
+  it("should hand the turn to the fallback debater when the debater keeps failing", async () => {
+    const turn = (await takeTurn("mock/fail?status=400", "Argue against", options(0, "mock/echo"))).orThrow()
+
+    expect(turn.model).toBe("mock/echo")
+    expect(turn.response.text).toBe("Argue against")
+    expect(turn.replaced).toEqual({ model: "mock/fail?status=400", error: "Mock failure (HTTP 400)" })
+  })
+
+  it("should fail when the fallback fails too, or is the failing debater itself", async () => {
+    const both = await takeTurn("mock/fail?status=400", "Argue", options(0, "mock/fail?status=401"))
+    expect(both.isLeft() && both.value.model).toBe("mock/fail?status=401")
+
+    const same = await takeTurn("mock/fail?status=400", "Argue", options(0, "mock/fail?status=400"))
+    expect(same.isLeft() && same.value.attempts).toBe(1)
+  })
+
+  it("should plan a turn with a fallback as a chain of the seat and the fallback", () => {
+    expect(planTurn("mock/echo", Option.none(), 100)).toEqual({ model: "mock/echo", maxOutputTokens: 100 })
+    expect(planTurn("mock/echo", Option("openai/gpt-4o"), 100).model).toBe("mock/echo -> openai/gpt-4o")
+  })
+})